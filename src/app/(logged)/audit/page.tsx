@@ -0,0 +1,327 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  AUDITED_TABLES,
+  auditLogQueryKey,
+  fetchAuditLog,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type AuditedTable,
+} from '@/lib/audit';
+import { fetchMembers, membersQueryKey } from '@/lib/permissions';
+import { RequirePermission } from '@/components/require-permission';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Json } from '@/types/database';
+import { ChevronDown, ChevronLeft, ChevronRight, ScrollText } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const OPERATION_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  INSERT: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+const formatJson = (value: Json | undefined) =>
+  value === undefined || value === null ? '—' : JSON.stringify(value);
+
+export default function AuditPage() {
+  return (
+    <RequirePermission permission="viewAuditLog">
+      <AuditLog />
+    </RequirePermission>
+  );
+}
+
+function AuditLog() {
+  const t = useTranslations();
+  const locale = useLocale();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [pageIndex, setPageIndex] = useState(0);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+
+  const { data: members } = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: fetchMembers,
+  });
+
+  const { data: auditLog, isLoading } = useQuery({
+    queryKey: [...auditLogQueryKey, filters, pageIndex],
+    queryFn: () => fetchAuditLog(filters, pageIndex, PAGE_SIZE),
+  });
+
+  const pageCount = Math.max(1, Math.ceil((auditLog?.count ?? 0) / PAGE_SIZE));
+
+  const updateFilters = (update: Partial<AuditLogFilters>) => {
+    setFilters(current => ({ ...current, ...update }));
+    setPageIndex(0);
+  };
+
+  const resetFilters = () => {
+    setFilters({});
+    setPageIndex(0);
+  };
+
+  // Old and new values of the fields an entry changed
+  const renderChanges = (entry: AuditLogEntry) => {
+    const oldData = (entry.old_data ?? {}) as Record<string, Json>;
+    const newData = (entry.new_data ?? {}) as Record<string, Json>;
+    const fields =
+      entry.changed_fields ?? Object.keys(entry.operation === 'DELETE' ? oldData : newData);
+
+    return (
+      <div className="space-y-1 font-mono text-xs">
+        {fields.map(field => (
+          <div key={field} className="grid grid-cols-[160px_1fr] gap-2">
+            <span className="font-semibold">{field}</span>
+            <span className="break-all">
+              {entry.operation === 'UPDATE'
+                ? `${formatJson(oldData[field])} → ${formatJson(newData[field])}`
+                : formatJson(entry.operation === 'DELETE' ? oldData[field] : newData[field])}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{t('audit.title')}</h1>
+          <p className="text-base text-muted-foreground">{t('audit.description')}</p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid gap-4 md:grid-cols-5">
+          <div className="space-y-2">
+            <Label>{t('audit.filters.user')}</Label>
+            <Select
+              value={filters.userId ?? 'all'}
+              onValueChange={value =>
+                updateFilters({ userId: value === 'all' ? undefined : value })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('audit.filters.allUsers')}</SelectItem>
+                {members?.map(member => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.full_name || member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('audit.filters.table')}</Label>
+            <Select
+              value={filters.tableName ?? 'all'}
+              onValueChange={value =>
+                updateFilters({ tableName: value === 'all' ? undefined : (value as AuditedTable) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('audit.filters.allTables')}</SelectItem>
+                {AUDITED_TABLES.map(table => (
+                  <SelectItem key={table} value={table}>
+                    {t(`audit.tables.${table}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity">{t('audit.filters.entity')}</Label>
+            <Input
+              id="audit-entity"
+              placeholder={t('audit.filters.entityPlaceholder')}
+              value={filters.entity ?? ''}
+              onChange={e => updateFilters({ entity: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">{t('audit.filters.from')}</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from ?? ''}
+              onChange={e => updateFilters({ from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">{t('audit.filters.to')}</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to ?? ''}
+              onChange={e => updateFilters({ to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+        <div>
+          <Button variant="outline" size="sm" onClick={resetFilters}>
+            {t('audit.filters.reset')}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : auditLog && auditLog.entries.length > 0 ? (
+            <div className="space-y-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>{t('audit.columns.date')}</TableHead>
+                      <TableHead>{t('audit.columns.user')}</TableHead>
+                      <TableHead>{t('audit.columns.operation')}</TableHead>
+                      <TableHead>{t('audit.columns.table')}</TableHead>
+                      <TableHead>{t('audit.columns.entity')}</TableHead>
+                      <TableHead>{t('audit.columns.changes')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {auditLog.entries.map(entry => {
+                      const isExpanded = entry.id === expandedEntryId;
+                      const oldData = entry.old_data as Record<string, Json> | null;
+                      return (
+                        <Fragment key={entry.id}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() => setExpandedEntryId(isExpanded ? null : entry.id)}
+                          >
+                            <TableCell>
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(entry.created_at), 'PPpp', {
+                                locale: locale === 'fr' ? fr : undefined,
+                              })}
+                            </TableCell>
+                            <TableCell>
+                              {entry.user?.full_name ||
+                                entry.user?.email ||
+                                (entry.user_id ? '—' : t('audit.system'))}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={OPERATION_VARIANTS[entry.operation] ?? 'secondary'}>
+                                {t(`audit.operations.${entry.operation}`)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {AUDITED_TABLES.includes(entry.table_name as AuditedTable)
+                                ? t(`audit.tables.${entry.table_name as AuditedTable}`)
+                                : entry.table_name}
+                            </TableCell>
+                            <TableCell className="font-medium">
+                              {entry.record_label || entry.record_id || '—'}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {entry.table_name === 'metric_data'
+                                ? t('audit.deletedDataPoints', {
+                                    count: Number(oldData?.count ?? 0),
+                                  })
+                                : entry.changed_fields?.join(', ')}
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow className="hover:bg-transparent">
+                              <TableCell />
+                              <TableCell colSpan={6}>
+                                <p className="mb-2 font-mono text-xs text-muted-foreground">
+                                  {entry.record_id}
+                                </p>
+                                {renderChanges(entry)}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-end space-x-4">
+                <div className="text-sm font-medium">
+                  {t('common.page')} {pageIndex + 1} {t('metrics.detail.of')} {pageCount}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPageIndex(index => index - 1)}
+                    disabled={pageIndex === 0}
+                  >
+                    <span className="sr-only">Previous page</span>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPageIndex(index => index + 1)}
+                    disabled={pageIndex + 1 >= pageCount}
+                  >
+                    <span className="sr-only">Next page</span>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <ScrollText className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('audit.noEntries')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  categoriesQueryKey,
+  createCategory,
+  deleteCategory,
+  fetchCategories,
+  flattenCategoryTree,
+  getCategoryDescendantIds,
+  updateCategory,
+  type CategoryInput,
+  type CategoryWithUsage,
+} from '@/lib/categories';
+import { metricsWithStatsQueryKey } from '@/hooks/use-metrics-with-stats';
+import { RequirePermission } from '@/components/require-permission';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { FolderPlus, FolderTree, PencilIcon, Plus, Trash2 } from 'lucide-react';
+
+export default function CategoriesPage() {
+  return (
+    <RequirePermission permission="editMetrics">
+      <CategoriesManager />
+    </RequirePermission>
+  );
+}
+
+function CategoriesManager() {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  // Category being created or edited, new categories have no id
+  const [editingCategory, setEditingCategory] = useState<(CategoryInput & { id?: string }) | null>(
+    null
+  );
+  const [categoryToDelete, setCategoryToDelete] = useState<CategoryWithUsage | null>(null);
+
+  const { data: categories, isLoading } = useQuery({
+    queryKey: categoriesQueryKey,
+    queryFn: fetchCategories,
+  });
+
+  const { mutate: remove, isPending: isDeleting } = useMutation({
+    mutationFn: (category: CategoryWithUsage) => deleteCategory(category.id),
+    onSuccess: (_, category) => {
+      queryClient.invalidateQueries({ queryKey: categoriesQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      setCategoryToDelete(null);
+      toast({ title: t('categories.deleted', { name: category.name }) });
+    },
+    onError: error => {
+      toast({
+        title: t('categories.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const rows = flattenCategoryTree(categories ?? []);
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">{t('categories.title')}</h1>
+            <p className="text-base text-muted-foreground">{t('categories.description')}</p>
+          </div>
+          <Button
+            onClick={() => setEditingCategory({ name: '', description: null, parent_id: null })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t('categories.add')}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : rows.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('categories.fields.name')}</TableHead>
+                    <TableHead>{t('categories.columns.metrics')}</TableHead>
+                    <TableHead>{t('categories.columns.files')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ category, depth }) => (
+                    <TableRow key={category.id}>
+                      <TableCell style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                        <div className="font-medium">{category.name}</div>
+                        {category.description && (
+                          <p className="text-xs text-muted-foreground">{category.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{category.metric_count}</TableCell>
+                      <TableCell>{category.file_count}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() =>
+                              setEditingCategory({
+                                name: '',
+                                description: null,
+                                parent_id: category.id,
+                              })
+                            }
+                          >
+                            <FolderPlus className="h-4 w-4" />
+                            <span className="sr-only">{t('categories.addChild')}</span>
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setEditingCategory(category)}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                            <span className="sr-only">{t('common.edit')}</span>
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setCategoryToDelete(category)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">{t('common.delete')}</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <FolderTree className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('categories.empty')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingCategory && (
+        <CategoryDialog
+          category={editingCategory}
+          categories={categories ?? []}
+          onClose={() => setEditingCategory(null)}
+        />
+      )}
+
+      <AlertDialog
+        open={!!categoryToDelete}
+        onOpenChange={open => !open && setCategoryToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('categories.deleteConfirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {categoryToDelete &&
+                t('categories.deleteConfirmDescription', {
+                  name: categoryToDelete.name,
+                  metrics: categoryToDelete.metric_count,
+                  files: categoryToDelete.file_count,
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => categoryToDelete && remove(categoryToDelete)}
+              disabled={isDeleting}
+            >
+              {isDeleting ? t('common.deleting') : t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function CategoryDialog({
+  category,
+  categories,
+  onClose,
+}: {
+  category: CategoryInput & { id?: string };
+  categories: CategoryWithUsage[];
+  onClose: () => void;
+}) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(category.name);
+  const [description, setDescription] = useState(category.description ?? '');
+  const [parentId, setParentId] = useState(category.parent_id ?? 'none');
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: (input: CategoryInput) =>
+      category.id ? updateCategory(category.id, input) : createCategory(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoriesQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      toast({ title: t('categories.saved') });
+      onClose();
+    },
+    onError: (error: { code?: string; message: string }) => {
+      toast({
+        title: t('categories.saveError'),
+        // 23505: unique violation, a sibling category already has this name
+        description: error.code === '23505' ? t('categories.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // A category can't be moved below itself
+  const excluded = new Set(category.id ? getCategoryDescendantIds([category.id], categories) : []);
+  const parentOptions = flattenCategoryTree(categories).filter(
+    ({ category }) => !excluded.has(category.id)
+  );
+
+  const input: CategoryInput = {
+    name: name.trim(),
+    description: description.trim() || null,
+    parent_id: parentId === 'none' ? null : parentId,
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{category.id ? t('categories.edit') : t('categories.add')}</DialogTitle>
+          <DialogDescription>{t('categories.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="category-name">{t('categories.fields.name')}</Label>
+            <Input
+              id="category-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-parent">{t('categories.fields.parent')}</Label>
+            <Select value={parentId} onValueChange={setParentId}>
+              <SelectTrigger id="category-parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t('categories.topLevel')}</SelectItem>
+                {parentOptions.map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-description">{t('categories.fields.description')}</Label>
+            <Textarea
+              id="category-description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => save(input)} disabled={isPending || !input.name}>
+            {isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useTranslations } from 'next-intl';
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -29,14 +29,15 @@ import { Label } from '@/components/ui/label';
 import RenderChart from '@/components/ui/charts/RenderChart';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MetricTreeSelector } from '@/components/ui/metric-tree-selector';
-import {
-  DropdownMenu,
-  DropdownMenuTrigger,
-  DropdownMenuContent,
-  DropdownMenuCheckboxItem,
-} from '@/components/ui/dropdown-menu';
-import { YearRangeSlider } from '@/components/ui/year-range-slider';
+import { RegionTreeSelector } from '@/components/ui/region-tree-selector';
+import { PeriodRangeSlider } from '@/components/ui/period-range-slider';
+import { useMetricsFrequency } from '@/hooks/use-metrics-frequency';
+import { convertPeriodRange, getPeriodRangeDates, PeriodRange } from '@/lib/periods';
+import { ClassBreakMethod } from '@/lib/geometry';
+import { SeriesAggregation } from '@/lib/series';
 import RenderTable from '@/components/ui/tables/RenderTable';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission } from '@/lib/permissions';
 
 // Temporary implementations for missing components (remove once you've created the actual components)
 const Textarea = (props: React.TextareaHTMLAttributes<HTMLTextAreaElement>) => (
@@ -71,20 +72,28 @@ export default function ConfiguratorPage() {
   const t = useTranslations();
   const { toast } = useToast();
   const router = useRouter();
+  const { data: currentUser } = useCurrentUser();
+  const canEditCharts = hasPermission(currentUser?.role, 'editCharts');
 
   // State for metric selection
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
 
   // State for chart configuration
-  const [chartType, setChartType] = useState<'line' | 'bar' | 'pie' | 'area'>('line');
-  const [yearRange, setYearRange] = useState<[number, number]>([1980, new Date().getFullYear()]);
-  const [dataAggregation, setDataAggregation] = useState<'sum' | 'avg'>('sum');
+  const [chartType, setChartType] = useState<'line' | 'bar' | 'pie' | 'area' | 'map'>('line');
+  const [periodRange, setPeriodRange] = useState<PeriodRange>([
+    '1980',
+    new Date().getFullYear().toString(),
+  ]);
+  const [dataAggregation, setDataAggregation] = useState<SeriesAggregation>('sum');
+
+  // The period range follows the finest frequency of the selected metrics
+  const frequency = useMetricsFrequency(selectedMetrics);
+  useEffect(() => {
+    setPeriodRange(range => convertPeriodRange(range, frequency));
+  }, [frequency]);
 
   // For backwards compatibility with components expecting date objects
-  const dateRange = {
-    from: new Date(yearRange[0], 0, 1), // January 1st of start year
-    to: new Date(yearRange[1], 11, 31), // December 31st of end year
-  };
+  const dateRange = useMemo(() => getPeriodRangeDates(periodRange), [periodRange]);
 
   // Chart specific configuration
   const [showLegend, setShowLegend] = useState(true);
@@ -94,6 +103,8 @@ export default function ConfiguratorPage() {
   const [curveType, setCurveType] = useState<'linear' | 'monotone' | 'step'>('monotone');
   const [innerRadius, setInnerRadius] = useState<number>(0);
   const [outerRadius, setOuterRadius] = useState<number>(80);
+  const [mapClassCount, setMapClassCount] = useState(5);
+  const [mapClassMethod, setMapClassMethod] = useState<ClassBreakMethod>('quantile');
   const [hideDots, setHideDots] = useState(false);
   const [separateRegions, setSeparateRegions] = useState(false);
 
@@ -165,10 +176,12 @@ export default function ConfiguratorPage() {
             description: chartDescription,
             type: chartType,
             dateRange: {
-              from: new Date(yearRange[0], 0, 1).toISOString(), // January 1st of start year
-              to: new Date(yearRange[1], 11, 31).toISOString(), // December 31st of end year
+              from: dateRange.from.toISOString(), // First day of the start period
+              to: dateRange.to.toISOString(), // Last day of the end period
             },
-            yearRange: yearRange,
+            periodRange,
+            // Kept for charts read by older versions
+            yearRange: [dateRange.from.getUTCFullYear(), dateRange.to.getUTCFullYear()],
             metrics: selectedMetrics,
             regions: selectedRegions,
             dataAggregation: dataAggregation,
@@ -177,6 +190,8 @@ export default function ConfiguratorPage() {
             curveType: chartType === 'line' ? curveType : undefined,
             innerRadius: chartType === 'pie' ? innerRadius : undefined,
             outerRadius: chartType === 'pie' ? outerRadius : undefined,
+            mapClassCount: chartType === 'map' ? mapClassCount : undefined,
+            mapClassMethod: chartType === 'map' ? mapClassMethod : undefined,
             hideDots: chartType === 'line' ? hideDots : undefined,
             separateRegions,
             tableView:
@@ -252,132 +267,23 @@ export default function ConfiguratorPage() {
 
               {/* Date Range Selection */}
               <div className="space-y-2">
-                <Label>{t('metrics.configurator.yearRange')}</Label>
+                <Label>{t('metrics.configurator.periodRange')}</Label>
                 <div className="w-full px-1 py-2">
-                  <YearRangeSlider
+                  <PeriodRangeSlider
+                    frequency={frequency}
                     minYear={1980}
                     maxYear={new Date().getFullYear()}
-                    value={yearRange}
-                    onChange={setYearRange}
+                    value={periodRange}
+                    onChange={setPeriodRange}
                   />
                 </div>
               </div>
 
               {/* Region Multi-Select */}
-              <div className="space-y-2">
-                <Label>{t('metrics.configurator.regions')}</Label>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="outline" className="w-full justify-between">
-                      {selectedRegions.length === 0
-                        ? t('metrics.configurator.selectRegions')
-                        : selectedRegions.length === regions.length
-                          ? t('metrics.configurator.allRegions')
-                          : `${selectedRegions.length} ${t('metrics.configurator.regionSelected', { count: selectedRegions.length })}`}
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent className="max-h-72 w-64 overflow-y-auto">
-                    {loadingRegions ? (
-                      <div className="p-2 text-sm text-muted-foreground">
-                        {t('metrics.configurator.loading')}
-                      </div>
-                    ) : regions.length === 0 ? (
-                      <div className="p-2 text-sm text-muted-foreground">
-                        {t('metrics.configurator.noRegions')}
-                      </div>
-                    ) : (
-                      <>
-                        <DropdownMenuCheckboxItem
-                          key="all-regions"
-                          checked={selectedRegions.length === regions.length}
-                          onCheckedChange={checked => {
-                            if (checked) {
-                              setSelectedRegions(regions.map(r => r.id));
-                            } else {
-                              setSelectedRegions([]);
-                            }
-                          }}
-                        >
-                          {t('metrics.configurator.allRegions')}
-                        </DropdownMenuCheckboxItem>
-                        <div className="my-1 border-b" />
-                        {regions.map(region => (
-                          <DropdownMenuCheckboxItem
-                            key={region.id}
-                            checked={selectedRegions.includes(region.id)}
-                            onCheckedChange={checked => {
-                              setSelectedRegions(prev => {
-                                let next;
-                                if (checked) {
-                                  next = [...prev, region.id];
-                                } else {
-                                  next = prev.filter(id => id !== region.id);
-                                }
-                                // Si tout est sélectionné individuellement, activer "Toutes les régions"
-                                if (next.length === regions.length) {
-                                  return regions.map(r => r.id);
-                                }
-                                return next;
-                              });
-                            }}
-                          >
-                            {region.name}
-                          </DropdownMenuCheckboxItem>
-                        ))}
-                      </>
-                    )}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-                {selectedRegions.length > 0 && (
-                  <div className="mt-2 flex flex-wrap gap-1">
-                    {selectedRegions.length === regions.length ? (
-                      <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs font-medium">
-                        {t('metrics.configurator.allRegions')}
-                        <button
-                          className="ml-1 rounded-full p-0.5 hover:bg-primary/20"
-                          onClick={() => setSelectedRegions([])}
-                        >
-                          <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            viewBox="0 0 20 20"
-                            fill="currentColor"
-                            className="h-3 w-3"
-                          >
-                            <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
-                          </svg>
-                        </button>
-                      </span>
-                    ) : (
-                      selectedRegions.map(regionId => {
-                        const region = regions.find(r => r.id === regionId);
-                        return (
-                          <span
-                            key={regionId}
-                            className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs font-medium"
-                          >
-                            {region?.name || regionId}
-                            <button
-                              className="ml-1 rounded-full p-0.5 hover:bg-primary/20"
-                              onClick={() =>
-                                setSelectedRegions(prev => prev.filter(id => id !== regionId))
-                              }
-                            >
-                              <svg
-                                xmlns="http://www.w3.org/2000/svg"
-                                viewBox="0 0 20 20"
-                                fill="currentColor"
-                                className="h-3 w-3"
-                              >
-                                <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
-                              </svg>
-                            </button>
-                          </span>
-                        );
-                      })
-                    )}
-                  </div>
-                )}
-              </div>
+              <RegionTreeSelector
+                selectedRegions={selectedRegions}
+                onSelectRegions={setSelectedRegions}
+              />
             </TabsContent>
 
             <TabsContent value="options" className="space-y-4 pt-4">
@@ -387,7 +293,9 @@ export default function ConfiguratorPage() {
                   <Label htmlFor="chartType">{t('metrics.configurator.chartType')}</Label>
                   <Select
                     value={chartType}
-                    onValueChange={(value: 'line' | 'area' | 'bar' | 'pie') => setChartType(value)}
+                    onValueChange={(value: 'line' | 'area' | 'bar' | 'pie' | 'map') =>
+                      setChartType(value)
+                    }
                   >
                     <SelectTrigger id="chartType">
                       <SelectValue placeholder={t('metrics.configurator.selectChartType')} />
@@ -405,6 +313,9 @@ export default function ConfiguratorPage() {
                       <SelectItem value="pie">
                         {t('metrics.configurator.chartTypes.pie')}
                       </SelectItem>
+                      <SelectItem value="map">
+                        {t('metrics.configurator.chartTypes.map')}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -434,7 +345,7 @@ export default function ConfiguratorPage() {
                   </Label>
                   <Select
                     value={dataAggregation}
-                    onValueChange={(value: 'sum' | 'avg') => setDataAggregation(value)}
+                    onValueChange={(value: SeriesAggregation) => setDataAggregation(value)}
                   >
                     <SelectTrigger id="data-aggregation">
                       <SelectValue placeholder={t('metrics.configurator.selectAggregation')} />
@@ -446,6 +357,15 @@ export default function ConfiguratorPage() {
                       <SelectItem value="avg">
                         {t('metrics.configurator.aggregationTypes.average')}
                       </SelectItem>
+                      <SelectItem value="weighted_avg">
+                        {t('metrics.configurator.aggregationTypes.weightedAverage')}
+                      </SelectItem>
+                      <SelectItem value="min">
+                        {t('metrics.configurator.aggregationTypes.min')}
+                      </SelectItem>
+                      <SelectItem value="max">
+                        {t('metrics.configurator.aggregationTypes.max')}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -537,6 +457,53 @@ export default function ConfiguratorPage() {
                   </>
                 )}
 
+                {/* Map specific options */}
+                {chartType === 'map' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="mapClassCount">
+                        {t('metrics.configurator.mapClassCount')}
+                      </Label>
+                      <Select
+                        value={mapClassCount.toString()}
+                        onValueChange={value => setMapClassCount(Number(value))}
+                      >
+                        <SelectTrigger id="mapClassCount">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[3, 4, 5, 6, 7].map(count => (
+                            <SelectItem key={count} value={count.toString()}>
+                              {count}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="mapClassMethod">
+                        {t('metrics.configurator.mapClassMethod')}
+                      </Label>
+                      <Select
+                        value={mapClassMethod}
+                        onValueChange={(value: ClassBreakMethod) => setMapClassMethod(value)}
+                      >
+                        <SelectTrigger id="mapClassMethod">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="quantile">
+                            {t('metrics.configurator.mapClassMethods.quantile')}
+                          </SelectItem>
+                          <SelectItem value="equalInterval">
+                            {t('metrics.configurator.mapClassMethods.equalInterval')}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
                 {/* Chart Preview */}
                 <div className="mt-8">
                   <h3 className="mb-2 text-lg font-medium">
@@ -559,6 +526,8 @@ export default function ConfiguratorPage() {
                         curveType={curveType}
                         innerRadius={innerRadius}
                         outerRadius={outerRadius}
+                        mapClassCount={mapClassCount}
+                        mapClassMethod={mapClassMethod}
                         regionIds={selectedRegions}
                         hideDots={chartType === 'line' ? hideDots : undefined}
                         aggregation={dataAggregation}
@@ -731,57 +700,59 @@ export default function ConfiguratorPage() {
       </Card>
 
       {/* Save to Library Dialog */}
-      <div className="flex justify-end pt-4">
-        <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
-          <DialogTrigger asChild>
-            <Button disabled={selectedMetrics.length === 0}>
-              <Save className="mr-2 h-4 w-4" />
-              {t('metrics.configurator.saveToLibrary')}
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>{t('metrics.configurator.saveChartToLibrary')}</DialogTitle>
-              <DialogDescription>
-                {t('metrics.configurator.saveChartDescription')}
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="chart-name">{t('metrics.configurator.chartName')}</Label>
-                <Input
-                  id="chart-name"
-                  value={chartName}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setChartName(e.target.value)
-                  }
-                  placeholder={t('metrics.configurator.enterChartName')}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="chart-description">{t('metrics.configurator.description')}</Label>
-                <Textarea
-                  id="chart-description"
-                  value={chartDescription}
-                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                    setChartDescription(e.target.value)
-                  }
-                  placeholder={t('metrics.configurator.enterChartDescription')}
-                  rows={3}
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
-                {t('metrics.configurator.cancel')}
+      {canEditCharts && (
+        <div className="flex justify-end pt-4">
+          <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={selectedMetrics.length === 0}>
+                <Save className="mr-2 h-4 w-4" />
+                {t('metrics.configurator.saveToLibrary')}
               </Button>
-              <Button onClick={handleSaveChart} disabled={!chartName}>
-                {t('metrics.configurator.saveChart')}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-      </div>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('metrics.configurator.saveChartToLibrary')}</DialogTitle>
+                <DialogDescription>
+                  {t('metrics.configurator.saveChartDescription')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="chart-name">{t('metrics.configurator.chartName')}</Label>
+                  <Input
+                    id="chart-name"
+                    value={chartName}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setChartName(e.target.value)
+                    }
+                    placeholder={t('metrics.configurator.enterChartName')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chart-description">{t('metrics.configurator.description')}</Label>
+                  <Textarea
+                    id="chart-description"
+                    value={chartDescription}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setChartDescription(e.target.value)
+                    }
+                    placeholder={t('metrics.configurator.enterChartDescription')}
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+                  {t('metrics.configurator.cancel')}
+                </Button>
+                <Button onClick={handleSaveChart} disabled={!chartName}>
+                  {t('metrics.configurator.saveChart')}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      )}
     </section>
   );
 }
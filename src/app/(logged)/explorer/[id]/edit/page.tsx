@@ -4,47 +4,62 @@ import { useTranslations } from 'next-intl';
 import { useParams, useRouter } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
-import { Tables, Json } from '@/types/database';
+import { Tables } from '@/types/database';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
+import { metricsWithStatsQueryKey } from '@/hooks/use-metrics-with-stats';
+import { fetchMetricTagIds, setMetricTags, tagsQueryKey } from '@/lib/tags';
+import { fetchSources, sourcesQueryKey } from '@/lib/sources';
+import { categoriesQueryKey } from '@/lib/categories';
+import { TagPicker } from '@/components/tag-picker';
+import { CategoryPicker } from '@/components/category-picker';
 import {
   Form,
   FormControl,
   FormField,
+  FormDescription,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
-
-// Define type for metadata to ensure type safety
-interface MetricMetadata {
-  domain?: string | null;
-  category?: string | null;
-  subcategory?: string | null;
-  source_id?: string | null;
-  [key: string]: Json | undefined;
-}
+import { RequirePermission } from '@/components/require-permission';
 
 // Form schema
 const metricFormSchema = z.object({
   name: z.string().min(1, { message: 'Name is required' }),
   description: z.string().optional(),
   unit: z.string().optional(),
-  domain: z.string().optional(),
-  category: z.string().optional(),
-  subcategory: z.string().optional(),
+  sourceId: z.string(),
+  categoryId: z.string().nullable(),
+  rollup: z.enum(['sum', 'avg', 'weighted_avg']),
+  tagIds: z.array(z.string()),
 });
 
 type MetricFormValues = z.infer<typeof metricFormSchema>;
 
 export default function EditMetricPage() {
+  return (
+    <RequirePermission permission="editMetrics">
+      <EditMetricForm />
+    </RequirePermission>
+  );
+}
+
+function EditMetricForm() {
   const t = useTranslations();
   const params = useParams();
   const router = useRouter();
@@ -66,14 +81,15 @@ export default function EditMetricPage() {
     },
   });
 
-  // Extract metadata fields with type safety
-  const getMetadataField = (field: string): string => {
-    if (!metric?.metadata) return '';
+  const { data: tagIds, isLoading: isLoadingTags } = useQuery({
+    queryKey: [...tagsQueryKey, 'metric', metricId],
+    queryFn: () => fetchMetricTagIds(metricId),
+  });
 
-    // Parse metadata as our custom type
-    const metadata = metric.metadata as MetricMetadata;
-    return (metadata[field] as string) || '';
-  };
+  const { data: sources } = useQuery({
+    queryKey: sourcesQueryKey,
+    queryFn: fetchSources,
+  });
 
   // Set up form with default values from metric data
   const form = useForm<MetricFormValues>({
@@ -82,50 +98,48 @@ export default function EditMetricPage() {
       name: '',
       description: '',
       unit: '',
-      domain: '',
-      category: '',
-      subcategory: '',
+      sourceId: 'none',
+      categoryId: null,
+      rollup: 'sum',
+      tagIds: [],
     },
     values: {
       name: metric?.name || '',
       description: metric?.description || '',
       unit: metric?.unit || '',
-      domain: getMetadataField('domain'),
-      category: getMetadataField('category'),
-      subcategory: getMetadataField('subcategory'),
+      sourceId: metric?.source_id || 'none',
+      categoryId: metric?.category_id ?? null,
+      rollup: metric?.rollup || 'sum',
+      tagIds: tagIds ?? [],
     },
   });
 
   // Update metric mutation
   const updateMetricMutation = useMutation({
     mutationFn: async (values: MetricFormValues) => {
-      // Get existing metadata or create new object
-      const existingMetadata = metric?.metadata ? (metric.metadata as MetricMetadata) : {};
-
-      // Create updated metadata
-      const metadata: MetricMetadata = {
-        ...existingMetadata,
-        domain: values.domain || null,
-        category: values.category || null,
-        subcategory: values.subcategory || null,
-      };
-
       const { error } = await supabaseClient
         .from('metrics')
         .update({
           name: values.name,
           description: values.description,
           unit: values.unit,
-          metadata,
+          source_id: values.sourceId === 'none' ? null : values.sourceId,
+          category_id: values.categoryId,
+          rollup: values.rollup,
         })
         .eq('id', metricId);
 
       if (error) throw error;
+
+      await setMetricTags(metricId, values.tagIds);
     },
     onSuccess: () => {
       toast.success(t('metrics.edit.success'));
       queryClient.invalidateQueries({ queryKey: ['metric', metricId] });
-      queryClient.invalidateQueries({ queryKey: ['metrics-with-stats-tree'] });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+      queryClient.invalidateQueries({ queryKey: sourcesQueryKey });
+      queryClient.invalidateQueries({ queryKey: categoriesQueryKey });
       router.push(`/explorer/${metricId}`);
     },
     onError: error => {
@@ -144,7 +158,7 @@ export default function EditMetricPage() {
     router.push(`/explorer/${metricId}`);
   };
 
-  if (isLoading) {
+  if (isLoading || isLoadingTags) {
     return (
       <div className="space-y-4">
         <Skeleton className="h-8 w-64" />
@@ -220,13 +234,25 @@ export default function EditMetricPage() {
 
               <FormField
                 control={form.control}
-                name="domain"
+                name="sourceId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>{t('metrics.edit.domain')}</FormLabel>
-                    <FormControl>
-                      <Input {...field} />
-                    </FormControl>
+                    <FormLabel>{t('metrics.edit.source')}</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">{t('metrics.explorer.noSource')}</SelectItem>
+                        {sources?.map(source => (
+                          <SelectItem key={source.id} value={source.id}>
+                            {source.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -234,13 +260,14 @@ export default function EditMetricPage() {
 
               <FormField
                 control={form.control}
-                name="category"
+                name="categoryId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>{t('metrics.edit.category')}</FormLabel>
                     <FormControl>
-                      <Input {...field} />
+                      <CategoryPicker value={field.value} onChange={field.onChange} />
                     </FormControl>
+                    <FormDescription>{t('metrics.edit.categoryDescription')}</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -248,13 +275,40 @@ export default function EditMetricPage() {
 
               <FormField
                 control={form.control}
-                name="subcategory"
+                name="tagIds"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>{t('metrics.edit.subcategory')}</FormLabel>
+                    <FormLabel>{t('metrics.edit.tags')}</FormLabel>
                     <FormControl>
-                      <Input {...field} />
+                      <TagPicker value={field.value} onChange={field.onChange} />
                     </FormControl>
+                    <FormDescription>{t('metrics.edit.tagsDescription')}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="rollup"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('metrics.rollup.label')}</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="sum">{t('metrics.rollup.sum')}</SelectItem>
+                        <SelectItem value="avg">{t('metrics.rollup.avg')}</SelectItem>
+                        <SelectItem value="weighted_avg">
+                          {t('metrics.rollup.weighted_avg')}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{t('metrics.rollup.description')}</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
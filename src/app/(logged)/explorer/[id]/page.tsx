@@ -2,7 +2,7 @@
 
 import { useTranslations } from 'next-intl';
 import { useParams, useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuery } from '@tanstack/react-query';
@@ -16,7 +16,10 @@ import {
   ChevronDown,
   ChevronUp,
   FilterIcon,
+  History,
   PencilIcon,
+  Send,
+  StickyNote,
 } from 'lucide-react';
 import {
   ColumnDef,
@@ -47,7 +50,17 @@ import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useLocale } from 'next-intl';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { YearRangeSlider } from '@/components/ui/year-range-slider';
+import { PeriodRangeSlider } from '@/components/ui/period-range-slider';
+import {
+  convertPeriodRange,
+  formatPeriod,
+  FREQUENCIES,
+  getPeriodRangeDates,
+  getPeriodStart,
+  isValidPeriod,
+  MetricFrequency,
+  PeriodRange,
+} from '@/lib/periods';
 import { Label } from '@/components/ui/label';
 import {
   Dialog,
@@ -58,15 +71,23 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission } from '@/lib/permissions';
+import { publicationReviewsQueryKey, submitPublicationReview } from '@/lib/reviews';
+import { metricDataRevisionsQueryKey, updateMetricData } from '@/lib/revisions';
+import { MetricDataHistory } from '@/components/metric-data-history';
+import { EMPTY_NOTE, MetricNotes, type NoteDraft } from '@/components/metric-notes';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 
 // Data point type with additional typing for JSON metadata
 type DataPoint = Tables<'metric_data'> & {
+  publisher?: Pick<Tables<'profiles'>, 'email' | 'full_name'> | null;
   formatted_metadata?: string;
   formatted_date?: string;
   region_name?: string;
-  year?: string;
+  period?: string;
 };
 
 export default function MetricDetailPage() {
@@ -82,11 +103,26 @@ export default function MetricDetailPage() {
   const [pagination, setPagination] = useState({ pageIndex: 0, pageSize });
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [editingData, setEditingData] = useState<DataPoint | null>(null);
+  const [editReason, setEditReason] = useState('');
+  const [historyDataPoint, setHistoryDataPoint] = useState<DataPoint | null>(null);
+  const [editingNote, setEditingNote] = useState<NoteDraft | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canEditMetrics = hasPermission(currentUser?.role, 'editMetrics');
+  const canPublish = hasPermission(currentUser?.role, 'publish');
+  const canEditDrafts = hasPermission(currentUser?.role, 'editDrafts');
+  const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
+  const [reviewComment, setReviewComment] = useState('');
+  // Editors only change drafts, published and private data are left to admins
+  const canEditDataPoint = (dataPoint: DataPoint) =>
+    canPublish || (canEditDrafts && dataPoint.status === 'draft');
 
   // Filter states
   const currentYear = new Date().getUTCFullYear();
   const minYear = 1980;
-  const [yearRange, setYearRange] = useState<[number, number]>([minYear, currentYear]);
+  const [periodRange, setPeriodRange] = useState<PeriodRange>([
+    minYear.toString(),
+    currentYear.toString(),
+  ]);
   const [selectedRegion, setSelectedRegion] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
 
@@ -99,39 +135,25 @@ export default function MetricDetailPage() {
     queryFn: async () => {
       const { data, error } = await supabaseClient
         .from('metrics')
-        .select('*')
+        .select('*, source:sources(*)')
         .eq('id', metricId)
         .single();
 
       if (error) throw error;
-
-      // Fetch source information if available in metadata
-      let source = null;
-      if (
-        data.metadata &&
-        typeof data.metadata === 'object' &&
-        data.metadata !== null &&
-        'source_id' in data.metadata
-      ) {
-        const sourceId = (data.metadata as { source_id: string }).source_id;
-
-        if (sourceId) {
-          const { data: sourceData, error: sourceError } = await supabaseClient
-            .from('sources')
-            .select('*')
-            .eq('id', sourceId)
-            .maybeSingle();
-
-          if (!sourceError) {
-            source = sourceData;
-          }
-        }
-      }
-
-      return { ...data, source };
+      return data;
     },
   });
 
+  // Periods are labelled and filtered at the frequency of the metric
+  const frequency: MetricFrequency = metric?.frequency ?? 'annual';
+  const defaultPeriodRange = useMemo(
+    () => convertPeriodRange([minYear.toString(), currentYear.toString()], frequency),
+    [currentYear, frequency]
+  );
+  useEffect(() => {
+    setPeriodRange(range => convertPeriodRange(range, frequency));
+  }, [frequency]);
+
   // Fetch regions to use for data point lookup
   const { data: regions } = useQuery({
     queryKey: ['regions'],
@@ -156,7 +178,8 @@ export default function MetricDetailPage() {
       'metric-data',
       metricId,
       sorting,
-      yearRange,
+      periodRange,
+      frequency,
       selectedRegion,
       selectedStatus,
       pageSize,
@@ -169,13 +192,13 @@ export default function MetricDetailPage() {
       // Start building the query
       let query = supabaseClient
         .from('metric_data')
-        .select('*', { count: 'exact' })
+        .select('*, publisher:profiles!metric_data_published_by_fkey(email, full_name)', {
+          count: 'exact',
+        })
         .eq('metric_id', metricId);
 
-      // Apply year range filter
-      const [fromYear, toYear] = yearRange;
-      const fromDate = new Date(Date.UTC(fromYear, 0, 1));
-      const toDate = new Date(Date.UTC(toYear, 11, 31, 23, 59, 59, 999));
+      // Apply period range filter
+      const { from: fromDate, to: toDate } = getPeriodRangeDates(periodRange);
       query = query.gte('date', fromDate.toISOString().split('T')[0]);
       query = query.lte('date', toDate.toISOString().split('T')[0]);
 
@@ -189,9 +212,9 @@ export default function MetricDetailPage() {
         query = query.eq('status', selectedStatus as Tables<'metric_data'>['status']);
       }
 
-      // Apply sorting - map year to date for server-side sorting
+      // Apply sorting - map period to date for server-side sorting
       if (activeSorting) {
-        const sortField = activeSorting.id === 'year' ? 'date' : activeSorting.id;
+        const sortField = activeSorting.id === 'period' ? 'date' : activeSorting.id;
         // On vérifie que le champ existe bien dans la table
         if (['date', 'value', 'created_at', 'updated_at'].includes(sortField)) {
           query = query.order(sortField, {
@@ -213,16 +236,15 @@ export default function MetricDetailPage() {
         // Get region name from the lookup map
         const region = point.region_id && regions ? regions.get(point.region_id) : null;
 
-        // Extract just the year from the date
+        // Label the date with the period of the metric frequency
         const date = new Date(point.date);
-        const year = date.getUTCFullYear().toString();
 
         return {
           ...point,
           formatted_metadata: point.metadata ? JSON.stringify(point.metadata) : '',
           formatted_date: formatDatetime(date),
           region_name: region ? region.name : '',
-          year: year,
+          period: formatPeriod(date, frequency),
         };
       }) as DataPoint[];
 
@@ -248,7 +270,7 @@ export default function MetricDetailPage() {
 
   // Reset filters
   const resetFilters = () => {
-    setYearRange([minYear, currentYear]);
+    setPeriodRange(defaultPeriodRange);
     setSelectedRegion('all');
     setSelectedStatus('all');
   };
@@ -261,28 +283,11 @@ export default function MetricDetailPage() {
       region_id: string;
       date: string;
       status: Tables<'metric_data'>['status'];
-    }) => {
-      const { id, value, region_id, date, status } = data;
-
-      const { data: result, error } = await supabaseClient
-        .from('metric_data')
-        .update({
-          value,
-          region_id,
-          date,
-          status,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return result;
-    },
+    }) => updateMetricData(data, editReason),
     onSuccess: () => {
       // Invalidate and refetch the data points query to update the table
       queryClient.invalidateQueries({ queryKey: ['metric-data', metricId] });
+      queryClient.invalidateQueries({ queryKey: metricDataRevisionsQueryKey });
       toast({
         title: t('metrics.detail.updateSuccess'),
         description: t('metrics.detail.dataPointUpdated'),
@@ -298,28 +303,21 @@ export default function MetricDetailPage() {
     },
   });
 
-  // Mutation for publishing all draft metrics
-  const publishAllDraftMetricsMutation = useMutation({
-    mutationFn: async () => {
-      const { data: result, error } = await supabaseClient
-        .from('metric_data')
-        .update({
-          status: 'public',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('metric_id', metricId)
-        .eq('status', 'draft')
-        .select();
+  // Mutation for changing the frequency of the metric
+  const updateFrequencyMutation = useMutation({
+    mutationFn: async (newFrequency: MetricFrequency) => {
+      const { error } = await supabaseClient
+        .from('metrics')
+        .update({ frequency: newFrequency, updated_at: new Date().toISOString() })
+        .eq('id', metricId);
 
       if (error) throw error;
-      return result;
     },
-    onSuccess: data => {
-      // Invalidate and refetch the data points query to update the table
-      queryClient.invalidateQueries({ queryKey: ['metric-data', metricId] });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['metric', metricId] });
       toast({
         title: t('metrics.detail.updateSuccess'),
-        description: t('metrics.detail.publishedDataPoints', { count: data.length }),
+        description: t('metrics.frequency.updated'),
       });
     },
     onError: error => {
@@ -331,9 +329,32 @@ export default function MetricDetailPage() {
     },
   });
 
+  // Drafts are published once a reviewer approves them
+  const submitForReviewMutation = useMutation({
+    mutationFn: () => submitPublicationReview(metricId, reviewComment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: publicationReviewsQueryKey });
+      setReviewDialogOpen(false);
+      setReviewComment('');
+      toast({
+        title: t('reviews.submitted'),
+        description: t('reviews.submittedDescription'),
+      });
+    },
+    onError: error => {
+      toast({
+        title: t('reviews.submitError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Handle opening the edit modal
   const handleEditClick = (dataPoint: DataPoint) => {
+    if (!canEditDataPoint(dataPoint)) return;
     setEditingData(dataPoint);
+    setEditReason('');
     setEditModalOpen(true);
   };
 
@@ -341,17 +362,20 @@ export default function MetricDetailPage() {
   const handleSaveEdit = () => {
     if (!editingData) return;
 
-    // Convert year to ISO date format
+    // Convert the period to the ISO date of its first day
     let date = editingData.date;
-    if (editingData.year) {
-      // Keep the original month and day, just update the year
-      const originalDate = new Date(date);
-      const newDate = new Date(
-        parseInt(editingData.year, 10),
-        originalDate.getUTCMonth(),
-        originalDate.getUTCDate()
-      );
-      date = newDate.toISOString().split('T')[0];
+    if (editingData.period) {
+      if (!isValidPeriod(editingData.period)) {
+        toast({
+          title: t('metrics.detail.updateError'),
+          description: t('metrics.detail.invalidPeriod', {
+            example: formatPeriod(new Date(), frequency),
+          }),
+          variant: 'destructive',
+        });
+        return;
+      }
+      date = getPeriodStart(editingData.period).toISOString().split('T')[0];
     }
 
     updateDataMutation.mutate({
@@ -367,7 +391,7 @@ export default function MetricDetailPage() {
   // Table columns definition
   const columns: ColumnDef<DataPoint>[] = [
     {
-      accessorKey: 'year',
+      accessorKey: 'period',
       header: ({ column }) => {
         const isSorted = column.getIsSorted();
         return (
@@ -376,7 +400,7 @@ export default function MetricDetailPage() {
             className="-ml-4"
             onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
           >
-            {t('common.year')}
+            {t('common.period')}
             {isSorted === 'asc' && <ChevronUp className="ml-2 h-4 w-4" />}
             {isSorted === 'desc' && <ChevronDown className="ml-2 h-4 w-4" />}
             {!isSorted && <ArrowUpDown className="ml-2 h-4 w-4" />}
@@ -388,7 +412,7 @@ export default function MetricDetailPage() {
           className="cursor-pointer hover:underline"
           onClick={() => handleEditClick(row.original)}
         >
-          {row.original.year}
+          {row.original.period}
         </div>
       ),
     },
@@ -418,6 +442,14 @@ export default function MetricDetailPage() {
         return (
           <div className="cursor-pointer" onClick={() => handleEditClick(row.original)}>
             <Badge variant={badgeVariant as any}>{t(`common.${status}`)}</Badge>
+            {row.original.published_at && (
+              <div className="mt-1 text-xs text-muted-foreground">
+                {t('metrics.detail.publishedBy', {
+                  name: row.original.publisher?.full_name || row.original.publisher?.email || '—',
+                  date: formatDatetime(new Date(row.original.published_at)),
+                })}
+              </div>
+            )}
           </div>
         );
       },
@@ -442,7 +474,11 @@ export default function MetricDetailPage() {
       },
       cell: ({ row }) => (
         <div
-          className="cursor-pointer font-medium hover:underline"
+          className={
+            canEditDataPoint(row.original)
+              ? 'cursor-pointer font-medium hover:underline'
+              : 'font-medium'
+          }
           onClick={() => handleEditClick(row.original)}
         >
           {row.original.value}
@@ -453,10 +489,36 @@ export default function MetricDetailPage() {
     {
       id: 'actions',
       cell: ({ row }) => (
-        <Button size="icon" variant="ghost" onClick={() => handleEditClick(row.original)}>
-          <PencilIcon className="h-4 w-4" />
-          <span className="sr-only">{t('common.edit')}</span>
-        </Button>
+        <div className="flex justify-end">
+          {canEditDrafts && (
+            <Button size="icon" variant="ghost" onClick={() => setHistoryDataPoint(row.original)}>
+              <History className="h-4 w-4" />
+              <span className="sr-only">{t('metrics.history.title')}</span>
+            </Button>
+          )}
+          {canEditDrafts && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() =>
+                setEditingNote({
+                  ...EMPTY_NOTE,
+                  metric_data_id: row.original.id,
+                  data_point: row.original,
+                })
+              }
+            >
+              <StickyNote className="h-4 w-4" />
+              <span className="sr-only">{t('metrics.notes.add')}</span>
+            </Button>
+          )}
+          {canEditDataPoint(row.original) && (
+            <Button size="icon" variant="ghost" onClick={() => handleEditClick(row.original)}>
+              <PencilIcon className="h-4 w-4" />
+              <span className="sr-only">{t('common.edit')}</span>
+            </Button>
+          )}
+        </div>
       ),
     },
   ];
@@ -503,6 +565,25 @@ export default function MetricDetailPage() {
               <div className="flex items-center gap-2">
                 <CardTitle className="text-3xl font-bold tracking-tight">{metric.name}</CardTitle>
                 {metric.unit && <Badge variant="outline">{metric.unit}</Badge>}
+                <Select
+                  value={frequency}
+                  onValueChange={value => updateFrequencyMutation.mutate(value as MetricFrequency)}
+                  disabled={!canEditMetrics || updateFrequencyMutation.isPending}
+                >
+                  <SelectTrigger
+                    className="h-7 w-auto gap-2 text-xs"
+                    aria-label={t('metrics.frequency.label')}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FREQUENCIES.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {t(`metrics.frequency.${option}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               {metric.description && (
                 <CardDescription className="mt-1">{metric.description}</CardDescription>
@@ -547,18 +628,15 @@ export default function MetricDetailPage() {
                             {t('common.draft')}: {statusCounts.draft}
                           </Badge>
                         )}
-                        {statusCounts.draft > 0 && (
+                        {canEditDrafts && statusCounts.draft > 0 && (
                           <Button
                             variant="outline"
                             size="sm"
                             className="ml-2"
-                            onClick={() => publishAllDraftMetricsMutation.mutate()}
-                            disabled={publishAllDraftMetricsMutation.isPending}
+                            onClick={() => setReviewDialogOpen(true)}
                           >
-                            {publishAllDraftMetricsMutation.isPending ? (
-                              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current"></div>
-                            ) : null}
-                            {t('metrics.detail.publishData')}
+                            <Send className="mr-2 h-4 w-4" />
+                            {t('reviews.submitForReview')}
                           </Button>
                         )}
                       </>
@@ -584,8 +662,8 @@ export default function MetricDetailPage() {
                   variant="ghost"
                   onClick={resetFilters}
                   disabled={
-                    yearRange[0] === minYear &&
-                    yearRange[1] === currentYear &&
+                    periodRange[0] === defaultPeriodRange[0] &&
+                    periodRange[1] === defaultPeriodRange[1] &&
                     selectedRegion === 'all' &&
                     selectedStatus === 'all'
                   }
@@ -598,19 +676,21 @@ export default function MetricDetailPage() {
                   <PopoverTrigger asChild>
                     <Button variant="outline" className="w-full md:w-auto">
                       <FilterIcon className="mr-2 h-4 w-4" />
-                      {yearRange[0] === minYear && yearRange[1] === currentYear
-                        ? t('common.allYears') || 'All Years'
-                        : `${yearRange[0]} - ${yearRange[1]}`}
+                      {periodRange[0] === defaultPeriodRange[0] &&
+                      periodRange[1] === defaultPeriodRange[1]
+                        ? t('common.allPeriods')
+                        : `${periodRange[0]} - ${periodRange[1]}`}
                     </Button>
                   </PopoverTrigger>
                   <PopoverContent className="w-80">
                     <div className="space-y-2">
-                      <Label>{t('metrics.configurator.yearRange') || 'Year Range'}</Label>
-                      <YearRangeSlider
+                      <Label>{t('metrics.configurator.periodRange')}</Label>
+                      <PeriodRangeSlider
+                        frequency={frequency}
                         minYear={minYear}
                         maxYear={currentYear}
-                        value={yearRange}
-                        onChange={setYearRange}
+                        value={periodRange}
+                        onChange={setPeriodRange}
                       />
                     </div>
                   </PopoverContent>
@@ -757,6 +837,16 @@ export default function MetricDetailPage() {
         </CardContent>
       </Card>
 
+      {/* Notes drawn on the charts and tables of the metric */}
+      <MetricNotes
+        metricId={metricId}
+        regions={regions}
+        frequency={frequency}
+        canEdit={canEditDrafts}
+        editingNote={editingNote}
+        onEditingNoteChange={setEditingNote}
+      />
+
       {/* Edit Data Point Modal */}
       <Dialog open={editModalOpen} onOpenChange={setEditModalOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -767,15 +857,15 @@ export default function MetricDetailPage() {
           {editingData && (
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="year" className="text-right">
-                  {t('common.year')}
+                <Label htmlFor="period" className="text-right">
+                  {t('common.period')}
                 </Label>
                 <Input
-                  id="year"
-                  type="number"
+                  id="period"
                   className="col-span-3"
-                  value={editingData.year}
-                  onChange={e => setEditingData({ ...editingData, year: e.target.value })}
+                  placeholder={formatPeriod(new Date(), frequency)}
+                  value={editingData.period}
+                  onChange={e => setEditingData({ ...editingData, period: e.target.value })}
                 />
               </div>
               <div className="grid grid-cols-4 items-center gap-4">
@@ -808,6 +898,7 @@ export default function MetricDetailPage() {
                   onValueChange={(value: Tables<'metric_data'>['status']) =>
                     setEditingData({ ...editingData, status: value })
                   }
+                  disabled={!canPublish}
                 >
                   <SelectTrigger id="status" className="col-span-3">
                     <SelectValue placeholder={t('common.selectStatus')} />
@@ -839,6 +930,18 @@ export default function MetricDetailPage() {
                   }
                 />
               </div>
+              <div className="grid grid-cols-4 items-start gap-4">
+                <Label htmlFor="reason" className="pt-2 text-right">
+                  {t('metrics.history.reason')}
+                </Label>
+                <Textarea
+                  id="reason"
+                  className="col-span-3"
+                  placeholder={t('metrics.history.reasonPlaceholder')}
+                  value={editReason}
+                  onChange={e => setEditReason(e.target.value)}
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -855,6 +958,46 @@ export default function MetricDetailPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Revision history of a data point */}
+      <MetricDataHistory
+        dataPoint={historyDataPoint}
+        regions={regions}
+        frequency={frequency}
+        unit={metric?.unit}
+        canRevert={!!historyDataPoint && canEditDataPoint(historyDataPoint)}
+        onOpenChange={open => !open && setHistoryDataPoint(null)}
+      />
+
+      {/* Submit for review Dialog */}
+      <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('reviews.submitForReview')}</DialogTitle>
+            <DialogDescription>{t('reviews.submitDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="review-comment">{t('reviews.submissionComment')}</Label>
+            <Textarea
+              id="review-comment"
+              value={reviewComment}
+              onChange={e => setReviewComment(e.target.value)}
+              placeholder={t('reviews.submissionCommentPlaceholder')}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewDialogOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={() => submitForReviewMutation.mutate()}
+              disabled={submitForReviewMutation.isPending}
+            >
+              {t('reviews.submit')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -7,6 +7,11 @@ import { fr } from 'date-fns/locale';
 import { useLocale } from 'next-intl';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
+import { ImportJob, enqueueImportJob, undoImport } from '@/lib/imports';
+import { ImportReview } from '@/components/import-review';
+import { TagFilter } from '@/components/tag-filter';
+import { hasAllTags, type Tag } from '@/lib/tags';
+import { fetchSources, sourcesQueryKey } from '@/lib/sources';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -20,9 +25,32 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   Upload,
   FileUp,
@@ -35,8 +63,13 @@ import {
   RefreshCw,
   AlertTriangle,
   FileJson,
+  ClipboardCheck,
+  Undo2,
+  FileWarning,
+  RotateCcw,
 } from 'lucide-react';
 import { Tables } from '@/types/database';
+import { RequirePermission } from '@/components/require-permission';
 
 // Define a type for the metadata JSONB column
 export type FileMetadata = {
@@ -48,6 +81,27 @@ export type FileMetadata = {
   row_count?: number;
   column_count?: number;
   json_path?: string;
+  import_path?: 'tabular' | 'llm';
+  rejects?: {
+    rejected_count: number;
+    coerced_count: number;
+    csv_path: string;
+    xlsx_path: string;
+  } | null;
+  // Progress of the LLM extraction, large workbooks are processed in chunks
+  chunks?: {
+    total: number;
+    completed: number;
+    failed: number;
+    items: {
+      index: number;
+      sheet: string;
+      start_row: number;
+      end_row: number;
+      status: 'pending' | 'processing' | 'completed' | 'error';
+      error: string | null;
+    }[];
+  } | null;
   [key: string]: unknown;
 };
 
@@ -60,17 +114,37 @@ function isFileMetadata(meta: unknown): meta is FileMetadata {
 type FileWithDetails = Tables<'files'> & {
   category: Tables<'categories'> | null;
   source: Tables<'sources'> | null;
-  tags: { name: string }[];
+  tags: Tag[];
   metadata?: FileMetadata; // override for local use
+  job: ImportJob | null; // latest processing job
+  // Whether data of the file has been committed, even partly, and can be undone
+  committed: boolean;
 };
 
 export default function ImportPage() {
+  return (
+    <RequirePermission permission="import">
+      <ImportManager />
+    </RequirePermission>
+  );
+}
+
+function ImportManager() {
   const t = useTranslations();
   const locale = useLocale();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Source of the uploaded file, given to the metrics it creates
+  const [sourceId, setSourceId] = useState('none');
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [selectedFileData, setSelectedFileData] = useState<any[] | null>(null);
   const [viewingFile, setViewingFile] = useState<FileWithDetails | null>(null);
+  const [reviewingFile, setReviewingFile] = useState<FileWithDetails | null>(null);
+  const [activeTab, setActiveTab] = useState<string>('upload');
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [undoingFile, setUndoingFile] = useState<FileWithDetails | null>(null);
+  const [undoWarning, setUndoWarning] = useState<{ edited: number; published: number } | null>(
+    null
+  );
 
   // Fetch upload history
   const {
@@ -88,11 +162,15 @@ export default function ImportPage() {
           category:category_id (name),
           source:source_id (name),
           tags:file_tags(
-            tag:tag_id (name)
-          )
+            tag:tag_id (id, name)
+          ),
+          jobs:import_jobs(*),
+          pending_import:pending_imports(status)
         `
         )
-        .order('uploaded_at', { ascending: false });
+        .order('uploaded_at', { ascending: false })
+        .order('created_at', { referencedTable: 'import_jobs', ascending: false })
+        .limit(1, { referencedTable: 'import_jobs' });
 
       if (error) throw error;
 
@@ -116,8 +194,13 @@ export default function ImportPage() {
           ...file,
           category,
           source,
-          tags: (file.tags || []).map((tag: any) => ({ name: tag.tag?.name || 'Unknown' })),
+          tags: (file.tags || []).map((tag: any) => ({
+            id: tag.tag?.id,
+            name: tag.tag?.name || 'Unknown',
+          })),
           metadata,
+          job: file.jobs?.[0] ?? null,
+          committed: file.pending_import?.status === 'committed',
         } as FileWithDetails;
       });
     },
@@ -125,6 +208,13 @@ export default function ImportPage() {
     refetchInterval: 5000,
   });
 
+  const filteredHistory = filesHistory?.filter(file => hasAllTags(file.tags, selectedTagIds));
+
+  const { data: sources } = useQuery({
+    queryKey: sourcesQueryKey,
+    queryFn: fetchSources,
+  });
+
   // Upload file mutation
   const { mutate: uploadFile, isPending: isUploading } = useMutation({
     mutationFn: async (file: File) => {
@@ -151,6 +241,7 @@ export default function ImportPage() {
         .insert({
           filename: fileName,
           path: filePath,
+          source_id: sourceId === 'none' ? null : sourceId,
           uploaded_at: new Date().toISOString(),
           processing_status: 'pending',
           metadata: {
@@ -213,6 +304,7 @@ export default function ImportPage() {
     onSuccess: (data, file) => {
       setSelectedFileData(data);
       setViewingFile(file);
+      setActiveTab('data');
     },
     onError: error => {
       console.error('Error fetching file data:', error);
@@ -226,32 +318,7 @@ export default function ImportPage() {
 
   // Manually trigger file processing
   const { mutate: reprocessFile, isPending: isReprocessing } = useMutation({
-    mutationFn: async (file: FileWithDetails) => {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/process-spreadsheet`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY}`,
-          },
-          body: JSON.stringify({
-            fileId: file.id,
-            filePath: file.path,
-            fileName: file.filename,
-            metadata: file.metadata,
-            processing_status: 'processing',
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Error reprocessing file');
-      }
-
-      return response.json();
-    },
+    mutationFn: (file: FileWithDetails) => enqueueImportJob(file.id),
     onSuccess: () => {
       toast({
         title: t('import.reprocess.success.title'),
@@ -269,6 +336,86 @@ export default function ImportPage() {
     },
   });
 
+  // Run the failed chunks of a file again, all of them or only one
+  const { mutate: retryChunks, isPending: isRetryingChunks } = useMutation({
+    mutationFn: ({ file, chunkIndex }: { file: FileWithDetails; chunkIndex?: number }) =>
+      enqueueImportJob(file.id, 'retry_chunks', { chunkIndex }),
+    onSuccess: () => {
+      toast({
+        title: t('import.chunks.retry.success.title'),
+        description: t('import.chunks.retry.success.description'),
+      });
+      refetchHistory();
+    },
+    onError: error => {
+      console.error('Retry chunks error:', error);
+      toast({
+        title: t('import.chunks.retry.error.title'),
+        description: t('import.chunks.retry.error.description'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Roll back a committed import, confirmation is needed if its data changed since
+  const { mutate: undoFileImport, isPending: isUndoing } = useMutation({
+    mutationFn: ({ file, force }: { file: FileWithDetails; force: boolean }) =>
+      undoImport(file.id, force),
+    onSuccess: result => {
+      if (result.status === 'needs_confirmation') {
+        setUndoWarning({ edited: result.edited, published: result.published });
+        return;
+      }
+
+      toast({
+        title: t('import.undo.success.title'),
+        description: t('import.undo.success.description', {
+          deleted: result.deleted,
+          restored: result.restored,
+        }),
+      });
+      handleCloseUndo();
+      refetchHistory();
+    },
+    onError: error => {
+      console.error('Undo import error:', error);
+      toast({
+        title: t('import.undo.error.title'),
+        description: t('import.undo.error.description'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCloseUndo = () => {
+    setUndoingFile(null);
+    setUndoWarning(null);
+  };
+
+  // Download a file from the import bucket
+  const downloadStorageFile = (path: string, fileName: string) => {
+    const { data } = supabaseClient.storage.from('metrics-import').getPublicUrl(path);
+
+    // Create an anchor element and trigger download
+    const a = document.createElement('a');
+    a.href = data.publicUrl;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  // Download the report of the values rejected during the import of a file
+  const downloadRejects = (file: FileWithDetails, format: 'xlsx' | 'csv') => {
+    const rejects = file.metadata?.rejects;
+    if (!rejects) return;
+
+    downloadStorageFile(
+      format === 'xlsx' ? rejects.xlsx_path : rejects.csv_path,
+      `${file.filename}.rejects.${format}`
+    );
+  };
+
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -305,8 +452,14 @@ export default function ImportPage() {
     switch (status) {
       case 'completed':
         return <Badge className="bg-green-100 text-green-800">Processed</Badge>;
+      case 'awaiting_review':
+        return <Badge className="bg-blue-100 text-blue-800">Awaiting review</Badge>;
       case 'error':
         return <Badge variant="destructive">Error</Badge>;
+      case 'rejected':
+        return <Badge variant="secondary">Rejected</Badge>;
+      case 'reverted':
+        return <Badge variant="secondary">Reverted</Badge>;
       case 'processing':
       case 'pending':
         return (
@@ -323,10 +476,46 @@ export default function ImportPage() {
     }
   };
 
+  // State of the latest processing job, when it is still running or has given up
+  const getJobState = (file: FileWithDetails) => {
+    const job = file.job;
+    if (!job) return null;
+
+    switch (job.status) {
+      case 'queued':
+        return job.attempts === 0
+          ? t('import.jobs.queued')
+          : t('import.jobs.retryScheduled', {
+              attempt: job.attempts + 1,
+              maxAttempts: job.max_attempts,
+              time: format(new Date(job.run_after), 'HH:mm:ss'),
+            });
+      case 'running':
+        return t('import.jobs.running', { attempt: job.attempts, maxAttempts: job.max_attempts });
+      case 'failed':
+        return t('import.jobs.failed', { attempts: job.attempts });
+      default:
+        return null;
+    }
+  };
+
   // Close the JSON data view
   const handleCloseDataView = () => {
     setSelectedFileData(null);
     setViewingFile(null);
+    setActiveTab('history');
+  };
+
+  // Open the review of a file waiting for validation
+  const handleOpenReview = (file: FileWithDetails) => {
+    setReviewingFile(file);
+    setActiveTab('review');
+  };
+
+  // Close the review, once committed/rejected or dismissed
+  const handleCloseReview = () => {
+    setReviewingFile(null);
+    setActiveTab('history');
   };
 
   return (
@@ -338,7 +527,7 @@ export default function ImportPage() {
       </div>
 
       {/* Main Content */}
-      <Tabs defaultValue="upload" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="upload" className="flex items-center gap-2">
             <FileUp className="h-4 w-4" />
@@ -354,6 +543,12 @@ export default function ImportPage() {
               {t('import.tabs.data')}
             </TabsTrigger>
           )}
+          {reviewingFile && (
+            <TabsTrigger value="review" className="flex items-center gap-2">
+              <ClipboardCheck className="h-4 w-4" />
+              {t('import.tabs.review')}
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="upload" className="space-y-4">
@@ -392,6 +587,26 @@ export default function ImportPage() {
                   </div>
                 </div>
 
+                <div className="flex flex-col gap-2">
+                  <label htmlFor="file-source" className="text-sm font-medium">
+                    {t('import.upload.source')}
+                  </label>
+                  <Select value={sourceId} onValueChange={setSourceId} disabled={isUploading}>
+                    <SelectTrigger id="file-source" className="max-w-md">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{t('metrics.explorer.noSource')}</SelectItem>
+                      {sources?.map(source => (
+                        <SelectItem key={source.id} value={source.id}>
+                          {source.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{t('import.upload.sourceHint')}</p>
+                </div>
+
                 {selectedFile && (
                   <div className="rounded-md bg-muted p-4">
                     <div className="flex items-center justify-between">
@@ -428,6 +643,14 @@ export default function ImportPage() {
               <CardDescription>{t('import.history.description')}</CardDescription>
             </CardHeader>
             <CardContent>
+              {filesHistory && (
+                <TagFilter
+                  className="mb-4"
+                  itemTags={filesHistory.map(file => file.tags)}
+                  selectedTagIds={selectedTagIds}
+                  onSelectedTagIdsChange={setSelectedTagIds}
+                />
+              )}
               {isLoadingHistory ? (
                 <div className="space-y-2">
                   <Skeleton className="h-12 w-full" />
@@ -449,13 +672,18 @@ export default function ImportPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filesHistory.map(file => (
+                      {filteredHistory?.map(file => (
                         <TableRow key={file.id}>
                           <TableCell className="font-medium">
                             <div className="flex items-center gap-2">
                               <FileText className="h-4 w-4" />
                               {file.filename}
                             </div>
+                            {file.source && (
+                              <div className="mt-1 text-xs font-normal text-muted-foreground">
+                                {t('metrics.explorer.source')}: {file.source.name}
+                              </div>
+                            )}
                             {file.tags.length > 0 && (
                               <div className="mt-1 flex flex-wrap gap-1">
                                 {file.tags.map((tag, index) => (
@@ -476,6 +704,14 @@ export default function ImportPage() {
                           </TableCell>
                           <TableCell>
                             {getStatusBadge(file)}
+                            {getJobState(file) && (
+                              <div
+                                className="mt-1 text-xs text-muted-foreground"
+                                title={file.job?.last_error ?? undefined}
+                              >
+                                {getJobState(file)}
+                              </div>
+                            )}
                             {file.processing_status === 'error' &&
                               isFileMetadata(file.metadata) &&
                               file.metadata.error_message && (
@@ -492,30 +728,73 @@ export default function ImportPage() {
                                   columns
                                 </div>
                               )}
+                            {isFileMetadata(file.metadata) && file.metadata.rejects && (
+                              <div className="mt-1 flex items-center text-xs text-orange-700">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                {t('import.history.rejectsCount', {
+                                  rejected: file.metadata.rejects.rejected_count,
+                                  coerced: file.metadata.rejects.coerced_count,
+                                })}
+                              </div>
+                            )}
+                            {isFileMetadata(file.metadata) &&
+                              file.metadata.chunks &&
+                              file.metadata.chunks.total > 1 &&
+                              (file.processing_status === 'processing' ||
+                                file.processing_status === 'error') && (
+                                <div className="mt-1 text-xs text-muted-foreground">
+                                  {t('import.chunks.progress', {
+                                    completed: file.metadata.chunks.completed,
+                                    total: file.metadata.chunks.total,
+                                  })}
+                                  {file.metadata.chunks.failed > 0 && (
+                                    <span className="ml-1 text-red-600">
+                                      {t('import.chunks.failed', {
+                                        count: file.metadata.chunks.failed,
+                                      })}
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                            {isFileMetadata(file.metadata) && file.metadata.import_path && (
+                              <div className="mt-1 text-xs text-muted-foreground">
+                                {t(`import.history.importPath.${file.metadata.import_path}`)}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-1">
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={async () => {
-                                  const { data } = await supabaseClient.storage
-                                    .from('metrics-import')
-                                    .getPublicUrl(file.path);
-
-                                  // Create an anchor element and trigger download
-                                  const a = document.createElement('a');
-                                  a.href = data.publicUrl;
-                                  a.download = file.filename;
-                                  document.body.appendChild(a);
-                                  a.click();
-                                  document.body.removeChild(a);
-                                }}
+                                onClick={() => downloadStorageFile(file.path, file.filename)}
                                 title={t('import.history.download')}
                               >
                                 <Download className="h-4 w-4" />
                               </Button>
 
+                              {isFileMetadata(file.metadata) && file.metadata.rejects && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      title={t('import.history.downloadRejects')}
+                                    >
+                                      <FileWarning className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onClick={() => downloadRejects(file, 'xlsx')}>
+                                      {t('import.history.rejectsXlsx')}
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => downloadRejects(file, 'csv')}>
+                                      {t('import.history.rejectsCsv')}
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+
                               {file.processing_status === 'completed' &&
                                 isFileMetadata(file.metadata) &&
                                 file.metadata.json_path && (
@@ -530,19 +809,89 @@ export default function ImportPage() {
                                   </Button>
                                 )}
 
-                              {(file.processing_status === 'error' || !file.processing_status) && (
+                              {file.processing_status === 'awaiting_review' && (
                                 <Button
                                   variant="ghost"
                                   size="icon"
-                                  onClick={() => reprocessFile(file)}
-                                  title={t('import.history.reprocess')}
-                                  disabled={isReprocessing}
+                                  onClick={() => handleOpenReview(file)}
+                                  title={t('import.history.review')}
                                 >
-                                  <RefreshCw
-                                    className={`h-4 w-4 ${isReprocessing ? 'animate-spin' : ''}`}
-                                  />
+                                  <ClipboardCheck className="h-4 w-4" />
                                 </Button>
                               )}
+
+                              {file.committed && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setUndoingFile(file)}
+                                  title={t('import.history.undo')}
+                                  disabled={isUndoing}
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                              )}
+
+                              {file.processing_status === 'error' &&
+                                !file.committed &&
+                                isFileMetadata(file.metadata) &&
+                                file.metadata.chunks &&
+                                file.metadata.chunks.failed > 0 && (
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title={t('import.chunks.retry.button')}
+                                        disabled={isRetryingChunks}
+                                      >
+                                        <RotateCcw
+                                          className={`h-4 w-4 ${isRetryingChunks ? 'animate-spin' : ''}`}
+                                        />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      <DropdownMenuItem onClick={() => retryChunks({ file })}>
+                                        {t('import.chunks.retry.all')}
+                                      </DropdownMenuItem>
+                                      {file.metadata.chunks.items
+                                        .filter(chunk => chunk.status === 'error')
+                                        .map(chunk => (
+                                          <DropdownMenuItem
+                                            key={chunk.index}
+                                            onClick={() =>
+                                              retryChunks({ file, chunkIndex: chunk.index })
+                                            }
+                                            title={chunk.error ?? undefined}
+                                          >
+                                            {t('import.chunks.retry.one', {
+                                              sheet: chunk.sheet,
+                                              start: chunk.start_row + 1,
+                                              end: chunk.end_row,
+                                            })}
+                                          </DropdownMenuItem>
+                                        ))}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                )}
+
+                              {!file.committed &&
+                                (file.processing_status === 'error' ||
+                                  file.processing_status === 'rejected' ||
+                                  file.processing_status === 'reverted' ||
+                                  !file.processing_status) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => reprocessFile(file)}
+                                    title={t('import.history.reprocess')}
+                                    disabled={isReprocessing}
+                                  >
+                                    <RefreshCw
+                                      className={`h-4 w-4 ${isReprocessing ? 'animate-spin' : ''}`}
+                                    />
+                                  </Button>
+                                )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -613,7 +962,52 @@ export default function ImportPage() {
             </Card>
           </TabsContent>
         )}
+
+        {reviewingFile && (
+          <TabsContent value="review" className="space-y-4">
+            <ImportReview
+              fileId={reviewingFile.id}
+              fileName={reviewingFile.filename}
+              onClose={handleCloseReview}
+              onDone={() => {
+                handleCloseReview();
+                refetchHistory();
+              }}
+              onReprocess={() => {
+                reprocessFile(reviewingFile);
+                handleCloseReview();
+              }}
+            />
+          </TabsContent>
+        )}
       </Tabs>
+
+      <AlertDialog open={!!undoingFile} onOpenChange={open => !open && handleCloseUndo()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('import.undo.confirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {undoWarning
+                ? t('import.undo.warningDescription', undoWarning)
+                : t('import.undo.confirmDescription', { fileName: undoingFile?.filename ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUndoing}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isUndoing}
+              onClick={e => {
+                // Keep the dialog open until the server answers
+                e.preventDefault();
+                if (undoingFile) undoFileImport({ file: undoingFile, force: !!undoWarning });
+              }}
+              className={undoWarning ? 'bg-destructive hover:bg-destructive/90' : undefined}
+            >
+              {undoWarning ? t('import.undo.forceButton') : t('import.undo.button')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -7,9 +7,9 @@ import supabaseClient from '@/lib/supabase-client';
 import { Tables } from '@/types/database';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, BarChart, Edit, Save, ChevronDown, Link, Trash2 } from 'lucide-react';
+import { ChevronLeft, BarChart, Edit, Save, Link, Trash2 } from 'lucide-react';
 import RenderChart from '@/components/ui/charts/RenderChart';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
@@ -21,17 +21,20 @@ import {
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuTrigger,
-  DropdownMenuSeparator,
-  DropdownMenuCheckboxItem,
-} from '@/components/ui/dropdown-menu';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { MetricTreeSelector } from '@/components/ui/metric-tree-selector';
-import { YearRangeSlider } from '@/components/ui/year-range-slider';
+import { RegionTreeSelector } from '@/components/ui/region-tree-selector';
+import { PeriodRangeSlider } from '@/components/ui/period-range-slider';
+import { useMetricsFrequency } from '@/hooks/use-metrics-frequency';
+import {
+  convertPeriodRange,
+  getConfigDateRange,
+  getConfigPeriodRange,
+  getPeriodRangeDates,
+  PeriodRange,
+} from '@/lib/periods';
 import RenderTable from '@/components/ui/tables/RenderTable';
+import { ClassBreakMethod } from '@/lib/geometry';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import {
   AlertDialog,
@@ -43,6 +46,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission } from '@/lib/permissions';
+import { trashChart, trashQueryKey } from '@/lib/trash';
+import { chartHighlightsQueryKey, fetchChartHighlights } from '@/lib/highlights';
+import { ChartHighlights } from '@/components/chart-highlights';
 
 // Simple switch component
 const Switch = ({
@@ -93,20 +101,26 @@ export default function ChartDetailPage() {
   const [activeTab, setActiveTab] = useState('default');
   // Delete confirmation state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  // Show only published data, as in the embeds
+  const [previewAsPublic, setPreviewAsPublic] = useState(false);
+  const { data: currentUser } = useCurrentUser();
+  const canEditCharts = hasPermission(currentUser?.role, 'editCharts');
 
   // State for chart configuration
   const [chartName, setChartName] = useState('');
   const [chartDescription, setChartDescription] = useState('');
-  const [chartType, setChartType] = useState<'line' | 'bar' | 'pie' | 'area'>('line');
-  const [yearRange, setYearRange] = useState<[number, number]>([
-    new Date().getFullYear() - 5,
-    new Date().getFullYear(),
+  const [chartType, setChartType] = useState<'line' | 'bar' | 'pie' | 'area' | 'map'>('line');
+  const [periodRange, setPeriodRange] = useState<PeriodRange>([
+    (new Date().getFullYear() - 5).toString(),
+    new Date().getFullYear().toString(),
   ]);
   const [showLegend, setShowLegend] = useState(true);
   const [colorScheme, setColorScheme] = useState<'default' | 'pastel' | 'vibrant'>('default');
   const [curveType, setCurveType] = useState<'linear' | 'monotone' | 'step'>('monotone');
   const [innerRadius, setInnerRadius] = useState<number>(0);
   const [outerRadius, setOuterRadius] = useState<number>(80);
+  const [mapClassCount, setMapClassCount] = useState(5);
+  const [mapClassMethod, setMapClassMethod] = useState<ClassBreakMethod>('quantile');
   const [stacked, setStacked] = useState<boolean>(false);
   const [hideDots, setHideDots] = useState(false);
   const [separateRegions, setSeparateRegions] = useState(false);
@@ -125,27 +139,17 @@ export default function ChartDetailPage() {
   // State for metric selection
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
 
+  // The period range follows the finest frequency of the selected metrics
+  const frequency = useMetricsFrequency(selectedMetrics);
+  useEffect(() => {
+    setPeriodRange(range => convertPeriodRange(range, frequency));
+  }, [frequency]);
+
+  // For chart preview, convert period range to dateRange
+  const previewDateRange = useMemo(() => getPeriodRangeDates(periodRange), [periodRange]);
+
   // State for region selection
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
-  const [regions, setRegions] = useState<{ id: string; name: string }[]>([]);
-  const [loadingRegions, setLoadingRegions] = useState(true);
-
-  // Fetch regions on mount
-  useEffect(() => {
-    let isMounted = true;
-    supabaseClient
-      .from('regions')
-      .select('id, name')
-      .then(({ data, error }) => {
-        if (!error && isMounted && data) {
-          setRegions(data);
-        }
-        setLoadingRegions(false);
-      });
-    return () => {
-      isMounted = false;
-    };
-  }, []);
 
   // Fetch chart details and associated metrics
   const { data: chartData, isLoading } = useQuery<ChartWithMetrics | undefined>({
@@ -156,6 +160,7 @@ export default function ChartDetailPage() {
         .from('charts')
         .select('*')
         .eq('id', chartId)
+        .is('deleted_at', null)
         .single();
 
       if (error) throw error;
@@ -173,6 +178,12 @@ export default function ChartDetailPage() {
     },
   });
 
+  // Editorial callouts drawn on the chart
+  const { data: highlights } = useQuery({
+    queryKey: [...chartHighlightsQueryKey, chartId],
+    queryFn: () => fetchChartHighlights(chartId),
+  });
+
   // Update chart mutation
   const updateChartMutation = useMutation({
     mutationFn: async () => {
@@ -189,18 +200,26 @@ export default function ChartDetailPage() {
             metrics: selectedMetrics,
             regions: selectedRegions,
             dateRange: {
-              from: new Date(yearRange[0], 0, 1).toISOString(), // January 1st of start year
-              to: new Date(yearRange[1], 11, 31).toISOString(), // December 31st of end year
+              from: previewDateRange.from.toISOString(), // First day of the start period
+              to: previewDateRange.to.toISOString(), // Last day of the end period
             },
-            yearRange: yearRange,
+            periodRange,
+            // Kept for charts read by older versions
+            yearRange: [
+              previewDateRange.from.getUTCFullYear(),
+              previewDateRange.to.getUTCFullYear(),
+            ],
             showLegend,
             colorScheme,
             curveType: chartType === 'line' ? curveType : undefined,
             innerRadius: chartType === 'pie' ? innerRadius : undefined,
             outerRadius: chartType === 'pie' ? outerRadius : undefined,
+            mapClassCount: chartType === 'map' ? mapClassCount : undefined,
+            mapClassMethod: chartType === 'map' ? mapClassMethod : undefined,
             stacked: chartType === 'bar' || chartType === 'area' ? stacked : undefined,
             hideDots: chartType === 'line' ? hideDots : undefined,
             separateRegions,
+            dataAggregation: chartConfig?.dataAggregation,
             tableView: {
               showRowNumbers: tableView.showRowNumbers,
               showFilters: tableView.showFilters,
@@ -236,15 +255,13 @@ export default function ChartDetailPage() {
 
   // Delete chart mutation
   const deleteChartMutation = useMutation({
-    mutationFn: async () => {
-      const { error } = await supabaseClient.from('charts').delete().eq('id', chartId);
-
-      if (error) throw error;
-    },
+    mutationFn: () => trashChart(chartId),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['charts'] });
+      queryClient.invalidateQueries({ queryKey: trashQueryKey });
       toast({
         title: 'Chart deleted successfully',
-        description: 'Your chart has been permanently deleted',
+        description: 'Your chart has been moved to the trash',
       });
       router.push('/library');
     },
@@ -273,13 +290,14 @@ export default function ChartDetailPage() {
       setChartDescription(chartConfig?.description || '');
       setChartType(chartConfig?.type || 'line');
 
-      // Handle year range/date range
-      if (chartConfig?.yearRange) {
-        setYearRange(chartConfig.yearRange);
+      // Handle period range/year range/date range
+      const savedPeriodRange = getConfigPeriodRange(chartConfig);
+      if (savedPeriodRange) {
+        setPeriodRange(savedPeriodRange);
       } else if (chartConfig?.dateRange?.from && chartConfig?.dateRange?.to) {
         const fromDate = new Date(chartConfig.dateRange.from);
         const toDate = new Date(chartConfig.dateRange.to);
-        setYearRange([fromDate.getFullYear(), toDate.getFullYear()]);
+        setPeriodRange([fromDate.getFullYear().toString(), toDate.getFullYear().toString()]);
       }
 
       setShowLegend(chartConfig?.showLegend ?? true);
@@ -287,6 +305,8 @@ export default function ChartDetailPage() {
       setCurveType(chartConfig?.curveType || 'monotone');
       setInnerRadius(chartConfig?.innerRadius ?? 0);
       setOuterRadius(chartConfig?.outerRadius ?? 80);
+      setMapClassCount(chartConfig?.mapClassCount ?? 5);
+      setMapClassMethod(chartConfig?.mapClassMethod ?? 'quantile');
       setStacked(chartConfig?.stacked ?? false);
       setHideDots(chartConfig?.hideDots ?? false);
       setSeparateRegions(chartConfig?.separateRegions ?? false);
@@ -329,12 +349,6 @@ export default function ChartDetailPage() {
     });
   };
 
-  // For chart preview, convert year range to dateRange
-  const previewDateRange = {
-    from: new Date(yearRange[0], 0, 1), // January 1st of start year
-    to: new Date(yearRange[1], 11, 31), // December 31st of end year
-  };
-
   return (
     <div className="mt-8 space-y-8">
       <Card>
@@ -344,7 +358,7 @@ export default function ChartDetailPage() {
               <ChevronLeft className="mr-2 h-4 w-4" />
               {t('library.detail.backToLibrary')}
             </Button>
-            {chartData && (
+            {chartData && canEditCharts && (
               <div className="flex space-x-2">
                 <Button
                   variant="outline"
@@ -402,84 +416,23 @@ export default function ChartDetailPage() {
 
                           {/* Date Range Selection */}
                           <div className="space-y-2">
-                            <Label>{t('metrics.configurator.yearRange')}</Label>
+                            <Label>{t('metrics.configurator.periodRange')}</Label>
                             <div className="w-full px-1 py-2">
-                              <YearRangeSlider
+                              <PeriodRangeSlider
+                                frequency={frequency}
                                 minYear={1980}
                                 maxYear={new Date().getFullYear()}
-                                value={yearRange}
-                                onChange={setYearRange}
+                                value={periodRange}
+                                onChange={setPeriodRange}
                               />
                             </div>
                           </div>
 
                           {/* Region Multi-Select */}
-                          <div className="space-y-2">
-                            <Label>{t('metrics.configurator.regions')}</Label>
-                            <DropdownMenu>
-                              <DropdownMenuTrigger asChild>
-                                <Button variant="outline" className="w-full justify-between">
-                                  {selectedRegions.length === 0
-                                    ? t('metrics.configurator.selectRegions')
-                                    : selectedRegions.length === regions.length
-                                      ? t('metrics.configurator.allRegions')
-                                      : `${selectedRegions.length} ${t('metrics.configurator.regionSelected', { count: selectedRegions.length })}`}
-                                  <ChevronDown className="h-4 w-4 opacity-50" />
-                                </Button>
-                              </DropdownMenuTrigger>
-                              <DropdownMenuContent className="max-h-72 w-64 overflow-y-auto">
-                                {loadingRegions ? (
-                                  <div className="p-2 text-sm text-muted-foreground">
-                                    {t('metrics.configurator.loading')}
-                                  </div>
-                                ) : regions.length === 0 ? (
-                                  <div className="p-2 text-sm text-muted-foreground">
-                                    {t('metrics.configurator.noRegions')}
-                                  </div>
-                                ) : (
-                                  <>
-                                    <DropdownMenuCheckboxItem
-                                      key="all-regions"
-                                      checked={selectedRegions.length === regions.length}
-                                      onCheckedChange={checked => {
-                                        if (checked) {
-                                          setSelectedRegions(regions.map(r => r.id));
-                                        } else {
-                                          setSelectedRegions([]);
-                                        }
-                                      }}
-                                    >
-                                      {t('metrics.configurator.allRegions')}
-                                    </DropdownMenuCheckboxItem>
-                                    <DropdownMenuSeparator />
-                                    {regions.map(region => (
-                                      <DropdownMenuCheckboxItem
-                                        key={region.id}
-                                        checked={selectedRegions.includes(region.id)}
-                                        onCheckedChange={checked => {
-                                          setSelectedRegions(prev => {
-                                            let next;
-                                            if (checked) {
-                                              next = [...prev, region.id];
-                                            } else {
-                                              next = prev.filter(id => id !== region.id);
-                                            }
-                                            // Si tout est sélectionné individuellement, activer "Toutes les régions"
-                                            if (next.length === regions.length) {
-                                              return regions.map(r => r.id);
-                                            }
-                                            return next;
-                                          });
-                                        }}
-                                      >
-                                        {region.name}
-                                      </DropdownMenuCheckboxItem>
-                                    ))}
-                                  </>
-                                )}
-                              </DropdownMenuContent>
-                            </DropdownMenu>
-                          </div>
+                          <RegionTreeSelector
+                            selectedRegions={selectedRegions}
+                            onSelectRegions={setSelectedRegions}
+                          />
                         </TabsContent>
 
                         <TabsContent value="chart" className="space-y-4 pt-4">
@@ -499,6 +452,9 @@ export default function ChartDetailPage() {
                                   <SelectItem value="area">Area Chart</SelectItem>
                                   <SelectItem value="bar">Bar Chart</SelectItem>
                                   <SelectItem value="pie">Pie Chart</SelectItem>
+                                  <SelectItem value="map">
+                                    {t('metrics.configurator.chartTypes.map')}
+                                  </SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
@@ -615,6 +571,55 @@ export default function ChartDetailPage() {
                                 </div>
                               </>
                             )}
+
+                            {/* Map specific options */}
+                            {chartType === 'map' && (
+                              <>
+                                <div className="space-y-2">
+                                  <Label htmlFor="mapClassCount">
+                                    {t('metrics.configurator.mapClassCount')}
+                                  </Label>
+                                  <Select
+                                    value={mapClassCount.toString()}
+                                    onValueChange={value => setMapClassCount(Number(value))}
+                                  >
+                                    <SelectTrigger id="mapClassCount">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {[3, 4, 5, 6, 7].map(count => (
+                                        <SelectItem key={count} value={count.toString()}>
+                                          {count}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label htmlFor="mapClassMethod">
+                                    {t('metrics.configurator.mapClassMethod')}
+                                  </Label>
+                                  <Select
+                                    value={mapClassMethod}
+                                    onValueChange={(value: ClassBreakMethod) =>
+                                      setMapClassMethod(value)
+                                    }
+                                  >
+                                    <SelectTrigger id="mapClassMethod">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="quantile">
+                                        {t('metrics.configurator.mapClassMethods.quantile')}
+                                      </SelectItem>
+                                      <SelectItem value="equalInterval">
+                                        {t('metrics.configurator.mapClassMethods.equalInterval')}
+                                      </SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              </>
+                            )}
                           </div>
                         </TabsContent>
 
@@ -827,7 +832,20 @@ export default function ChartDetailPage() {
                 </TabsList>
               </div>
               <TabsContent value="chart">
-                <div className="mb-4 flex justify-end">
+                <div className="mb-4 flex items-center justify-end gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="preview-public-chart"
+                      checked={previewAsPublic}
+                      onCheckedChange={setPreviewAsPublic}
+                    />
+                    <Label
+                      htmlFor="preview-public-chart"
+                      title={t('library.detail.previewAsPublicHelp')}
+                    >
+                      {t('library.detail.previewAsPublic')}
+                    </Label>
+                  </div>
                   <Button variant="outline" onClick={() => copyEmbedLink('chart')}>
                     <Link className="mr-2 h-4 w-4" />
                     {t('library.detail.copyEmbedLink')}
@@ -836,20 +854,10 @@ export default function ChartDetailPage() {
                 <div className="h-80">
                   {selectedMetrics.length > 0 ? (
                     <RenderChart
+                      publicOnly={previewAsPublic}
                       metricIds={editOpen ? selectedMetrics : chartData.metrics}
                       chartType={editOpen ? chartType : chartConfig?.type || 'line'}
-                      dateRange={
-                        editOpen
-                          ? previewDateRange
-                          : {
-                              from: chartConfig?.dateRange?.from
-                                ? new Date(chartConfig.dateRange.from)
-                                : undefined,
-                              to: chartConfig?.dateRange?.to
-                                ? new Date(chartConfig.dateRange.to)
-                                : undefined,
-                            }
-                      }
+                      dateRange={editOpen ? previewDateRange : getConfigDateRange(chartConfig)}
                       showLegend={
                         editOpen
                           ? showLegend
@@ -861,13 +869,16 @@ export default function ChartDetailPage() {
                       curveType={editOpen ? curveType : chartConfig?.curveType}
                       innerRadius={editOpen ? innerRadius : chartConfig?.innerRadius}
                       outerRadius={editOpen ? outerRadius : chartConfig?.outerRadius}
+                      mapClassCount={editOpen ? mapClassCount : chartConfig?.mapClassCount}
+                      mapClassMethod={editOpen ? mapClassMethod : chartConfig?.mapClassMethod}
                       stacked={editOpen ? stacked : chartConfig?.stacked || false}
                       regionIds={editOpen ? selectedRegions : chartData.regions}
                       hideDots={editOpen ? hideDots : chartConfig?.hideDots || false}
-                      aggregation="none"
+                      aggregation={chartConfig?.dataAggregation || 'none'}
                       separateRegions={
                         editOpen ? separateRegions : chartConfig?.separateRegions || false
                       }
+                      highlights={highlights}
                     />
                   ) : (
                     <div className="flex h-full items-center justify-center">
@@ -879,7 +890,20 @@ export default function ChartDetailPage() {
                 </div>
               </TabsContent>
               <TabsContent value="table">
-                <div className="mb-4 flex justify-end">
+                <div className="mb-4 flex items-center justify-end gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="preview-public-table"
+                      checked={previewAsPublic}
+                      onCheckedChange={setPreviewAsPublic}
+                    />
+                    <Label
+                      htmlFor="preview-public-table"
+                      title={t('library.detail.previewAsPublicHelp')}
+                    >
+                      {t('library.detail.previewAsPublic')}
+                    </Label>
+                  </div>
                   <Button variant="outline" onClick={() => copyEmbedLink('table')}>
                     <Link className="mr-2 h-4 w-4" />
                     {t('library.detail.copyEmbedLink')}
@@ -887,19 +911,9 @@ export default function ChartDetailPage() {
                 </div>
                 {selectedMetrics.length > 0 ? (
                   <RenderTable
+                    publicOnly={previewAsPublic}
                     metricIds={editOpen ? selectedMetrics : chartData.metrics}
-                    dateRange={
-                      editOpen
-                        ? previewDateRange
-                        : {
-                            from: chartConfig?.dateRange?.from
-                              ? new Date(chartConfig.dateRange.from)
-                              : undefined,
-                            to: chartConfig?.dateRange?.to
-                              ? new Date(chartConfig.dateRange.to)
-                              : undefined,
-                          }
-                    }
+                    dateRange={editOpen ? previewDateRange : getConfigDateRange(chartConfig)}
                     regionIds={editOpen ? selectedRegions : chartData.regions}
                     tableConfig={
                       editOpen
@@ -969,16 +983,14 @@ export default function ChartDetailPage() {
                         <div className="font-mono text-sm">from</div>
                         <div className="text-sm">Start date (ISO format)</div>
                         <div className="font-mono text-sm">
-                          {chartConfig?.dateRange?.from ||
-                            new Date(yearRange[0], 0, 1).toISOString()}
+                          {chartConfig?.dateRange?.from || previewDateRange.from.toISOString()}
                         </div>
                       </div>
                       <div className="grid grid-cols-3 p-2">
                         <div className="font-mono text-sm">to</div>
                         <div className="text-sm">End date (ISO format)</div>
                         <div className="font-mono text-sm">
-                          {chartConfig?.dateRange?.to ||
-                            new Date(yearRange[1], 11, 31).toISOString()}
+                          {chartConfig?.dateRange?.to || previewDateRange.to.toISOString()}
                         </div>
                       </div>
                       <div className="grid grid-cols-3 p-2">
@@ -993,9 +1005,9 @@ export default function ChartDetailPage() {
                     <h4 className="text-md mb-2 font-medium">Example Request</h4>
                     <div className="overflow-x-auto rounded-md bg-muted p-2 font-mono text-sm">
                       {`fetch('/api/metrics/data?chart_id=${chartId}&metrics=${chartData?.metrics.join(',')}&from=${encodeURIComponent(
-                        chartConfig?.dateRange?.from || new Date(yearRange[0], 0, 1).toISOString()
+                        chartConfig?.dateRange?.from || previewDateRange.from.toISOString()
                       )}&to=${encodeURIComponent(
-                        chartConfig?.dateRange?.to || new Date(yearRange[1], 11, 31).toISOString()
+                        chartConfig?.dateRange?.to || previewDateRange.to.toISOString()
                       )}')`}
                     </div>
                   </div>
@@ -1010,7 +1022,7 @@ export default function ChartDetailPage() {
       "metric_name": "Example Metric",
       "region_id": "${chartData?.regions?.[0] || 'region-id'}",
       "region_name": "Example Region",
-      "year": ${yearRange[0]},
+      "period": "${periodRange[0]}",
       "value": 42.5
     },
     // Additional data points...
@@ -1021,8 +1033,8 @@ export default function ChartDetailPage() {
     "metrics_count": ${chartData?.metrics.length || 0},
     "regions_count": ${chartData?.regions?.length || 0},
     "date_range": {
-      "from": "${chartConfig?.dateRange?.from || new Date(yearRange[0], 0, 1).toISOString()}",
-      "to": "${chartConfig?.dateRange?.to || new Date(yearRange[1], 11, 31).toISOString()}"
+      "from": "${chartConfig?.dateRange?.from || previewDateRange.from.toISOString()}",
+      "to": "${chartConfig?.dateRange?.to || previewDateRange.to.toISOString()}"
     }
   }
 }`}
@@ -1067,6 +1079,15 @@ export default function ChartDetailPage() {
         </CardContent>
       </Card>
 
+      {chartData && (
+        <ChartHighlights
+          chartId={chartId}
+          metricIds={chartData.metrics}
+          frequency={frequency}
+          canEdit={canEditCharts}
+        />
+      )}
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -16,18 +16,18 @@ import { useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
 import { Tables } from '@/types/database';
 import { Skeleton } from '@/components/ui/skeleton';
-import { PlusCircle, BarChart, BarChart2, PieChart } from 'lucide-react';
+import { PlusCircle, BarChart, BarChart2, PieChart, Map as MapIcon } from 'lucide-react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import RenderChart from '@/components/ui/charts/RenderChart';
 import { Search } from 'lucide-react';
 
 // Define valid chart types to match RenderChart requirements
-type ChartType = 'line' | 'bar' | 'pie' | 'area';
+type ChartType = 'line' | 'bar' | 'pie' | 'area' | 'map';
 
 // Function to validate and return a valid chart type
 const getValidChartType = (chartType: string | null): ChartType => {
-  const validTypes: ChartType[] = ['line', 'bar', 'pie', 'area'];
+  const validTypes: ChartType[] = ['line', 'bar', 'pie', 'area', 'map'];
   return chartType && validTypes.includes(chartType as ChartType)
     ? (chartType as ChartType)
     : 'line';
@@ -48,7 +48,10 @@ export default function LibraryPage() {
   const { data: charts, isLoading } = useQuery({
     queryKey: ['charts'],
     queryFn: async () => {
-      const { data, error } = await supabaseClient.from('charts').select('*');
+      const { data, error } = await supabaseClient
+        .from('charts')
+        .select('*')
+        .is('deleted_at', null);
 
       if (error) throw error;
 
@@ -82,6 +85,8 @@ export default function LibraryPage() {
         return <BarChart2 className="h-6 w-6" />;
       case 'pie':
         return <PieChart className="h-6 w-6" />;
+      case 'map':
+        return <MapIcon className="h-6 w-6" />;
       default:
         return <BarChart className="h-6 w-6" />;
     }
@@ -176,7 +181,7 @@ export default function LibraryPage() {
                         showLegend={chart.config?.showLegend || false}
                         showAxisLabels={false}
                         colorScheme={chart.config?.colorScheme || 'default'}
-                        aggregation={chart.config?.aggregation || 'none'}
+                        aggregation={chart.config?.dataAggregation || 'none'}
                         hideDots={true}
                         {...(chart.config?.stacked !== undefined && {
                           stacked: chart.config.stacked,
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchMembers,
+  membersQueryKey,
+  updateMemberRole,
+  type AppRole,
+  type Member,
+} from '@/lib/permissions';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { RequirePermission } from '@/components/require-permission';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Constants } from '@/types/database';
+import { Search, Users } from 'lucide-react';
+
+export default function MembersPage() {
+  return (
+    <RequirePermission permission="manageMembers">
+      <MembersManager />
+    </RequirePermission>
+  );
+}
+
+function MembersManager() {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const { data: currentUser } = useCurrentUser();
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const { data: members, isLoading } = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: fetchMembers,
+  });
+
+  const { mutate: updateRole, isPending: isUpdating } = useMutation({
+    mutationFn: ({ member, role }: { member: Member; role: AppRole }) =>
+      updateMemberRole(member.id, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersQueryKey });
+      toast({ title: t('members.roleUpdated') });
+    },
+    onError: error => {
+      toast({
+        title: t('members.updateError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredMembers = members?.filter(member => {
+    const query = searchQuery.toLowerCase();
+    return (
+      (member.email ?? '').toLowerCase().includes(query) ||
+      (member.full_name ?? '').toLowerCase().includes(query)
+    );
+  });
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{t('members.title')}</h1>
+          <p className="text-base text-muted-foreground">{t('members.description')}</p>
+        </div>
+        <div className="relative mt-2 max-w-md">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder={t('members.searchPlaceholder')}
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-10"
+            aria-label={t('members.searchPlaceholder')}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('members.roles.title')}</CardTitle>
+          <CardDescription>{t('members.roles.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : filteredMembers && filteredMembers.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('members.columns.email')}</TableHead>
+                    <TableHead>{t('members.columns.name')}</TableHead>
+                    <TableHead className="w-[200px]">{t('members.columns.role')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredMembers.map(member => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">{member.email}</TableCell>
+                      <TableCell>{member.full_name}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.membership?.role ?? ''}
+                          onValueChange={value => updateRole({ member, role: value as AppRole })}
+                          // Admins can't demote themselves, another admin has to
+                          disabled={isUpdating || member.id === currentUser?.id}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder={t('members.noRole')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Constants.public.Enums.app_role.map(role => (
+                              <SelectItem key={role} value={role}>
+                                {t(`members.roles.${role}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <Users className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('members.noMembers')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,17 +5,19 @@ import { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import supabaseClient from '@/lib/supabase-client';
-import { Tables } from '@/types/database';
+import { trashMetric, trashQueryKey } from '@/lib/trash';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   BarChart2,
   Folder,
+  FolderTree,
   FileText,
   Grid,
   List,
   InfoIcon,
   CalendarIcon,
+  CalendarRange,
+  MapPin,
   Search,
   Trash2,
 } from 'lucide-react';
@@ -38,12 +40,21 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-
-type MetricWithStats = Tables<'metrics'> & {
-  source: Tables<'sources'> | null;
-  data_count: number;
-  last_data_point: string | null;
-};
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission } from '@/lib/permissions';
+import { hasAllTags } from '@/lib/tags';
+import {
+  categoriesQueryKey,
+  fetchCategories,
+  getCategoryPath,
+  type CategoryWithUsage,
+} from '@/lib/categories';
+import { TagFilter } from '@/components/tag-filter';
+import {
+  metricsWithStatsQueryKey,
+  MetricWithStats,
+  useMetricsWithStats,
+} from '@/hooks/use-metrics-with-stats';
 
 export default function MetricTreePage() {
   const t = useTranslations();
@@ -52,102 +63,36 @@ export default function MetricTreePage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  // Metrics nested below their parent metric, or grouped by category
+  const [view, setView] = useState<'tree' | 'categories'>('tree');
   const [selectedMetric, setSelectedMetric] = useState<MetricWithStats | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const { data: currentUser } = useCurrentUser();
+  const canEditMetrics = hasPermission(currentUser?.role, 'editMetrics');
+  const canDelete = hasPermission(currentUser?.role, 'delete');
 
   // Fetch metrics data with stats
-  const { data: metrics, isLoading } = useQuery({
-    queryKey: ['metrics-with-stats-tree'],
-    queryFn: async () => {
-      // Get all metrics
-      const { data: metricsData, error: metricsError } = await supabaseClient
-        .from('metrics')
-        .select('*');
-
-      if (metricsError) throw metricsError;
-
-      // For each metric, get count and latest data point
-      const metricsWithStats = await Promise.all(
-        metricsData.map(async metric => {
-          // Get count of data points
-          const { count, error: countError } = await supabaseClient
-            .from('metric_data')
-            .select('*', { count: 'exact', head: true })
-            .eq('metric_id', metric.id);
-
-          if (countError) throw countError;
-
-          // Get latest data point
-          const { data: latestData, error: latestError } = await supabaseClient
-            .from('metric_data')
-            .select('date')
-            .eq('metric_id', metric.id)
-            .order('date', { ascending: false })
-            .limit(1);
-
-          if (latestError) throw latestError;
-
-          // Get source info if available
-          let source = null;
-
-          // Check if metadata exists and is an object containing source_id
-          if (
-            metric.metadata &&
-            typeof metric.metadata === 'object' &&
-            metric.metadata !== null &&
-            'source_id' in metric.metadata
-          ) {
-            const sourceId = (metric.metadata as { source_id: string }).source_id;
-
-            if (sourceId) {
-              const { data: sourceData, error: sourceError } = await supabaseClient
-                .from('sources')
-                .select('*')
-                .eq('id', sourceId)
-                .maybeSingle();
-
-              if (!sourceError) {
-                source = sourceData;
-              }
-            }
-          }
-
-          return {
-            ...metric,
-            source,
-            data_count: count || 0,
-            last_data_point: latestData && latestData.length > 0 ? latestData[0].date : null,
-          } as MetricWithStats;
-        })
-      );
-
-      return metricsWithStats;
-    },
+  const { data: metrics, isLoading: isLoadingMetrics } = useMetricsWithStats();
+
+  const { data: categories, isLoading: isLoadingCategories } = useQuery({
+    queryKey: categoriesQueryKey,
+    queryFn: fetchCategories,
   });
 
+  const isLoading = isLoadingMetrics || isLoadingCategories;
+
   // Function to delete a metric and its data
   const deleteMetric = async (metricId: string) => {
     try {
       setIsDeleting(true);
 
-      // First delete all associated data points
-      const { error: dataError } = await supabaseClient
-        .from('metric_data')
-        .delete()
-        .eq('metric_id', metricId);
-
-      if (dataError) throw dataError;
-
-      // Then delete the metric itself
-      const { error: metricError } = await supabaseClient
-        .from('metrics')
-        .delete()
-        .eq('id', metricId);
-
-      if (metricError) throw metricError;
+      // The metric and its data stay in the trash until they are purged
+      await trashMetric(metricId);
 
       // Invalidate the query to refresh the data
-      queryClient.invalidateQueries({ queryKey: ['metrics-with-stats-tree'] });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      queryClient.invalidateQueries({ queryKey: trashQueryKey });
 
       // Reset selected metric
       setSelectedMetric(null);
@@ -230,15 +175,71 @@ export default function MetricTreePage() {
     });
   };
 
+  // Function to group metrics into the category tree, hiding categories without metrics
+  const transformCategoriesToTree = (
+    metrics: MetricWithStats[] | undefined,
+    categories: CategoryWithUsage[] | undefined
+  ): TreeDataItem[] => {
+    if (!metrics || !categories) return [];
+
+    const categoryIds = new Set(categories.map(category => category.id));
+    const toLeaf = (metric: MetricWithStats): TreeDataItem => ({
+      id: metric.id,
+      name: metric.name,
+      icon: FileText,
+      selectedIcon: FileText,
+      openIcon: FileText,
+    });
+
+    const buildCategory = (category: CategoryWithUsage): TreeDataItem | null => {
+      const children = [
+        ...categories
+          .filter(child => child.parent_id === category.id)
+          .map(buildCategory)
+          .filter((child): child is TreeDataItem => child !== null),
+        ...metrics.filter(metric => metric.category_id === category.id).map(toLeaf),
+      ];
+      if (children.length === 0) return null;
+
+      // Prefixed so that selecting a category never matches a metric
+      return { id: `category:${category.id}`, name: category.name, icon: Folder, children };
+    };
+
+    const tree = categories
+      .filter(category => !category.parent_id || !categoryIds.has(category.parent_id))
+      .map(buildCategory)
+      .filter((item): item is TreeDataItem => item !== null);
+
+    const uncategorized = metrics.filter(
+      metric => !metric.category_id || !categoryIds.has(metric.category_id)
+    );
+    if (uncategorized.length > 0) {
+      tree.push({
+        id: 'category:none',
+        name: t('metrics.explorer.uncategorized'),
+        icon: Folder,
+        children: uncategorized.map(toLeaf),
+      });
+    }
+
+    return tree;
+  };
+
   // Filter metrics based on search query
-  const filteredMetrics = metrics?.filter(
+  const searchedMetrics = metrics?.filter(
     metric =>
       metric.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       metric.description?.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const filteredMetrics = searchedMetrics?.filter(metric =>
+    hasAllTags(metric.tags, selectedTagIds)
+  );
 
   // Convert filtered metrics to tree structure
-  const treeData = transformMetricsToTree(filteredMetrics);
+  const treeData =
+    view === 'categories'
+      ? transformCategoriesToTree(filteredMetrics, categories)
+      : transformMetricsToTree(filteredMetrics);
 
   // Navigate to metric detail page
   const handleMetricClick = (metricId: string) => {
@@ -259,7 +260,11 @@ export default function MetricTreePage() {
             <h1 className="mb-1 text-3xl font-bold tracking-tight">
               {t('metrics.explorer.title')}
             </h1>
-            <p className="text-base text-muted-foreground">{t('metrics.explorer.treeView')}</p>
+            <p className="text-base text-muted-foreground">
+              {view === 'categories'
+                ? t('metrics.explorer.categoryView')
+                : t('metrics.explorer.treeView')}
+            </p>
           </div>
           <div className="flex gap-2">
             <Button
@@ -274,12 +279,23 @@ export default function MetricTreePage() {
             <Button
               variant="outline"
               size="sm"
-              className="active"
+              className={view === 'tree' ? 'active' : undefined}
+              onClick={() => setView('tree')}
               title={t('metrics.explorer.treeView')}
               aria-label={t('metrics.explorer.treeView')}
             >
               <List className="h-4 w-4" />
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className={view === 'categories' ? 'active' : undefined}
+              onClick={() => setView('categories')}
+              title={t('metrics.explorer.categoryView')}
+              aria-label={t('metrics.explorer.categoryView')}
+            >
+              <FolderTree className="h-4 w-4" />
+            </Button>
           </div>
         </div>
         <div className="relative max-w-md">
@@ -292,6 +308,11 @@ export default function MetricTreePage() {
             aria-label={t('metrics.explorer.searchPlaceholder')}
           />
         </div>
+        <TagFilter
+          itemTags={searchedMetrics?.map(metric => metric.tags) ?? []}
+          selectedTagIds={selectedTagIds}
+          onSelectedTagIdsChange={setSelectedTagIds}
+        />
       </div>
 
       {/* Main Content Section */}
@@ -303,6 +324,7 @@ export default function MetricTreePage() {
             <CardContent className="flex flex-col gap-8 p-6 md:flex-row">
               <div className="min-w-[250px] max-w-xs flex-1">
                 <TreeView
+                  key={view}
                   data={treeData}
                   defaultNodeIcon={Folder}
                   defaultLeafIcon={FileText}
@@ -343,6 +365,15 @@ export default function MetricTreePage() {
                         <p className="mb-2 text-sm text-muted-foreground">
                           {selectedMetric.description || t('metrics.explorer.noDescription')}
                         </p>
+                        {selectedMetric.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {selectedMetric.tags.map(tag => (
+                              <Badge key={tag.id} variant="secondary">
+                                {tag.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                         <div className="mt-2 flex flex-wrap items-center gap-4">
                           <div className="flex items-center text-sm">
                             <InfoIcon className="mr-2 h-3 w-3" />
@@ -351,18 +382,49 @@ export default function MetricTreePage() {
                               {selectedMetric.source?.name || t('metrics.explorer.noSource')}
                             </span>
                           </div>
+                          {selectedMetric.category_id && (
+                            <div className="flex items-center text-sm">
+                              <FolderTree className="mr-2 h-3 w-3" />
+                              <span>
+                                {getCategoryPath(selectedMetric.category_id, categories ?? [])
+                                  .map(category => category.name)
+                                  .join(' › ')}
+                              </span>
+                            </div>
+                          )}
                           <div className="flex items-center text-sm">
                             <BarChart2 className="mr-2 h-3 w-3" />
                             <span>
                               {selectedMetric.data_count} {t('metrics.explorer.dataPoints')}
                             </span>
                           </div>
-                          {selectedMetric.last_data_point && (
+                          {selectedMetric.region_count > 0 && (
+                            <div className="flex items-center text-sm">
+                              <MapPin className="mr-2 h-3 w-3" />
+                              <span>
+                                {t('metrics.explorer.regionCount', {
+                                  count: selectedMetric.region_count,
+                                })}
+                              </span>
+                            </div>
+                          )}
+                          {selectedMetric.first_date && selectedMetric.last_date && (
+                            <div className="flex items-center text-sm">
+                              <CalendarRange className="mr-2 h-3 w-3" />
+                              <span>
+                                {t('metrics.explorer.dateCoverage', {
+                                  from: selectedMetric.first_date,
+                                  to: selectedMetric.last_date,
+                                })}
+                              </span>
+                            </div>
+                          )}
+                          {selectedMetric.last_date && (
                             <div className="flex items-center text-sm">
                               <CalendarIcon className="mr-2 h-3 w-3" />
                               <span>
                                 {t('metrics.explorer.lastUpdated', {
-                                  time: formatDate(new Date(selectedMetric.last_data_point)),
+                                  time: formatDate(new Date(selectedMetric.last_date)),
                                 })}
                               </span>
                             </div>
@@ -383,54 +445,58 @@ export default function MetricTreePage() {
                           >
                             {t('metrics.explorer.viewData')}
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => router.push(`/explorer/${selectedMetric.id}/edit`)}
-                            aria-label={t('metrics.explorer.edit')}
-                          >
-                            {t('metrics.explorer.edit')}
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                aria-label={t('metrics.explorer.delete')}
-                                disabled={isDeleting}
-                              >
-                                <Trash2 className="mr-1 h-3 w-3" />
-                                {t('metrics.explorer.delete')}
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>
-                                  {t('metrics.explorer.deleteConfirmTitle')}
-                                </AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  {t('metrics.explorer.deleteConfirmDescription', {
-                                    name: selectedMetric.name,
-                                  })}
-                                  <br />
-                                  {selectedMetric.data_count > 0 &&
-                                    t('metrics.explorer.deleteConfirmDataCount', {
-                                      count: selectedMetric.data_count,
-                                    })}
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
-                                <AlertDialogAction
-                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                  onClick={() => deleteMetric(selectedMetric.id)}
+                          {canEditMetrics && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => router.push(`/explorer/${selectedMetric.id}/edit`)}
+                              aria-label={t('metrics.explorer.edit')}
+                            >
+                              {t('metrics.explorer.edit')}
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  aria-label={t('metrics.explorer.delete')}
                                   disabled={isDeleting}
                                 >
-                                  {isDeleting ? t('common.deleting') : t('common.delete')}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                                  <Trash2 className="mr-1 h-3 w-3" />
+                                  {t('metrics.explorer.delete')}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>
+                                    {t('metrics.explorer.deleteConfirmTitle')}
+                                  </AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {t('metrics.explorer.deleteConfirmDescription', {
+                                      name: selectedMetric.name,
+                                    })}
+                                    <br />
+                                    {selectedMetric.data_count > 0 &&
+                                      t('metrics.explorer.deleteConfirmDataCount', {
+                                        count: selectedMetric.data_count,
+                                      })}
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    onClick={() => deleteMetric(selectedMetric.id)}
+                                    disabled={isDeleting}
+                                  >
+                                    {isDeleting ? t('common.deleting') : t('common.delete')}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </div>
                     </CardContent>
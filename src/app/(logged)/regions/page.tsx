@@ -0,0 +1,454 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import supabaseClient from '@/lib/supabase-client';
+import {
+  createRegionAlias,
+  fetchRegionsWithAliases,
+  getRegionDescendantIds,
+  regionTreeQueryKey,
+  regionsWithAliasesQueryKey,
+  updateRegionHierarchy,
+  type RegionNode,
+} from '@/lib/regions';
+import {
+  parseGeometryFile,
+  regionGeometriesQueryKey,
+  updateRegionGeometry,
+  type GeometryFeature,
+} from '@/lib/geometry';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { MapPin, Plus, Search, Upload, X } from 'lucide-react';
+import { RequirePermission } from '@/components/require-permission';
+
+const REGION_LEVELS: RegionNode['level'][] = ['country', 'region', 'department'];
+
+export default function RegionsPage() {
+  return (
+    <RequirePermission permission="manageRegions">
+      <RegionsManager />
+    </RequirePermission>
+  );
+}
+
+function RegionsManager() {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [newAliases, setNewAliases] = useState<Record<string, string>>({});
+  const boundariesInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: regions, isLoading } = useQuery({
+    queryKey: regionsWithAliasesQueryKey,
+    queryFn: fetchRegionsWithAliases,
+  });
+
+  const { mutate: addAlias, isPending: isAdding } = useMutation({
+    mutationFn: ({ regionId, alias }: { regionId: string; alias: string }) =>
+      createRegionAlias(regionId, alias),
+    onSuccess: (_, { regionId }) => {
+      setNewAliases(prev => ({ ...prev, [regionId]: '' }));
+      queryClient.invalidateQueries({ queryKey: regionsWithAliasesQueryKey });
+    },
+    onError: (error: { code?: string; message: string }) => {
+      toast({
+        title: t('regions.aliases.addError'),
+        // 23505: unique violation, the alias already points to a region
+        description: error.code === '23505' ? t('regions.aliases.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: updateHierarchy } = useMutation({
+    mutationFn: ({
+      regionId,
+      values,
+    }: {
+      regionId: string;
+      values: Parameters<typeof updateRegionHierarchy>[1];
+    }) => updateRegionHierarchy(regionId, values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: regionsWithAliasesQueryKey });
+      queryClient.invalidateQueries({ queryKey: regionTreeQueryKey });
+    },
+    onError: error => {
+      toast({
+        title: t('regions.hierarchy.updateError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Features are matched to a region when one of their properties is its code, name or an alias
+  const { mutate: importBoundaries, isPending: isImportingBoundaries } = useMutation({
+    mutationFn: async (features: GeometryFeature[]) => {
+      const labels = new Map<string, string>();
+      regions?.forEach(region =>
+        [region.code, region.name, ...region.aliases.map(alias => alias.alias)].forEach(label =>
+          labels.set(label.trim().toLowerCase(), region.id)
+        )
+      );
+
+      const matches = features.flatMap(feature => {
+        const regionId = Object.values(feature.properties)
+          .filter(value => typeof value === 'string' || typeof value === 'number')
+          .map(value => labels.get(String(value).trim().toLowerCase()))
+          .find(Boolean);
+        return regionId ? [{ regionId, geometry: feature.geometry }] : [];
+      });
+
+      await Promise.all(
+        matches.map(({ regionId, geometry }) => updateRegionGeometry(regionId, geometry))
+      );
+      return { matched: matches.length, total: features.length };
+    },
+    onSuccess: ({ matched, total }) => {
+      toast({
+        title: t('regions.boundaries.imported'),
+        description: t('regions.boundaries.importedDescription', { matched, total }),
+      });
+      queryClient.invalidateQueries({ queryKey: regionsWithAliasesQueryKey });
+      queryClient.invalidateQueries({ queryKey: regionGeometriesQueryKey });
+    },
+    onError: error => {
+      toast({
+        title: t('regions.boundaries.importError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleBoundariesFile = async (file: File) => {
+    try {
+      const features = parseGeometryFile(JSON.parse(await file.text()));
+      if (!features.length) {
+        toast({ title: t('regions.boundaries.noFeatures'), variant: 'destructive' });
+        return;
+      }
+      importBoundaries(features);
+    } catch (error) {
+      toast({
+        title: t('regions.boundaries.importError'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const { mutate: deleteAlias } = useMutation({
+    mutationFn: async (aliasId: string) => {
+      const { error } = await supabaseClient.from('region_aliases').delete().eq('id', aliasId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: regionsWithAliasesQueryKey });
+    },
+    onError: error => {
+      toast({
+        title: t('regions.aliases.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Search matches the region code, name and aliases
+  const filteredRegions = regions?.filter(region => {
+    const query = searchQuery.toLowerCase();
+    return (
+      region.name.toLowerCase().includes(query) ||
+      region.code.toLowerCase().includes(query) ||
+      region.aliases.some(alias => alias.alias.toLowerCase().includes(query))
+    );
+  });
+
+  // A region can't be attached below itself or one of its descendants
+  const getParentOptions = (regionId: string) => {
+    const excluded = new Set(getRegionDescendantIds([regionId], regions ?? []));
+    return (regions ?? []).filter(region => !excluded.has(region.id));
+  };
+
+  const handlePopulationChange = (region: RegionNode, value: string) => {
+    const population = value.trim() === '' ? null : Number(value);
+    if (
+      population !== region.population &&
+      (population === null || (Number.isInteger(population) && population >= 0))
+    ) {
+      updateHierarchy({ regionId: region.id, values: { population } });
+    }
+  };
+
+  const handleAddAlias = (regionId: string) => {
+    const alias = newAliases[regionId]?.trim();
+    if (alias) {
+      addAlias({ regionId, alias });
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{t('regions.title')}</h1>
+          <p className="text-base text-muted-foreground">{t('regions.description')}</p>
+        </div>
+        <div className="relative mt-2 max-w-md">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder={t('regions.searchPlaceholder')}
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-10"
+            aria-label={t('regions.searchPlaceholder')}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('regions.aliases.title')}</CardTitle>
+          <CardDescription>{t('regions.aliases.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : filteredRegions && filteredRegions.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('regions.columns.code')}</TableHead>
+                    <TableHead>{t('regions.columns.name')}</TableHead>
+                    <TableHead>{t('regions.columns.aliases')}</TableHead>
+                    <TableHead className="w-[280px]">{t('regions.columns.addAlias')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRegions.map(region => (
+                    <TableRow key={region.id}>
+                      <TableCell className="font-mono text-sm">{region.code}</TableCell>
+                      <TableCell className="font-medium">{region.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {region.aliases.map(alias => (
+                            <Badge key={alias.id} variant="secondary" className="gap-1">
+                              {alias.alias}
+                              <button
+                                type="button"
+                                onClick={() => deleteAlias(alias.id)}
+                                title={t('regions.aliases.delete')}
+                                className="rounded-sm opacity-60 hover:opacity-100"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <form
+                          className="flex gap-2"
+                          onSubmit={e => {
+                            e.preventDefault();
+                            handleAddAlias(region.id);
+                          }}
+                        >
+                          <Input
+                            className="h-8"
+                            value={newAliases[region.id] ?? ''}
+                            onChange={e =>
+                              setNewAliases(prev => ({ ...prev, [region.id]: e.target.value }))
+                            }
+                            placeholder={t('regions.aliases.placeholder')}
+                          />
+                          <Button
+                            type="submit"
+                            size="icon"
+                            variant="outline"
+                            className="h-8 w-8 shrink-0"
+                            disabled={isAdding || !newAliases[region.id]?.trim()}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <MapPin className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('regions.noRegions')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{t('regions.hierarchy.title')}</CardTitle>
+            <CardDescription>{t('regions.hierarchy.description')}</CardDescription>
+          </div>
+          <input
+            ref={boundariesInputRef}
+            type="file"
+            accept=".json,.geojson,.topojson"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleBoundariesFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button
+            variant="outline"
+            disabled={isLoading || isImportingBoundaries}
+            onClick={() => boundariesInputRef.current?.click()}
+            title={t('regions.boundaries.help')}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {isImportingBoundaries
+              ? t('regions.boundaries.importing')
+              : t('regions.boundaries.import')}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : filteredRegions && filteredRegions.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('regions.columns.code')}</TableHead>
+                    <TableHead>{t('regions.columns.name')}</TableHead>
+                    <TableHead className="w-[180px]">{t('regions.columns.level')}</TableHead>
+                    <TableHead className="w-[240px]">{t('regions.columns.parent')}</TableHead>
+                    <TableHead className="w-[180px]">{t('regions.columns.population')}</TableHead>
+                    <TableHead>{t('regions.columns.boundary')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRegions.map(region => (
+                    <TableRow key={region.id}>
+                      <TableCell className="font-mono text-sm">{region.code}</TableCell>
+                      <TableCell className="font-medium">{region.name}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={region.level}
+                          onValueChange={value =>
+                            updateHierarchy({
+                              regionId: region.id,
+                              values: { level: value as RegionNode['level'] },
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {REGION_LEVELS.map(level => (
+                              <SelectItem key={level} value={level}>
+                                {t(`regions.levels.${level}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={region.parent_id ?? 'none'}
+                          onValueChange={value =>
+                            updateHierarchy({
+                              regionId: region.id,
+                              values: { parent_id: value === 'none' ? null : value },
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">{t('regions.hierarchy.noParent')}</SelectItem>
+                            {getParentOptions(region.id).map(parent => (
+                              <SelectItem key={parent.id} value={parent.id}>
+                                {parent.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          key={region.population ?? 'empty'}
+                          type="number"
+                          min={0}
+                          className="h-8"
+                          defaultValue={region.population ?? ''}
+                          onBlur={e => handlePopulationChange(region, e.target.value)}
+                          placeholder={t('regions.hierarchy.populationPlaceholder')}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {region.geometry ? (
+                          <Badge variant="secondary">{t('regions.boundaries.available')}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {t('regions.boundaries.missing')}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <MapPin className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('regions.noRegions')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  fetchPublicationReviewItems,
+  fetchPublicationReviews,
+  publicationReviewsQueryKey,
+  reviewPublication,
+  type PublicationReview,
+  type PublicationReviewItem,
+  type PublicationReviewStatus,
+} from '@/lib/reviews';
+import { formatPeriod } from '@/lib/periods';
+import { hasPermission } from '@/lib/permissions';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { RequirePermission } from '@/components/require-permission';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+
+const STATUS_VARIANTS: Record<PublicationReviewStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'secondary',
+};
+
+const formatValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function ReviewsPage() {
+  return (
+    <RequirePermission permission="editDrafts">
+      <ReviewQueue />
+    </RequirePermission>
+  );
+}
+
+function ReviewQueue() {
+  const t = useTranslations();
+  const locale = useLocale();
+  const [tab, setTab] = useState<'pending' | 'history'>('pending');
+  const [selectedReviewId, setSelectedReviewId] = useState<string | null>(null);
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: publicationReviewsQueryKey,
+    queryFn: fetchPublicationReviews,
+  });
+
+  const displayedReviews = reviews?.filter(review =>
+    tab === 'pending' ? review.status === 'pending' : review.status !== 'pending'
+  );
+  const selectedReview = reviews?.find(review => review.id === selectedReviewId) ?? null;
+
+  const formatDate = (date: string) =>
+    formatDistanceToNow(new Date(date), {
+      addSuffix: true,
+      locale: locale === 'fr' ? fr : undefined,
+    });
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{t('reviews.title')}</h1>
+          <p className="text-base text-muted-foreground">{t('reviews.description')}</p>
+        </div>
+        <Tabs value={tab} onValueChange={value => setTab(value as 'pending' | 'history')}>
+          <TabsList>
+            <TabsTrigger value="pending">{t('reviews.tabs.pending')}</TabsTrigger>
+            <TabsTrigger value="history">{t('reviews.tabs.history')}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : displayedReviews && displayedReviews.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('reviews.columns.metric')}</TableHead>
+                    <TableHead>{t('reviews.columns.points')}</TableHead>
+                    <TableHead>{t('reviews.columns.submittedBy')}</TableHead>
+                    <TableHead>{t('reviews.columns.submittedAt')}</TableHead>
+                    <TableHead>{t('common.status')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {displayedReviews.map(review => (
+                    <TableRow
+                      key={review.id}
+                      className={`cursor-pointer ${review.id === selectedReviewId ? 'bg-accent' : ''}`}
+                      onClick={() => setSelectedReviewId(review.id)}
+                    >
+                      <TableCell className="font-medium">{review.metric?.name}</TableCell>
+                      <TableCell>{review.items[0]?.count ?? 0}</TableCell>
+                      <TableCell>
+                        {review.submitter?.full_name || review.submitter?.email || '—'}
+                      </TableCell>
+                      <TableCell>{formatDate(review.submitted_at)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[review.status]}>
+                          {t(`reviews.status.${review.status}`)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <ClipboardCheck className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {tab === 'pending' ? t('reviews.noPending') : t('reviews.noHistory')}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedReview && (
+        <ReviewDetail
+          key={selectedReview.id}
+          review={selectedReview}
+          formatDate={formatDate}
+          onReviewed={() => setSelectedReviewId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function ReviewDetail({
+  review,
+  formatDate,
+  onReviewed,
+}: {
+  review: PublicationReview;
+  formatDate: (date: string) => string;
+  onReviewed: () => void;
+}) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const { data: currentUser } = useCurrentUser();
+  const canPublish = hasPermission(currentUser?.role, 'publish');
+  const [comment, setComment] = useState('');
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: [...publicationReviewsQueryKey, review.id, 'items'],
+    queryFn: () => fetchPublicationReviewItems(review.id),
+  });
+
+  const { mutate: decide, isPending } = useMutation({
+    mutationFn: (approve: boolean) => reviewPublication(review.id, approve, comment),
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: publicationReviewsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['metric-data', review.metric_id] });
+      toast({
+        title: result.status === 'approved' ? t('reviews.approved') : t('reviews.rejected'),
+        description:
+          result.status === 'approved'
+            ? t('reviews.approvedDescription', {
+                published: result.published,
+                skipped: result.skipped,
+              })
+            : undefined,
+      });
+      onReviewed();
+    },
+    onError: error => {
+      toast({
+        title: t('reviews.reviewError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const frequency = review.metric?.frequency ?? 'annual';
+  const unit = review.metric?.unit ?? '';
+
+  // Points changed after the submission aren't published with the review
+  const isEditedSinceSubmission = (item: PublicationReviewItem) =>
+    review.status === 'pending' &&
+    (item.metric_data.status !== 'draft' || Number(item.metric_data.value) !== Number(item.value));
+
+  const renderChange = (item: PublicationReviewItem) => {
+    if (item.published_value === null) {
+      return <Badge variant="outline">{t('reviews.diff.new')}</Badge>;
+    }
+    const difference = Number(item.value) - Number(item.published_value);
+    if (difference === 0) {
+      return <span className="text-muted-foreground">{t('reviews.diff.unchanged')}</span>;
+    }
+    const percentage =
+      Number(item.published_value) !== 0
+        ? ` (${difference > 0 ? '+' : ''}${formatValue((difference / Math.abs(Number(item.published_value))) * 100)} %)`
+        : '';
+    return (
+      <span className={difference > 0 ? 'text-green-600' : 'text-red-600'}>
+        {difference > 0 ? '+' : ''}
+        {formatValue(difference)}
+        {percentage}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{review.metric?.name}</CardTitle>
+        <CardDescription>
+          {t('reviews.submittedBy', {
+            name: review.submitter?.full_name || review.submitter?.email || '—',
+            time: formatDate(review.submitted_at),
+          })}
+        </CardDescription>
+        {review.submission_comment && (
+          <p className="mt-2 rounded-md bg-muted p-3 text-sm">{review.submission_comment}</p>
+        )}
+        {review.reviewed_at && (
+          <div className="mt-2 text-sm">
+            <p className="text-muted-foreground">
+              {t('reviews.reviewedBy', {
+                status: t(`reviews.status.${review.status}`),
+                name: review.reviewer?.full_name || review.reviewer?.email || '—',
+                time: formatDate(review.reviewed_at),
+              })}
+            </p>
+            {review.review_comment && (
+              <p className="mt-2 rounded-md bg-muted p-3">{review.review_comment}</p>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="max-h-[480px] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('reviews.diff.region')}</TableHead>
+                  <TableHead>{t('reviews.diff.period')}</TableHead>
+                  <TableHead className="text-right">{t('reviews.diff.published')}</TableHead>
+                  <TableHead className="text-right">{t('reviews.diff.submitted')}</TableHead>
+                  <TableHead className="text-right">{t('reviews.diff.change')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items?.map(item => (
+                  <TableRow key={item.metric_data_id}>
+                    <TableCell>
+                      {item.metric_data.region?.name ?? t('reviews.diff.global')}
+                    </TableCell>
+                    <TableCell>{formatPeriod(item.metric_data.date, frequency)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {item.published_value === null
+                        ? '—'
+                        : `${formatValue(Number(item.published_value))} ${unit}`}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatValue(Number(item.value))} {unit}
+                      {isEditedSinceSubmission(item) && (
+                        <Badge variant="secondary" className="ml-2">
+                          {t('reviews.diff.editedSinceSubmission')}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{renderChange(item)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {review.status === 'pending' && canPublish && (
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">{t('reviews.reviewComment')}</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              placeholder={t('reviews.reviewCommentPlaceholder')}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => decide(false)}
+                disabled={isPending || !comment.trim()}
+                title={!comment.trim() ? t('reviews.rejectNeedsComment') : undefined}
+              >
+                <X className="mr-2 h-4 w-4" />
+                {t('reviews.reject')}
+              </Button>
+              <Button onClick={() => decide(true)} disabled={isPending}>
+                <Check className="mr-2 h-4 w-4" />
+                {t('reviews.approve')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createSource,
+  deleteSource,
+  fetchSources,
+  formatCitation,
+  sourcesQueryKey,
+  updateSource,
+  type SourceInput,
+  type SourceWithUsage,
+} from '@/lib/sources';
+import { metricsWithStatsQueryKey } from '@/hooks/use-metrics-with-stats';
+import { RequirePermission } from '@/components/require-permission';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { BookOpen, ExternalLink, PencilIcon, Plus, Trash2 } from 'lucide-react';
+
+const EMPTY_SOURCE: SourceInput = {
+  name: '',
+  description: null,
+  publisher: null,
+  url: null,
+  license: null,
+  citation_template: null,
+};
+
+export default function SourcesPage() {
+  return (
+    <RequirePermission permission="editMetrics">
+      <SourcesManager />
+    </RequirePermission>
+  );
+}
+
+function SourcesManager() {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  // Source being created or edited, new sources have no id
+  const [editingSource, setEditingSource] = useState<(SourceInput & { id?: string }) | null>(null);
+  const [sourceToDelete, setSourceToDelete] = useState<SourceWithUsage | null>(null);
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: sourcesQueryKey,
+    queryFn: fetchSources,
+  });
+
+  const { mutate: remove, isPending: isDeleting } = useMutation({
+    mutationFn: (source: SourceWithUsage) => deleteSource(source.id),
+    onSuccess: (_, source) => {
+      queryClient.invalidateQueries({ queryKey: sourcesQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      setSourceToDelete(null);
+      toast({ title: t('sources.deleted', { name: source.name }) });
+    },
+    onError: error => {
+      toast({
+        title: t('sources.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">{t('sources.title')}</h1>
+            <p className="text-base text-muted-foreground">{t('sources.description')}</p>
+          </div>
+          <Button onClick={() => setEditingSource(EMPTY_SOURCE)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('sources.add')}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : sources && sources.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('sources.fields.name')}</TableHead>
+                    <TableHead>{t('sources.fields.publisher')}</TableHead>
+                    <TableHead>{t('sources.fields.license')}</TableHead>
+                    <TableHead>{t('sources.columns.citation')}</TableHead>
+                    <TableHead>{t('sources.columns.usage')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sources.map(source => (
+                    <TableRow key={source.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-1 font-medium">
+                          {source.name}
+                          {source.url && (
+                            <a
+                              href={source.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                              <span className="sr-only">{source.url}</span>
+                            </a>
+                          )}
+                        </div>
+                        {source.description && (
+                          <p className="text-xs text-muted-foreground">{source.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{source.publisher || '—'}</TableCell>
+                      <TableCell>{source.license || '—'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatCitation(source)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {t('sources.usage', {
+                          metrics: source.metric_count,
+                          files: source.file_count,
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setEditingSource(source)}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                            <span className="sr-only">{t('common.edit')}</span>
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setSourceToDelete(source)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">{t('common.delete')}</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <BookOpen className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('sources.empty')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingSource && (
+        <SourceDialog source={editingSource} onClose={() => setEditingSource(null)} />
+      )}
+
+      <AlertDialog open={!!sourceToDelete} onOpenChange={open => !open && setSourceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('sources.deleteConfirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {sourceToDelete &&
+                t('sources.deleteConfirmDescription', {
+                  name: sourceToDelete.name,
+                  metrics: sourceToDelete.metric_count,
+                  files: sourceToDelete.file_count,
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => sourceToDelete && remove(sourceToDelete)}
+              disabled={isDeleting}
+            >
+              {isDeleting ? t('common.deleting') : t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function SourceDialog({
+  source,
+  onClose,
+}: {
+  source: SourceInput & { id?: string };
+  onClose: () => void;
+}) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<SourceInput>({
+    name: source.name,
+    description: source.description,
+    publisher: source.publisher,
+    url: source.url,
+    license: source.license,
+    citation_template: source.citation_template,
+  });
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: (input: SourceInput) =>
+      source.id ? updateSource(source.id, input) : createSource(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      toast({ title: t('sources.saved') });
+      onClose();
+    },
+    onError: (error: { code?: string; message: string }) => {
+      toast({
+        title: t('sources.saveError'),
+        // 23505: unique violation, a source already has this name
+        description: error.code === '23505' ? t('sources.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Empty fields are saved as null
+  const input: SourceInput = {
+    name: values.name.trim(),
+    description: values.description?.trim() || null,
+    publisher: values.publisher?.trim() || null,
+    url: values.url?.trim() || null,
+    license: values.license?.trim() || null,
+    citation_template: values.citation_template?.trim() || null,
+  };
+
+  const field = (key: Exclude<keyof SourceInput, 'citation_template' | 'description'>) => (
+    <div className="space-y-2">
+      <Label htmlFor={`source-${key}`}>{t(`sources.fields.${key}`)}</Label>
+      <Input
+        id={`source-${key}`}
+        type={key === 'url' ? 'url' : 'text'}
+        value={values[key] ?? ''}
+        onChange={e => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{source.id ? t('sources.edit') : t('sources.add')}</DialogTitle>
+          <DialogDescription>{t('sources.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          {field('name')}
+          <div className="space-y-2">
+            <Label htmlFor="source-description">{t('sources.fields.description')}</Label>
+            <Textarea
+              id="source-description"
+              value={values.description ?? ''}
+              onChange={e => setValues(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {field('publisher')}
+            {field('license')}
+          </div>
+          {field('url')}
+          <div className="space-y-2">
+            <Label htmlFor="source-citation">{t('sources.fields.citation_template')}</Label>
+            <Input
+              id="source-citation"
+              placeholder="{publisher}, {name} ({license})"
+              value={values.citation_template ?? ''}
+              onChange={e => setValues(prev => ({ ...prev, citation_template: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">{t('sources.citationHint')}</p>
+          </div>
+          {input.name && (
+            <p className="text-sm">
+              <span className="text-muted-foreground">{t('sources.preview')}</span>{' '}
+              {formatCitation(input)}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => save(input)} disabled={isPending || !input.name}>
+            {isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createTag,
+  deleteTag,
+  fetchTags,
+  renameTag,
+  tagsQueryKey,
+  type TagWithUsage,
+} from '@/lib/tags';
+import { metricsWithStatsQueryKey } from '@/hooks/use-metrics-with-stats';
+import { RequirePermission } from '@/components/require-permission';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { PencilIcon, Plus, Search, Tags, Trash2 } from 'lucide-react';
+
+export default function TagsPage() {
+  return (
+    <RequirePermission permission="editMetrics">
+      <TagsManager />
+    </RequirePermission>
+  );
+}
+
+function TagsManager() {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  // Tag being created or renamed, new tags have no id
+  const [editingTag, setEditingTag] = useState<{ id?: string; name: string } | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<TagWithUsage | null>(null);
+
+  const { data: tags, isLoading } = useQuery({
+    queryKey: tagsQueryKey,
+    queryFn: fetchTags,
+  });
+
+  const { mutate: remove, isPending: isDeleting } = useMutation({
+    mutationFn: (tag: TagWithUsage) => deleteTag(tag.id),
+    onSuccess: (_, tag) => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['files-history'] });
+      setTagToDelete(null);
+      toast({ title: t('tags.deleted', { name: tag.name }) });
+    },
+    onError: error => {
+      toast({
+        title: t('tags.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredTags = tags?.filter(tag =>
+    tag.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">{t('tags.title')}</h1>
+            <p className="text-base text-muted-foreground">{t('tags.description')}</p>
+          </div>
+          <Button onClick={() => setEditingTag({ name: '' })}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('tags.add')}
+          </Button>
+        </div>
+        <div className="relative max-w-md">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder={t('tags.searchPlaceholder')}
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : filteredTags && filteredTags.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('tags.columns.name')}</TableHead>
+                    <TableHead>{t('tags.columns.metrics')}</TableHead>
+                    <TableHead>{t('tags.columns.files')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredTags.map(tag => (
+                    <TableRow key={tag.id}>
+                      <TableCell className="font-medium">{tag.name}</TableCell>
+                      <TableCell>{tag.metric_count}</TableCell>
+                      <TableCell>{tag.file_count}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => setEditingTag(tag)}>
+                            <PencilIcon className="h-4 w-4" />
+                            <span className="sr-only">{t('tags.rename')}</span>
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => setTagToDelete(tag)}>
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">{t('common.delete')}</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <Tags className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('tags.empty')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingTag && <TagDialog tag={editingTag} onClose={() => setEditingTag(null)} />}
+
+      <AlertDialog open={!!tagToDelete} onOpenChange={open => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('tags.deleteConfirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {tagToDelete &&
+                t('tags.deleteConfirmDescription', {
+                  name: tagToDelete.name,
+                  metrics: tagToDelete.metric_count,
+                  files: tagToDelete.file_count,
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => tagToDelete && remove(tagToDelete)}
+              disabled={isDeleting}
+            >
+              {isDeleting ? t('common.deleting') : t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function TagDialog({ tag, onClose }: { tag: { id?: string; name: string }; onClose: () => void }) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(tag.name);
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: async (name: string) => {
+      if (tag.id) await renameTag(tag.id, name);
+      else await createTag(name);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+      queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['files-history'] });
+      toast({ title: t('tags.saved') });
+      onClose();
+    },
+    onError: (error: { code?: string; message: string }) => {
+      toast({
+        title: t('tags.saveError'),
+        // 23505: unique violation, a tag already has this name
+        description: error.code === '23505' ? t('tags.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{tag.id ? t('tags.rename') : t('tags.add')}</DialogTitle>
+          <DialogDescription>{t('tags.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="grid gap-2 py-2"
+          onSubmit={e => {
+            e.preventDefault();
+            if (name.trim()) save(name);
+          }}
+        >
+          <Label htmlFor="tag-name">{t('tags.columns.name')}</Label>
+          <Input id="tag-name" value={name} onChange={e => setName(e.target.value)} autoFocus />
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => save(name)} disabled={isPending || !name.trim()}>
+            {isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
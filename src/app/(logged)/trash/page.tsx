@@ -0,0 +1,311 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  appSettingsQueryKey,
+  fetchAppSettings,
+  fetchTrashItems,
+  purgeTrashItem,
+  restoreTrashItem,
+  trashQueryKey,
+  updateTrashRetention,
+  type TrashItem,
+} from '@/lib/trash';
+import { hasPermission } from '@/lib/permissions';
+import { metricsWithStatsQueryKey } from '@/hooks/use-metrics-with-stats';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { RequirePermission } from '@/components/require-permission';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+
+export default function TrashPage() {
+  return (
+    <RequirePermission permission="editCharts">
+      <Trash />
+    </RequirePermission>
+  );
+}
+
+function Trash() {
+  const t = useTranslations();
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+  const { data: currentUser } = useCurrentUser();
+  const canDelete = hasPermission(currentUser?.role, 'delete');
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [retentionDays, setRetentionDays] = useState<string | null>(null);
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: trashQueryKey,
+    queryFn: fetchTrashItems,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: appSettingsQueryKey,
+    queryFn: fetchAppSettings,
+  });
+
+  // Trashed items come back in the explorer and the library
+  const invalidateLists = () => {
+    queryClient.invalidateQueries({ queryKey: trashQueryKey });
+    queryClient.invalidateQueries({ queryKey: metricsWithStatsQueryKey });
+    queryClient.invalidateQueries({ queryKey: ['charts'] });
+  };
+
+  const { mutate: restore, isPending: isRestoring } = useMutation({
+    mutationFn: (item: TrashItem) => restoreTrashItem(item),
+    onSuccess: (_, item) => {
+      invalidateLists();
+      toast({ title: t('trash.restored', { name: item.name }) });
+    },
+    onError: error => {
+      toast({
+        title: t('trash.restoreError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: purge, isPending: isPurging } = useMutation({
+    mutationFn: (item: TrashItem) => purgeTrashItem(item),
+    onSuccess: (_, item) => {
+      invalidateLists();
+      setItemToPurge(null);
+      toast({ title: t('trash.purged', { name: item.name }) });
+    },
+    onError: error => {
+      toast({
+        title: t('trash.purgeError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: saveRetention, isPending: isSavingRetention } = useMutation({
+    mutationFn: updateTrashRetention,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: appSettingsQueryKey });
+      queryClient.invalidateQueries({ queryKey: trashQueryKey });
+      setRetentionDays(null);
+      toast({ title: t('trash.retention.updated') });
+    },
+    onError: error => {
+      toast({
+        title: t('trash.retention.updateError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string) =>
+    formatDistanceToNow(new Date(date), {
+      addSuffix: true,
+      locale: locale === 'fr' ? fr : undefined,
+    });
+
+  // Restoring and purging metrics is left to admins, like deleting them
+  const canManage = (item: TrashItem) => item.item_type === 'chart' || canDelete;
+
+  const renderDependents = (item: TrashItem) => {
+    if (item.item_type === 'chart') {
+      return item.highlight_count > 0
+        ? t('trash.dependents.highlights', { count: item.highlight_count })
+        : '—';
+    }
+    return (
+      <div className="space-y-1">
+        <p>{t('trash.dependents.dataPoints', { count: item.data_count })}</p>
+        {item.charts.length > 0 && (
+          <p className="text-muted-foreground">
+            {t('trash.dependents.charts', { count: item.charts.length })}{' '}
+            {item.charts.map((chart, index) => (
+              <span key={chart.id}>
+                {index > 0 && ', '}
+                <Link href={`/library/${chart.id}`} className="underline">
+                  {chart.name}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const retentionValue = retentionDays ?? settings?.trash_retention_days.toString() ?? '';
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-4 border-b pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{t('trash.title')}</h1>
+          <p className="text-base text-muted-foreground">
+            {t('trash.description', { days: settings?.trash_retention_days ?? '…' })}
+          </p>
+        </div>
+      </div>
+
+      {canDelete && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('trash.retention.title')}</CardTitle>
+            <CardDescription>{t('trash.retention.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex max-w-sm items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={retentionValue}
+                onChange={e => setRetentionDays(e.target.value)}
+                aria-label={t('trash.retention.title')}
+              />
+              <span className="text-sm text-muted-foreground">{t('trash.retention.days')}</span>
+              <Button
+                onClick={() => saveRetention(parseInt(retentionValue, 10))}
+                disabled={
+                  isSavingRetention || retentionDays === null || !(parseInt(retentionValue, 10) > 0)
+                }
+              >
+                {t('common.save')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : items && items.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('trash.columns.name')}</TableHead>
+                    <TableHead>{t('trash.columns.deleted')}</TableHead>
+                    <TableHead>{t('trash.columns.dependents')}</TableHead>
+                    <TableHead>{t('trash.columns.purge')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <TableRow key={`${item.item_type}-${item.id}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{t(`trash.types.${item.item_type}`)}</Badge>
+                          <span className="font-medium">{item.name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {t('trash.deletedBy', {
+                          name: item.deleter?.full_name || item.deleter?.email || '—',
+                          time: formatDate(item.deleted_at),
+                        })}
+                      </TableCell>
+                      <TableCell>{renderDependents(item)}</TableCell>
+                      <TableCell>{formatDate(item.purge_at)}</TableCell>
+                      <TableCell>
+                        {canManage(item) && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => restore(item)}
+                              disabled={isRestoring}
+                            >
+                              <ArchiveRestore className="mr-2 h-4 w-4" />
+                              {t('trash.restore')}
+                            </Button>
+                            {canDelete && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => setItemToPurge(item)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                {t('trash.purge')}
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+              <Trash2 className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('trash.empty')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!itemToPurge} onOpenChange={open => !open && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('trash.purgeConfirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {itemToPurge &&
+                t('trash.purgeConfirmDescription', {
+                  name: itemToPurge.name,
+                  count: itemToPurge.data_count,
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => itemToPurge && purge(itemToPurge)}
+              disabled={isPurging}
+            >
+              {isPurging ? t('common.deleting') : t('trash.purge')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
 import { Tables } from '@/types/database';
+import { getConfigDateRange } from '@/lib/periods';
+import { chartHighlightsQueryKey, fetchChartHighlights } from '@/lib/highlights';
 import { Skeleton } from '@/components/ui/skeleton';
 import RenderChart from '@/components/ui/charts/RenderChart';
 
@@ -25,6 +27,7 @@ export default function EmbedChartPage() {
         .from('charts')
         .select('*')
         .eq('id', chartId)
+        .is('deleted_at', null)
         .single();
 
       if (error) throw error;
@@ -42,6 +45,12 @@ export default function EmbedChartPage() {
     },
   });
 
+  // Editorial callouts of the chart
+  const { data: highlights } = useQuery({
+    queryKey: [...chartHighlightsQueryKey, chartId],
+    queryFn: () => fetchChartHighlights(chartId),
+  });
+
   // Parse chart configuration
   const chartConfig = chartData?.config as any;
 
@@ -51,23 +60,25 @@ export default function EmbedChartPage() {
         <Skeleton className="h-80 w-full" />
       ) : chartData && chartData.metrics.length > 0 ? (
         <div className="h-full max-h-[90vh] w-full">
+          {/* Embeds are public, drafts and private data are never shown */}
           <RenderChart
+            publicOnly
             metricIds={chartData.metrics}
             chartType={chartConfig?.type || 'line'}
-            dateRange={{
-              from: chartConfig?.dateRange?.from ? new Date(chartConfig.dateRange.from) : undefined,
-              to: chartConfig?.dateRange?.to ? new Date(chartConfig.dateRange.to) : undefined,
-            }}
+            dateRange={getConfigDateRange(chartConfig)}
             showLegend={chartConfig?.showLegend !== undefined ? chartConfig.showLegend : true}
             colorScheme={chartConfig?.colorScheme || 'default'}
             curveType={chartConfig?.curveType}
             innerRadius={chartConfig?.innerRadius}
             outerRadius={chartConfig?.outerRadius}
+            mapClassCount={chartConfig?.mapClassCount}
+            mapClassMethod={chartConfig?.mapClassMethod}
             stacked={chartConfig?.stacked || false}
             regionIds={chartData.regions}
             hideDots={chartConfig?.hideDots || false}
-            aggregation="none"
+            aggregation={chartConfig?.dataAggregation || 'none'}
             separateRegions={chartConfig?.separateRegions || false}
+            highlights={highlights}
           />
         </div>
       ) : (
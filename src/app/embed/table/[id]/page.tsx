@@ -4,6 +4,7 @@ import { useParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
 import { Tables } from '@/types/database';
+import { getConfigDateRange } from '@/lib/periods';
 import { Skeleton } from '@/components/ui/skeleton';
 import RenderTable from '@/components/ui/tables/RenderTable';
 
@@ -25,6 +26,7 @@ export default function EmbedTablePage() {
         .from('charts')
         .select('*')
         .eq('id', chartId)
+        .is('deleted_at', null)
         .single();
 
       if (error) throw error;
@@ -51,12 +53,11 @@ export default function EmbedTablePage() {
         <Skeleton className="h-80 w-full" />
       ) : chartData && chartData.metrics.length > 0 ? (
         <div className="h-full max-h-[90vh] w-full overflow-auto">
+          {/* Embeds are public, drafts and private data are never shown */}
           <RenderTable
+            publicOnly
             metricIds={chartData.metrics}
-            dateRange={{
-              from: chartConfig?.dateRange?.from ? new Date(chartConfig.dateRange.from) : undefined,
-              to: chartConfig?.dateRange?.to ? new Date(chartConfig.dateRange.to) : undefined,
-            }}
+            dateRange={getConfigDateRange(chartConfig)}
             regionIds={chartData.regions}
             tableConfig={
               chartConfig?.tableView || {
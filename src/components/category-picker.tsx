@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, type CSSProperties, type ReactNode } from 'react';
+import { useTranslations } from 'next-intl';
+import { useQuery } from '@tanstack/react-query';
+import {
+  categoriesQueryKey,
+  fetchCategories,
+  flattenCategoryTree,
+  getCategoryPath,
+} from '@/lib/categories';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { Check, ChevronDown, Search } from 'lucide-react';
+
+interface CategoryPickerProps {
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Select a category at any level of the taxonomy, searching shows the matching categories with
+ * their full path
+ */
+export function CategoryPicker({ value, onChange, disabled }: CategoryPickerProps) {
+  const t = useTranslations();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const { data: categories, isLoading } = useQuery({
+    queryKey: categoriesQueryKey,
+    queryFn: fetchCategories,
+  });
+
+  const formatPath = (categoryId: string) =>
+    getCategoryPath(categoryId, categories ?? [])
+      .map(category => category.name)
+      .join(' › ');
+
+  const query = search.trim().toLowerCase();
+  const options = flattenCategoryTree(categories ?? []).filter(
+    ({ category }) => !query || category.name.toLowerCase().includes(query)
+  );
+
+  const select = (categoryId: string | null) => {
+    onChange(categoryId);
+    setOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          {value && categories ? (
+            <span className="truncate">{formatPath(value)}</span>
+          ) : (
+            <span className="text-muted-foreground">{t('categories.none')}</span>
+          )}
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="flex items-center border-b px-3 py-2">
+          <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+          <Input
+            placeholder={t('categories.searchPlaceholder')}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="h-8 border-0 bg-transparent p-0 focus-visible:ring-0"
+          />
+        </div>
+        <div className="max-h-[280px] overflow-y-auto p-1">
+          {isLoading ? (
+            <div className="space-y-2 p-2">
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+            </div>
+          ) : (
+            <>
+              {!query && (
+                <CategoryOption selected={!value} onSelect={() => select(null)}>
+                  <span className="text-muted-foreground">{t('categories.none')}</span>
+                </CategoryOption>
+              )}
+              {options.map(({ category, depth }) => (
+                <CategoryOption
+                  key={category.id}
+                  selected={category.id === value}
+                  onSelect={() => select(category.id)}
+                  // Searching flattens the tree, the path tells where each match is
+                  style={query ? undefined : { paddingLeft: `${0.5 + depth * 1}rem` }}
+                >
+                  {query ? formatPath(category.id) : category.name}
+                </CategoryOption>
+              ))}
+              {options.length === 0 && (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  {query ? t('categories.noMatch') : t('categories.empty')}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CategoryOption({
+  selected,
+  onSelect,
+  style,
+  children,
+}: {
+  selected: boolean;
+  onSelect: () => void;
+  style?: CSSProperties;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      className={cn(
+        'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent',
+        selected && 'font-medium'
+      )}
+      style={style}
+      onClick={onSelect}
+    >
+      <span className="flex-1 truncate">{children}</span>
+      {selected && <Check className="h-4 w-4 shrink-0" />}
+    </button>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import supabaseClient from '@/lib/supabase-client';
+import {
+  chartHighlightsQueryKey,
+  createChartHighlight,
+  deleteChartHighlight,
+  fetchChartHighlights,
+  updateChartHighlight,
+  type ChartHighlight,
+  type ChartHighlightInput,
+} from '@/lib/highlights';
+import { formatPeriod, isValidPeriod, type MetricFrequency } from '@/lib/periods';
+import { trashQueryKey } from '@/lib/trash';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { Lightbulb, PencilIcon, Plus, Trash2 } from 'lucide-react';
+
+type Metric = { id: string; name: string };
+
+interface ChartHighlightsProps {
+  chartId: string;
+  metricIds: string[];
+  frequency: MetricFrequency;
+  canEdit: boolean;
+}
+
+/**
+ * Key takeaways of a saved chart, shown as callouts on the chart and in its embed
+ */
+export function ChartHighlights({ chartId, metricIds, frequency, canEdit }: ChartHighlightsProps) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  // Highlight being written or edited, new highlights have no id
+  const [editingHighlight, setEditingHighlight] = useState<
+    (ChartHighlightInput & { id?: string }) | null
+  >(null);
+
+  const { data: highlights, isLoading } = useQuery({
+    queryKey: [...chartHighlightsQueryKey, chartId],
+    queryFn: () => fetchChartHighlights(chartId),
+  });
+
+  // Series a highlight can point at
+  const { data: metrics } = useQuery({
+    queryKey: ['chart-highlight-metrics', metricIds],
+    queryFn: async () => {
+      const { data, error } = await supabaseClient
+        .from('metrics')
+        .select('id, name')
+        .in('id', metricIds);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: metricIds.length > 0,
+  });
+
+  const { mutate: remove, isPending: isDeleting } = useMutation({
+    mutationFn: (highlight: ChartHighlight) => deleteChartHighlight(highlight.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chartHighlightsQueryKey });
+      queryClient.invalidateQueries({ queryKey: trashQueryKey });
+      toast({ title: t('library.highlights.deleted') });
+    },
+    onError: error => {
+      toast({
+        title: t('library.highlights.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const describeAnchor = (highlight: ChartHighlight) => {
+    const { period, metricId, valueRange } = highlight.context;
+    const parts = [
+      period,
+      metricId && metrics?.find(metric => metric.id === metricId)?.name,
+      valueRange &&
+        (valueRange.from !== null || valueRange.to !== null) &&
+        `${valueRange.from ?? '…'} – ${valueRange.to ?? '…'}`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(' · ') : t('library.highlights.notAnchored');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{t('library.highlights.title')}</CardTitle>
+          <CardDescription>{t('library.highlights.description')}</CardDescription>
+        </div>
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditingHighlight({ highlight: '', context: {} })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t('library.highlights.add')}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : highlights && highlights.length > 0 ? (
+          <ol className="divide-y rounded-md border">
+            {highlights.map((highlight, index) => (
+              <li key={highlight.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+                <div className="space-y-1">
+                  <p>
+                    <span className="mr-2 font-medium">{index + 1}.</span>
+                    {highlight.highlight}
+                  </p>
+                  <p className="text-muted-foreground">{describeAnchor(highlight)}</p>
+                </div>
+                {canEdit && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setEditingHighlight(highlight)}
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                      <span className="sr-only">{t('common.edit')}</span>
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => remove(highlight)}
+                      disabled={isDeleting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">{t('common.delete')}</span>
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-10">
+            <Lightbulb className="mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">{t('library.highlights.empty')}</p>
+          </div>
+        )}
+      </CardContent>
+
+      {editingHighlight && (
+        <HighlightDialog
+          chartId={chartId}
+          highlight={editingHighlight}
+          metrics={metrics ?? []}
+          frequency={frequency}
+          onClose={() => setEditingHighlight(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+function HighlightDialog({
+  chartId,
+  highlight,
+  metrics,
+  frequency,
+  onClose,
+}: {
+  chartId: string;
+  highlight: ChartHighlightInput & { id?: string };
+  metrics: Metric[];
+  frequency: MetricFrequency;
+  onClose: () => void;
+}) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [text, setText] = useState(highlight.highlight);
+  const [period, setPeriod] = useState(highlight.context.period ?? '');
+  const [metricId, setMetricId] = useState(highlight.context.metricId ?? 'none');
+  const [valueFrom, setValueFrom] = useState(highlight.context.valueRange?.from?.toString() ?? '');
+  const [valueTo, setValueTo] = useState(highlight.context.valueRange?.to?.toString() ?? '');
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: (input: ChartHighlightInput) =>
+      highlight.id
+        ? updateChartHighlight(highlight.id, input)
+        : createChartHighlight(chartId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chartHighlightsQueryKey });
+      queryClient.invalidateQueries({ queryKey: trashQueryKey });
+      toast({ title: t('library.highlights.saved') });
+      onClose();
+    },
+    onError: error => {
+      toast({
+        title: t('library.highlights.saveError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (period.trim() && !isValidPeriod(period)) {
+      toast({
+        title: t('library.highlights.saveError'),
+        description: t('metrics.detail.invalidPeriod', {
+          example: formatPeriod(new Date(), frequency),
+        }),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const [from, to] = [valueFrom, valueTo].map(value =>
+      value.trim() === '' ? null : parseFloat(value)
+    );
+    if ((from !== null && isNaN(from)) || (to !== null && isNaN(to))) {
+      toast({
+        title: t('library.highlights.saveError'),
+        description: t('library.highlights.invalidValue'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    save({
+      highlight: text.trim(),
+      context: {
+        ...(period.trim() && { period: period.trim() }),
+        ...(metricId !== 'none' && { metricId }),
+        ...((from !== null || to !== null) && { valueRange: { from, to } }),
+      },
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            {highlight.id ? t('library.highlights.edit') : t('library.highlights.add')}
+          </DialogTitle>
+          <DialogDescription>{t('library.highlights.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="highlight-text">{t('library.highlights.text')}</Label>
+            <Textarea
+              id="highlight-text"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={t('library.highlights.textPlaceholder')}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="highlight-period">{t('common.period')}</Label>
+              <Input
+                id="highlight-period"
+                placeholder={formatPeriod(new Date(), frequency)}
+                value={period}
+                onChange={e => setPeriod(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="highlight-series">{t('library.highlights.series')}</Label>
+              <Select value={metricId} onValueChange={setMetricId}>
+                <SelectTrigger id="highlight-series">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t('library.highlights.allSeries')}</SelectItem>
+                  {metrics.map(metric => (
+                    <SelectItem key={metric.id} value={metric.id}>
+                      {metric.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="highlight-value-from">{t('library.highlights.valueFrom')}</Label>
+              <Input
+                id="highlight-value-from"
+                type="number"
+                value={valueFrom}
+                onChange={e => setValueFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="highlight-value-to">{t('library.highlights.valueTo')}</Label>
+              <Input
+                id="highlight-value-to"
+                type="number"
+                value={valueTo}
+                onChange={e => setValueTo(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('library.highlights.anchorHint')}</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || !text.trim()}>
+            {isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,727 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import supabaseClient from '@/lib/supabase-client';
+import {
+  ImportDataPoint,
+  ImportIssue,
+  ImportMetric,
+  ImportPayload,
+  MetricMatch,
+  invokeProcessSpreadsheet,
+  isImportPayload,
+  matchImportMetric,
+} from '@/lib/imports';
+import {
+  RegionWithAliases,
+  fetchRegionsWithAliases,
+  regionsWithAliasesQueryKey,
+} from '@/lib/regions';
+import { fetchFileTagIds, setFileTags, tagsQueryKey } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+import { UnresolvedRegion, UnresolvedRegions } from '@/components/unresolved-regions';
+import { TagPicker } from '@/components/tag-picker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { AlertCircle, Check, ChevronDown, ChevronRight, MapPin, RefreshCw, X } from 'lucide-react';
+
+type ReviewDataPoint = ImportDataPoint & {
+  accepted: boolean;
+  original: ImportDataPoint;
+};
+
+type ReviewMetric = {
+  name: string;
+  unit: string;
+  accepted: boolean;
+  original: Pick<ImportMetric, 'name' | 'unit'>;
+  data: ReviewDataPoint[];
+};
+
+interface ImportReviewProps {
+  fileId: string;
+  fileName: string;
+  onClose: () => void;
+  onDone: () => void;
+  onReprocess?: () => void;
+}
+
+// Wrap the extracted payload with the review state (accepted flag + original values)
+function toReviewMetrics(payload: ImportPayload): ReviewMetric[] {
+  return payload.metrics.map(metric => ({
+    name: metric.name,
+    unit: metric.unit,
+    accepted: true,
+    original: { name: metric.name, unit: metric.unit },
+    data: metric.data.map(point => ({ ...point, accepted: true, original: { ...point } })),
+  }));
+}
+
+// Keep only the accepted points, in the shape expected by the edge function
+function toImportMetric(metric: ReviewMetric): ImportMetric {
+  return {
+    name: metric.name.trim(),
+    unit: metric.unit.trim(),
+    data: metric.data
+      .filter(point => point.accepted)
+      .map(({ region, year, period, value }) =>
+        period === undefined
+          ? { region: region.trim(), year, value }
+          : { region: region.trim(), year, period: period.trim(), value }
+      ),
+  };
+}
+
+// Keep only what the reviewer accepted
+function toImportPayload(metrics: ReviewMetric[]): ImportPayload {
+  return {
+    metrics: metrics
+      .filter(metric => metric.accepted)
+      .map(toImportMetric)
+      .filter(metric => metric.data.length > 0),
+  };
+}
+
+// Region labels matching no region code or alias: accepted review points, and rows skipped
+// during the extraction
+function getUnresolvedRegions(
+  metrics: ReviewMetric[],
+  issues: ImportIssue[],
+  regions: RegionWithAliases[]
+): UnresolvedRegion[] {
+  const knownLabels = new Set(
+    regions.flatMap(region => [
+      region.code.toLowerCase(),
+      ...region.aliases.map(alias => alias.alias.trim().toLowerCase()),
+    ])
+  );
+  const unresolved = new Map<string, UnresolvedRegion>();
+  const getEntry = (label: string) => {
+    if (!unresolved.has(label)) {
+      unresolved.set(label, { label, pointsCount: 0, skippedCount: 0 });
+    }
+    return unresolved.get(label)!;
+  };
+
+  metrics
+    .filter(metric => metric.accepted)
+    .forEach(metric =>
+      metric.data.forEach(point => {
+        const label = point.region.trim();
+        if (point.accepted && label && !knownLabels.has(label.toLowerCase())) {
+          getEntry(label).pointsCount++;
+        }
+      })
+    );
+
+  issues.forEach(issue => {
+    const label = issue.region?.trim();
+    if (issue.reason === 'unknown_region' && label && !knownLabels.has(label.toLowerCase())) {
+      getEntry(label).skippedCount++;
+    }
+  });
+
+  return [...unresolved.values()];
+}
+
+// Accepted points whose region was matched approximately and not confirmed yet
+function countRegionsToConfirm(metric: ReviewMetric) {
+  return metric.accepted
+    ? metric.data.filter(point => point.accepted && point.regionMatch).length
+    : 0;
+}
+
+function isPointEdited(point: ReviewDataPoint) {
+  return (
+    point.region !== point.original.region ||
+    point.year !== point.original.year ||
+    point.period !== point.original.period ||
+    point.value !== point.original.value
+  );
+}
+
+export function ImportReview({
+  fileId,
+  fileName,
+  onClose,
+  onDone,
+  onReprocess,
+}: ImportReviewProps) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [metrics, setMetrics] = useState<ReviewMetric[]>([]);
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  // Skipped rows whose region label got an alias during the review
+  const [hasAliasedSkippedRows, setHasAliasedSkippedRows] = useState(false);
+
+  const { data: pendingImport, isLoading } = useQuery({
+    queryKey: ['pending-import', fileId],
+    queryFn: async () => {
+      const { data, error } = await supabaseClient
+        .from('pending_imports')
+        .select('*')
+        .eq('file_id', fileId)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: regions } = useQuery({
+    queryKey: regionsWithAliasesQueryKey,
+    queryFn: fetchRegionsWithAliases,
+  });
+
+  // Tags of the file, copied to the metrics it creates or updates when the import is committed
+  const fileTagsQueryKey = [...tagsQueryKey, 'file', fileId];
+  const { data: tagIds } = useQuery({
+    queryKey: fileTagsQueryKey,
+    queryFn: () => fetchFileTagIds(fileId),
+  });
+
+  const { mutate: saveTags } = useMutation({
+    mutationFn: (tagIds: string[]) => setFileTags(fileId, tagIds),
+    onMutate: tagIds => queryClient.setQueryData(fileTagsQueryKey, tagIds),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['files-history'] });
+    },
+    onError: error => {
+      toast({
+        title: t('tags.saveError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (pendingImport && isImportPayload(pendingImport.data)) {
+      setMetrics(toReviewMetrics(pendingImport.data));
+      setExpanded({});
+    }
+  }, [pendingImport]);
+
+  const unresolvedRegions = useMemo(
+    () =>
+      regions
+        ? getUnresolvedRegions(
+            metrics,
+            (pendingImport?.issues as ImportIssue[] | undefined) ?? [],
+            regions
+          )
+        : [],
+    [metrics, pendingImport, regions]
+  );
+
+  // Once aliased, the label is replaced by the region code in the reviewed points
+  const handleAliasCreated = (label: string, region: RegionWithAliases) => {
+    const normalizedLabel = label.toLowerCase();
+    setMetrics(prev =>
+      prev.map(metric => ({
+        ...metric,
+        data: metric.data.map(point =>
+          point.region.trim().toLowerCase() === normalizedLabel
+            ? { ...point, region: region.code }
+            : point
+        ),
+      }))
+    );
+    if (unresolvedRegions.some(entry => entry.label === label && entry.skippedCount > 0)) {
+      setHasAliasedSkippedRows(true);
+    }
+  };
+
+  const reviewedPayload = useMemo(() => toImportPayload(metrics), [metrics]);
+  const regionsToConfirmCount = metrics.reduce(
+    (count, metric) => count + countRegionsToConfirm(metric),
+    0
+  );
+
+  const confirmAllRegions = () => {
+    setMetrics(prev =>
+      prev.map(metric => ({
+        ...metric,
+        data: metric.data.map(point => ({ ...point, regionMatch: undefined })),
+      }))
+    );
+  };
+
+  // Each metric is matched against existing metrics on its own once the reviewer stops editing,
+  // so that an edit only sends the edited metric. The previous match shows while it reloads.
+  const matchedMetrics = useMemo(() => metrics.map(toImportMetric), [metrics]);
+  const [debouncedMatchedMetrics, setDebouncedMatchedMetrics] = useState(matchedMetrics);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedMatchedMetrics(matchedMetrics), 500);
+    return () => clearTimeout(timeout);
+  }, [matchedMetrics]);
+
+  const previousMatches = useRef<Array<MetricMatch | undefined>>([]);
+  const matches = useQueries({
+    queries: debouncedMatchedMetrics.map((metric, metricIndex) => ({
+      queryKey: ['import-matches', fileId, metric],
+      queryFn: () => matchImportMetric(metric),
+      enabled: metrics[metricIndex]?.accepted ?? false,
+      placeholderData: previousMatches.current[metricIndex],
+    })),
+    combine: results => results.map(result => result.data),
+  });
+
+  useEffect(() => {
+    previousMatches.current = matches;
+  }, [matches]);
+
+  const acceptedPointsCount = reviewedPayload.metrics.reduce(
+    (count, metric) => count + metric.data.length,
+    0
+  );
+  const totalPointsCount = metrics.reduce((count, metric) => count + metric.data.length, 0);
+
+  const { mutate: commitImport, isPending: isCommitting } = useMutation({
+    mutationFn: () =>
+      invokeProcessSpreadsheet({ action: 'commit', fileId, metrics: reviewedPayload.metrics }),
+    onSuccess: () => {
+      toast({
+        title: t('import.review.commit.success.title'),
+        description: t('import.review.commit.success.description'),
+      });
+      onDone();
+    },
+    onError: error => {
+      console.error('Commit import error:', error);
+      toast({
+        title: t('import.review.commit.error.title'),
+        // Partially saved imports explain which metrics failed, see the import history
+        description: error.message || t('import.review.commit.error.description'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: rejectImport, isPending: isRejecting } = useMutation({
+    mutationFn: () => invokeProcessSpreadsheet({ action: 'reject', fileId }),
+    onSuccess: () => {
+      toast({
+        title: t('import.review.reject.success.title'),
+        description: t('import.review.reject.success.description'),
+      });
+      onDone();
+    },
+    onError: error => {
+      console.error('Reject import error:', error);
+      toast({
+        title: t('import.review.reject.error.title'),
+        description: t('import.review.reject.error.description'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateMetric = (metricIndex: number, changes: Partial<ReviewMetric>) => {
+    setMetrics(prev =>
+      prev.map((metric, index) => (index === metricIndex ? { ...metric, ...changes } : metric))
+    );
+  };
+
+  const updatePoint = (
+    metricIndex: number,
+    pointIndex: number,
+    changes: Partial<ReviewDataPoint>
+  ) => {
+    setMetrics(prev =>
+      prev.map((metric, index) =>
+        index === metricIndex
+          ? {
+              ...metric,
+              data: metric.data.map((point, i) =>
+                i === pointIndex ? { ...point, ...changes } : point
+              ),
+            }
+          : metric
+      )
+    );
+  };
+
+  const isBusy = isCommitting || isRejecting;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{t('import.review.title', { fileName })}</CardTitle>
+          <CardDescription>
+            {t('import.review.summary', {
+              metrics: reviewedPayload.metrics.length,
+              totalMetrics: metrics.length,
+              points: acceptedPointsCount,
+              totalPoints: totalPointsCount,
+            })}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isBusy || !pendingImport}>
+                <X className="mr-2 h-4 w-4" />
+                {t('import.review.reject.button')}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t('import.review.reject.confirmTitle')}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t('import.review.reject.confirmDescription')}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={() => rejectImport()}>
+                  {t('import.review.reject.button')}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <Button
+            size="sm"
+            onClick={() => commitImport()}
+            disabled={isBusy || reviewedPayload.metrics.length === 0 || regionsToConfirmCount > 0}
+            title={
+              regionsToConfirmCount > 0 ? t('import.review.regionMatch.commitBlocked') : undefined
+            }
+          >
+            <Check className="mr-2 h-4 w-4" />
+            {isCommitting ? t('import.review.commit.committing') : t('import.review.commit.button')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isBusy}>
+            {t('import.data.close')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <TagPicker value={tagIds ?? []} onChange={saveTags} disabled={isBusy || !pendingImport} />
+          <p className="text-xs text-muted-foreground">{t('import.review.tagsHint')}</p>
+        </div>
+        {regions && unresolvedRegions.length > 0 && (
+          <UnresolvedRegions
+            unresolvedRegions={unresolvedRegions}
+            regions={regions}
+            onAliasCreated={handleAliasCreated}
+          />
+        )}
+        {regionsToConfirmCount > 0 && (
+          <div className="rounded-md border border-orange-200 bg-orange-50/50 p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <MapPin className="h-4 w-4 text-orange-700" />
+                {t('import.review.regionMatch.title', { count: regionsToConfirmCount })}
+              </div>
+              <Button size="sm" variant="outline" onClick={confirmAllRegions} disabled={isBusy}>
+                <Check className="mr-2 h-4 w-4" />
+                {t('import.review.regionMatch.confirmAll')}
+              </Button>
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {t('import.review.regionMatch.description')}
+            </p>
+          </div>
+        )}
+        {hasAliasedSkippedRows && onReprocess && (
+          <div className="flex items-center justify-between gap-3 rounded-md border border-blue-200 bg-blue-50/50 p-3 text-sm">
+            <span>{t('import.review.unresolvedRegions.reprocessHint')}</span>
+            <Button size="sm" variant="outline" onClick={onReprocess} disabled={isBusy}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {t('import.review.unresolvedRegions.reprocess')}
+            </Button>
+          </div>
+        )}
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : metrics.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-lg border bg-background py-10">
+            <AlertCircle className="mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">{t('import.review.noData')}</p>
+          </div>
+        ) : (
+          metrics.map((metric, metricIndex) => {
+            const isRenamed =
+              metric.name !== metric.original.name || metric.unit !== metric.original.unit;
+            const acceptedCount = metric.data.filter(point => point.accepted).length;
+            const toConfirmCount = countRegionsToConfirm(metric);
+            const match = matches[metricIndex];
+            const hasPeriods = metric.data.some(point => point.period !== undefined);
+
+            return (
+              <div
+                key={metricIndex}
+                className={cn('rounded-md border', !metric.accepted && 'bg-red-50 opacity-60')}
+              >
+                <div className="flex items-center gap-3 p-3">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() =>
+                      setExpanded(prev => ({ ...prev, [metricIndex]: !prev[metricIndex] }))
+                    }
+                  >
+                    {expanded[metricIndex] ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Checkbox
+                    checked={metric.accepted}
+                    onCheckedChange={checked => updateMetric(metricIndex, { accepted: !!checked })}
+                    title={t('import.review.acceptMetric')}
+                  />
+                  <Input
+                    className="h-8 flex-1"
+                    value={metric.name}
+                    onChange={e => updateMetric(metricIndex, { name: e.target.value })}
+                    disabled={!metric.accepted}
+                    placeholder={t('import.review.columns.name')}
+                  />
+                  <Input
+                    className="h-8 w-40"
+                    value={metric.unit}
+                    onChange={e => updateMetric(metricIndex, { unit: e.target.value })}
+                    disabled={!metric.accepted}
+                    placeholder={t('import.review.columns.unit')}
+                  />
+                  {!metric.accepted ? (
+                    <Badge variant="destructive">{t('import.review.status.rejected')}</Badge>
+                  ) : (
+                    isRenamed && (
+                      <Badge className="bg-yellow-100 text-yellow-800">
+                        {t('import.review.status.edited')}
+                      </Badge>
+                    )
+                  )}
+                  {toConfirmCount > 0 && (
+                    <Badge className="whitespace-nowrap bg-orange-100 text-orange-800">
+                      {t('import.review.regionMatch.toConfirm', { count: toConfirmCount })}
+                    </Badge>
+                  )}
+                  {metric.accepted && match && (
+                    <Badge
+                      className={cn(
+                        'whitespace-nowrap',
+                        match.status === 'new' && 'bg-green-100 text-green-800',
+                        match.status === 'merged' && 'bg-blue-100 text-blue-800',
+                        match.status === 'conflicting' && 'bg-orange-100 text-orange-800'
+                      )}
+                      title={
+                        match.metricName
+                          ? t('import.review.match.description', {
+                              name: match.metricName,
+                              conflicts: match.conflicts,
+                            })
+                          : undefined
+                      }
+                    >
+                      {t(`import.review.match.${match.status}`)}
+                    </Badge>
+                  )}
+                  <span className="whitespace-nowrap text-xs text-muted-foreground">
+                    {t('import.review.pointsCount', {
+                      accepted: acceptedCount,
+                      total: metric.data.length,
+                    })}
+                  </span>
+                </div>
+                {isRenamed && metric.accepted && (
+                  <div className="px-12 pb-2 text-xs text-muted-foreground line-through">
+                    {metric.original.name} ({metric.original.unit})
+                  </div>
+                )}
+                {expanded[metricIndex] && (
+                  <div className="max-h-[400px] overflow-auto border-t">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-10" />
+                          <TableHead>{t('import.review.columns.region')}</TableHead>
+                          <TableHead>
+                            {hasPeriods
+                              ? t('import.review.columns.period')
+                              : t('import.review.columns.year')}
+                          </TableHead>
+                          <TableHead>{t('import.review.columns.value')}</TableHead>
+                          <TableHead>{t('import.review.columns.change')}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {metric.data.map((point, pointIndex) => {
+                          const isEdited = isPointEdited(point);
+                          const isDisabled = !metric.accepted || !point.accepted;
+                          const regionMatch = !isDisabled ? point.regionMatch : undefined;
+
+                          return (
+                            <TableRow
+                              key={pointIndex}
+                              className={cn(
+                                !point.accepted
+                                  ? 'bg-red-50 text-muted-foreground line-through'
+                                  : regionMatch
+                                    ? 'bg-orange-50'
+                                    : isEdited
+                                      ? 'bg-yellow-50'
+                                      : 'bg-green-50/50'
+                              )}
+                            >
+                              <TableCell>
+                                <Checkbox
+                                  checked={point.accepted}
+                                  onCheckedChange={checked =>
+                                    updatePoint(metricIndex, pointIndex, { accepted: !!checked })
+                                  }
+                                  disabled={!metric.accepted}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  className="h-8"
+                                  value={point.region}
+                                  // Picking the region by hand confirms it
+                                  onChange={e =>
+                                    updatePoint(metricIndex, pointIndex, {
+                                      region: e.target.value,
+                                      regionMatch: undefined,
+                                    })
+                                  }
+                                  disabled={isDisabled}
+                                />
+                                {regionMatch && (
+                                  <div className="mt-1 flex items-center gap-2 text-xs text-orange-800">
+                                    <span>
+                                      {t('import.review.regionMatch.matched', {
+                                        label: regionMatch.label,
+                                        kind: t(
+                                          `import.review.regionMatch.kinds.${regionMatch.kind}`
+                                        ),
+                                        score: Math.round(regionMatch.score * 100),
+                                      })}
+                                    </span>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() =>
+                                        updatePoint(metricIndex, pointIndex, {
+                                          regionMatch: undefined,
+                                        })
+                                      }
+                                    >
+                                      <Check className="mr-1 h-3 w-3" />
+                                      {t('import.review.regionMatch.confirm')}
+                                    </Button>
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {point.period !== undefined ? (
+                                  <Input
+                                    className="h-8 w-28"
+                                    value={point.period}
+                                    onChange={e =>
+                                      updatePoint(metricIndex, pointIndex, {
+                                        period: e.target.value,
+                                        year: parseInt(e.target.value.trim().slice(0, 4), 10) || 0,
+                                      })
+                                    }
+                                    disabled={isDisabled}
+                                  />
+                                ) : (
+                                  <Input
+                                    className="h-8 w-24"
+                                    type="number"
+                                    value={point.year}
+                                    onChange={e =>
+                                      updatePoint(metricIndex, pointIndex, {
+                                        year: parseInt(e.target.value, 10) || 0,
+                                      })
+                                    }
+                                    disabled={isDisabled}
+                                  />
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  className="h-8 w-32"
+                                  type="number"
+                                  step="any"
+                                  value={point.value}
+                                  onChange={e =>
+                                    updatePoint(metricIndex, pointIndex, {
+                                      value: parseFloat(e.target.value) || 0,
+                                    })
+                                  }
+                                  disabled={isDisabled}
+                                />
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {!point.accepted ? (
+                                  t('import.review.status.rejected')
+                                ) : isEdited ? (
+                                  <span className="text-yellow-800">
+                                    <span className="line-through">
+                                      {point.original.region} ·{' '}
+                                      {point.original.period ?? point.original.year} ·{' '}
+                                      {point.original.value}
+                                    </span>
+                                  </span>
+                                ) : (
+                                  <span className="text-green-800">
+                                    {t('import.review.status.added')}
+                                  </span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
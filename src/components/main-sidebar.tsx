@@ -21,6 +21,14 @@ import {
   Settings,
   Library,
   Upload,
+  MapPin,
+  Users,
+  ClipboardCheck,
+  ScrollText,
+  Trash2,
+  Tags,
+  BookOpen,
+  FolderTree,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -33,6 +41,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import supabaseClient from '@/lib/supabase-client';
 import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission, type Permission } from '@/lib/permissions';
 import { usePathname } from 'next/navigation';
 import { ForwardRefExoticComponent, RefAttributes, useState } from 'react';
 import { SettingsModal } from '@/components/settings-modal';
@@ -43,6 +52,8 @@ const items: Array<{
   titleKey: string;
   url: string;
   icon: ForwardRefExoticComponent<Omit<LucideProps, 'ref'> & RefAttributes<SVGSVGElement>>;
+  // Hidden from the roles without this permission
+  permission?: Permission;
 }> = [
   {
     titleKey: 'navigation.explorer',
@@ -63,6 +74,55 @@ const items: Array<{
     titleKey: 'navigation.import',
     url: '/import',
     icon: Upload,
+    permission: 'import',
+  },
+  {
+    titleKey: 'navigation.reviews',
+    url: '/reviews',
+    icon: ClipboardCheck,
+    permission: 'editDrafts',
+  },
+  {
+    titleKey: 'navigation.categories',
+    url: '/categories',
+    icon: FolderTree,
+    permission: 'editMetrics',
+  },
+  {
+    titleKey: 'navigation.tags',
+    url: '/tags',
+    icon: Tags,
+    permission: 'editMetrics',
+  },
+  {
+    titleKey: 'navigation.sources',
+    url: '/sources',
+    icon: BookOpen,
+    permission: 'editMetrics',
+  },
+  {
+    titleKey: 'navigation.regions',
+    url: '/regions',
+    icon: MapPin,
+    permission: 'manageRegions',
+  },
+  {
+    titleKey: 'navigation.members',
+    url: '/members',
+    icon: Users,
+    permission: 'manageMembers',
+  },
+  {
+    titleKey: 'navigation.trash',
+    url: '/trash',
+    icon: Trash2,
+    permission: 'editCharts',
+  },
+  {
+    titleKey: 'navigation.audit',
+    url: '/audit',
+    icon: ScrollText,
+    permission: 'viewAuditLog',
   },
 ];
 
@@ -92,16 +152,20 @@ export default function MainSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              {items.map(item => (
-                <SidebarMenuItem key={item.titleKey}>
-                  <SidebarMenuButton asChild className={pathname === item.url ? 'bg-accent' : ''}>
-                    <Link href={item.url}>
-                      <item.icon />
-                      <span>{t(item.titleKey)}</span>
-                    </Link>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-              ))}
+              {items
+                .filter(
+                  item => !item.permission || hasPermission(currentUser.data?.role, item.permission)
+                )
+                .map(item => (
+                  <SidebarMenuItem key={item.titleKey}>
+                    <SidebarMenuButton asChild className={pathname === item.url ? 'bg-accent' : ''}>
+                      <Link href={item.url}>
+                        <item.icon />
+                        <span>{t(item.titleKey)}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -0,0 +1,199 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  fetchMetricDataRevisions,
+  metricDataRevisionsQueryKey,
+  revertMetricDataRevision,
+  type MetricDataRevision,
+} from '@/lib/revisions';
+import { formatPeriod, type MetricFrequency } from '@/lib/periods';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { toast } from '@/hooks/use-toast';
+import { History, Undo2 } from 'lucide-react';
+import { Tables } from '@/types/database';
+
+interface MetricDataHistoryProps {
+  dataPoint: Pick<Tables<'metric_data'>, 'id' | 'metric_id'> | null;
+  regions?: Map<string, Pick<Tables<'regions'>, 'name'>>;
+  frequency: MetricFrequency;
+  unit?: string | null;
+  canRevert: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Versions of a data point, newest first, each of them can be restored in one click
+ */
+export function MetricDataHistory({
+  dataPoint,
+  regions,
+  frequency,
+  unit,
+  canRevert,
+  onOpenChange,
+}: MetricDataHistoryProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: [...metricDataRevisionsQueryKey, dataPoint?.id],
+    queryFn: () => fetchMetricDataRevisions(dataPoint!.id),
+    enabled: !!dataPoint,
+  });
+
+  const { mutate: revert, isPending } = useMutation({
+    mutationFn: (revision: MetricDataRevision) => revertMetricDataRevision(revision.id),
+    onSuccess: (_, revision) => {
+      queryClient.invalidateQueries({ queryKey: metricDataRevisionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['metric-data', dataPoint?.metric_id] });
+      toast({
+        title: t('metrics.history.reverted'),
+        description: t('metrics.history.revertedDescription', { version: revision.version }),
+      });
+    },
+    onError: error => {
+      toast({
+        title: t('metrics.history.revertError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatValue = (value: number | null) =>
+    value === null ? '—' : `${value}${unit ? ` ${unit}` : ''}`;
+  const formatRegion = (regionId: string | null) =>
+    (regionId && regions?.get(regionId)?.name) || '—';
+
+  // Whether restoring a revision would change the point as it is now
+  const differsFromCurrent = (revision: MetricDataRevision) => {
+    const current = revisions?.[0];
+    return (
+      !!current &&
+      (revision.new_value !== current.new_value ||
+        revision.new_status !== current.new_status ||
+        revision.new_region_id !== current.new_region_id ||
+        revision.new_date !== current.new_date)
+    );
+  };
+
+  // Changes of a revision other than the value
+  const describeChanges = (revision: MetricDataRevision) => {
+    if (revision.old_status === null) return [];
+    const changes: string[] = [];
+    if (revision.old_status !== revision.new_status) {
+      changes.push(
+        `${t('common.status')}: ${t(`common.${revision.old_status}`)} → ${t(`common.${revision.new_status}`)}`
+      );
+    }
+    if (revision.old_region_id !== revision.new_region_id) {
+      changes.push(
+        `${t('common.region')}: ${formatRegion(revision.old_region_id)} → ${formatRegion(revision.new_region_id)}`
+      );
+    }
+    if (revision.old_date && revision.old_date !== revision.new_date) {
+      changes.push(
+        `${t('common.period')}: ${formatPeriod(revision.old_date, frequency)} → ${formatPeriod(revision.new_date, frequency)}`
+      );
+    }
+    return changes;
+  };
+
+  return (
+    <Sheet open={!!dataPoint} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{t('metrics.history.title')}</SheetTitle>
+          <SheetDescription>{t('metrics.history.description')}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-20 w-full" />
+            </>
+          ) : revisions && revisions.length > 0 ? (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="rounded-md border p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={index === 0 ? 'default' : 'outline'}>
+                        {t('metrics.history.version', { version: revision.version })}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {format(new Date(revision.changed_at), 'PPpp', {
+                          locale: locale === 'fr' ? fr : undefined,
+                        })}
+                      </span>
+                    </div>
+                    <p className="font-medium">
+                      {revision.old_value === null
+                        ? formatValue(revision.new_value)
+                        : `${formatValue(revision.old_value)} → ${formatValue(revision.new_value)}`}
+                    </p>
+                  </div>
+                  {canRevert && index > 0 && differsFromCurrent(revision) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revert(revision)}
+                      disabled={isPending}
+                    >
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      {t('metrics.history.revert')}
+                    </Button>
+                  )}
+                </div>
+                {describeChanges(revision).map(change => (
+                  <p key={change} className="text-muted-foreground">
+                    {change}
+                  </p>
+                ))}
+                <p className="mt-1 text-muted-foreground">
+                  {revision.old_value === null && revision.old_status === null
+                    ? t('metrics.history.created', {
+                        name: revision.author?.full_name || revision.author?.email || '—',
+                      })
+                    : t('metrics.history.changedBy', {
+                        name: revision.author?.full_name || revision.author?.email || '—',
+                      })}
+                </p>
+                {revision.reverted_revision && (
+                  <p className="text-muted-foreground">
+                    {t('metrics.history.revertedFrom', {
+                      version: revision.reverted_revision.version,
+                    })}
+                  </p>
+                )}
+                {revision.reason && (
+                  <p className="mt-2 rounded-md bg-muted p-2">{revision.reason}</p>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="flex flex-col items-center justify-center py-10">
+              <History className="mb-4 h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('metrics.history.empty')}</p>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
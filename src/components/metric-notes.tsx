@@ -0,0 +1,354 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createNote,
+  deleteNote,
+  fetchMetricNotes,
+  notesQueryKey,
+  updateNote,
+  type Note,
+  type NoteInput,
+} from '@/lib/notes';
+import { formatPeriod, getPeriodStart, isValidPeriod, type MetricFrequency } from '@/lib/periods';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { PencilIcon, Plus, StickyNote, Trash2 } from 'lucide-react';
+import { Tables } from '@/types/database';
+
+// A note being written or edited, new notes have no id
+export type NoteDraft = NoteInput & {
+  id?: string;
+  data_point?: Note['data_point'];
+};
+
+export const EMPTY_NOTE: NoteDraft = {
+  note: '',
+  metric_data_id: null,
+  region_id: null,
+  visible_start_date: null,
+  visible_end_date: null,
+};
+
+type Regions = Map<string, Pick<Tables<'regions'>, 'id' | 'name'>>;
+
+interface MetricNotesProps {
+  metricId: string;
+  regions?: Regions;
+  frequency: MetricFrequency;
+  canEdit: boolean;
+  editingNote: NoteDraft | null;
+  onEditingNoteChange: (note: NoteDraft | null) => void;
+}
+
+/**
+ * Notes of a metric, drawn on its charts and shown as footnotes of its tables
+ */
+export function MetricNotes({
+  metricId,
+  regions,
+  frequency,
+  canEdit,
+  editingNote,
+  onEditingNoteChange,
+}: MetricNotesProps) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+
+  const { data: notes, isLoading } = useQuery({
+    queryKey: [...notesQueryKey, [metricId]],
+    queryFn: () => fetchMetricNotes([metricId]),
+  });
+
+  const { mutate: remove, isPending: isDeleting } = useMutation({
+    mutationFn: (note: Note) => deleteNote(note.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesQueryKey });
+      toast({ title: t('metrics.notes.deleted') });
+    },
+    onError: error => {
+      toast({
+        title: t('metrics.notes.deleteError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const describeScope = (note: Note) => {
+    if (note.data_point) {
+      const region = note.data_point.region_id
+        ? regions?.get(note.data_point.region_id)
+        : undefined;
+      return [formatPeriod(note.data_point.date, frequency), region?.name]
+        .filter(Boolean)
+        .join(' · ');
+    }
+
+    const start = note.visible_start_date && formatPeriod(note.visible_start_date, frequency);
+    const end = note.visible_end_date && formatPeriod(note.visible_end_date, frequency);
+    const periods =
+      start && end
+        ? start === end
+          ? start
+          : `${start} – ${end}`
+        : start
+          ? t('metrics.notes.since', { period: start })
+          : end
+            ? t('metrics.notes.until', { period: end })
+            : t('common.allPeriods');
+    const region = note.region_id && regions?.get(note.region_id);
+    return `${periods} · ${region ? region.name : t('common.allRegions')}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{t('metrics.notes.title')}</CardTitle>
+          <CardDescription>{t('metrics.notes.description')}</CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => onEditingNoteChange(EMPTY_NOTE)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('metrics.notes.add')}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : notes && notes.length > 0 ? (
+          <ul className="divide-y rounded-md border">
+            {notes.map(note => (
+              <li key={note.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+                <div className="space-y-1">
+                  <p>{note.note}</p>
+                  <p className="text-muted-foreground">{describeScope(note)}</p>
+                </div>
+                {canEdit && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button size="icon" variant="ghost" onClick={() => onEditingNoteChange(note)}>
+                      <PencilIcon className="h-4 w-4" />
+                      <span className="sr-only">{t('common.edit')}</span>
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => remove(note)}
+                      disabled={isDeleting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">{t('common.delete')}</span>
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-10">
+            <StickyNote className="mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">{t('metrics.notes.empty')}</p>
+          </div>
+        )}
+      </CardContent>
+
+      {editingNote && (
+        <NoteDialog
+          metricId={metricId}
+          note={editingNote}
+          regions={regions}
+          frequency={frequency}
+          onClose={() => onEditingNoteChange(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+function NoteDialog({
+  metricId,
+  note,
+  regions,
+  frequency,
+  onClose,
+}: {
+  metricId: string;
+  note: NoteDraft;
+  regions?: Regions;
+  frequency: MetricFrequency;
+  onClose: () => void;
+}) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [text, setText] = useState(note.note);
+  const [regionId, setRegionId] = useState(note.region_id ?? 'all');
+  const [startPeriod, setStartPeriod] = useState(
+    note.visible_start_date ? formatPeriod(note.visible_start_date, frequency) : ''
+  );
+  const [endPeriod, setEndPeriod] = useState(
+    note.visible_end_date ? formatPeriod(note.visible_end_date, frequency) : ''
+  );
+  // Notes on a data point cover its period and region
+  const isDataPointNote = !!note.metric_data_id;
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: (input: NoteInput) =>
+      note.id ? updateNote(note.id, input) : createNote(metricId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesQueryKey });
+      toast({ title: t('metrics.notes.saved') });
+      onClose();
+    },
+    onError: error => {
+      toast({
+        title: t('metrics.notes.saveError'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const periods = [startPeriod.trim(), endPeriod.trim()];
+    if (periods.some(period => period && !isValidPeriod(period))) {
+      toast({
+        title: t('metrics.notes.saveError'),
+        description: t('metrics.detail.invalidPeriod', {
+          example: formatPeriod(new Date(), frequency),
+        }),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const [start, end] = periods.map(period =>
+      period ? getPeriodStart(period).toISOString().split('T')[0] : null
+    );
+    if (start && end && end < start) {
+      toast({
+        title: t('metrics.notes.saveError'),
+        description: t('metrics.notes.invalidRange'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    save({
+      note: text.trim(),
+      metric_data_id: note.metric_data_id,
+      region_id: isDataPointNote || regionId === 'all' ? null : regionId,
+      visible_start_date: isDataPointNote ? null : start,
+      visible_end_date: isDataPointNote ? null : end,
+    });
+  };
+
+  const dataPointRegion = note.data_point?.region_id && regions?.get(note.data_point.region_id);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{note.id ? t('metrics.notes.edit') : t('metrics.notes.add')}</DialogTitle>
+          <DialogDescription>{t('metrics.notes.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="note-text">{t('metrics.notes.note')}</Label>
+            <Textarea
+              id="note-text"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={t('metrics.notes.notePlaceholder')}
+            />
+          </div>
+          {isDataPointNote ? (
+            note.data_point && (
+              <p className="text-sm text-muted-foreground">
+                {t('metrics.notes.dataPoint', {
+                  period: formatPeriod(note.data_point.date, frequency),
+                  region: dataPointRegion ? dataPointRegion.name : '—',
+                })}
+              </p>
+            )
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="note-start">{t('metrics.notes.from')}</Label>
+                  <Input
+                    id="note-start"
+                    placeholder={formatPeriod(new Date(), frequency)}
+                    value={startPeriod}
+                    onChange={e => setStartPeriod(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="note-end">{t('metrics.notes.to')}</Label>
+                  <Input
+                    id="note-end"
+                    placeholder={formatPeriod(new Date(), frequency)}
+                    value={endPeriod}
+                    onChange={e => setEndPeriod(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{t('metrics.notes.rangeHint')}</p>
+              <div className="space-y-2">
+                <Label htmlFor="note-region">{t('common.region')}</Label>
+                <Select value={regionId} onValueChange={setRegionId}>
+                  <SelectTrigger id="note-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t('common.allRegions')}</SelectItem>
+                    {regions &&
+                      Array.from(regions.values()).map(region => (
+                        <SelectItem key={region.id} value={region.id}>
+                          {region.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || !text.trim()}>
+            {isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { ShieldAlert } from 'lucide-react';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Render a page only for the roles allowed to use it
+ */
+export function RequirePermission({
+  permission,
+  children,
+}: {
+  permission: Permission;
+  children: React.ReactNode;
+}) {
+  const t = useTranslations();
+  const { data: currentUser, isLoading } = useCurrentUser();
+
+  if (isLoading) {
+    return (
+      <div className="mt-8 space-y-4">
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!hasPermission(currentUser?.role, permission)) {
+    return (
+      <div className="mt-16 flex flex-col items-center justify-center text-center">
+        <ShieldAlert className="mb-4 h-12 w-12 text-muted-foreground" />
+        <h1 className="text-xl font-semibold">{t('permissions.deniedTitle')}</h1>
+        <p className="mt-2 text-muted-foreground">{t('permissions.deniedDescription')}</p>
+      </div>
+    );
+  }
+
+  return children;
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { formatCitation, type Source } from '@/lib/sources';
+import { cn } from '@/lib/utils';
+
+interface SourceCitationProps {
+  sources: Source[];
+  className?: string;
+}
+
+/**
+ * "Source:" footer of a chart or a table, citing the sources of the metrics it shows
+ */
+export function SourceCitation({ sources, className }: SourceCitationProps) {
+  const t = useTranslations();
+
+  if (sources.length === 0) return null;
+
+  return (
+    <p className={cn('text-xs text-muted-foreground', className)}>
+      {t('sources.citation', { count: sources.length })}{' '}
+      {sources.map((source, index) => (
+        <span key={source.id}>
+          {index > 0 && '; '}
+          {source.url ? (
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="underline">
+              {formatCitation(source)}
+            </a>
+          ) : (
+            formatCitation(source)
+          )}
+        </span>
+      ))}
+    </p>
+  );
+}
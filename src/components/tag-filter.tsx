@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useTranslations } from 'next-intl';
+import { hasAllTags, type Tag } from '@/lib/tags';
+import { badgeVariants } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { Tags } from 'lucide-react';
+
+interface TagFilterProps {
+  // Tags of each item being filtered
+  itemTags: Tag[][];
+  selectedTagIds: string[];
+  onSelectedTagIdsChange: (tagIds: string[]) => void;
+  className?: string;
+}
+
+/**
+ * Faceted filter by tag, each tag tells how many items would be left once it is selected
+ */
+export function TagFilter({
+  itemTags,
+  selectedTagIds,
+  onSelectedTagIdsChange,
+  className,
+}: TagFilterProps) {
+  const t = useTranslations();
+
+  const facets = useMemo(() => {
+    const counts = new Map<string, { tag: Tag; count: number }>();
+    itemTags.forEach(tags =>
+      tags.forEach(tag => {
+        const facet = counts.get(tag.id) ?? { tag, count: 0 };
+        if (hasAllTags(tags, selectedTagIds)) facet.count++;
+        counts.set(tag.id, facet);
+      })
+    );
+    // Tags no remaining item has are hidden, unless they are selected
+    return [...counts.values()]
+      .filter(({ tag, count }) => count > 0 || selectedTagIds.includes(tag.id))
+      .sort((a, b) => b.count - a.count || a.tag.name.localeCompare(b.tag.name));
+  }, [itemTags, selectedTagIds]);
+
+  if (facets.length === 0 && selectedTagIds.length === 0) return null;
+
+  const toggle = (tagId: string) =>
+    onSelectedTagIdsChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter(id => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      <Tags className="mr-1 h-4 w-4 text-muted-foreground" aria-label={t('tags.filter')} />
+      {facets.map(({ tag, count }) => {
+        const isSelected = selectedTagIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            className={cn(
+              badgeVariants({ variant: isSelected ? 'default' : 'outline' }),
+              'cursor-pointer font-normal'
+            )}
+            aria-pressed={isSelected}
+            onClick={() => toggle(tag.id)}
+          >
+            {tag.name}
+            <span className={cn('ml-1', !isSelected && 'text-muted-foreground')}>{count}</span>
+          </button>
+        );
+      })}
+      {selectedTagIds.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onSelectedTagIdsChange([])}
+        >
+          {t('tags.clearFilter')}
+        </Button>
+      )}
+    </div>
+  );
+}
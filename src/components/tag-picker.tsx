@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createTag, fetchTags, tagsQueryKey } from '@/lib/tags';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/hooks/use-toast';
+import { ChevronDown, Plus, Search } from 'lucide-react';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Select tags from the existing ones, or create a tag from the search
+ */
+export function TagPicker({ value, onChange, disabled }: TagPickerProps) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const { data: tags, isLoading } = useQuery({
+    queryKey: tagsQueryKey,
+    queryFn: fetchTags,
+  });
+
+  const { mutate: create, isPending: isCreating } = useMutation({
+    mutationFn: createTag,
+    onSuccess: tag => {
+      queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+      onChange([...value, tag.id]);
+      setSearch('');
+    },
+    onError: (error: { code?: string; message: string }) => {
+      toast({
+        title: t('tags.saveError'),
+        // 23505: unique violation, a tag already has this name
+        description: error.code === '23505' ? t('tags.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const query = search.trim().toLowerCase();
+  const filteredTags = tags?.filter(tag => tag.name.toLowerCase().includes(query)) ?? [];
+  const canCreate = !!query && !tags?.some(tag => tag.name.toLowerCase() === query);
+  const selectedTags = tags?.filter(tag => value.includes(tag.id)) ?? [];
+
+  const toggle = (tagId: string) =>
+    onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="h-auto min-h-9 w-full justify-between"
+          disabled={disabled}
+        >
+          {selectedTags.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {selectedTags.map(tag => (
+                <Badge key={tag.id} variant="secondary">
+                  {tag.name}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground">{t('tags.pickerPlaceholder')}</span>
+          )}
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <div className="flex items-center border-b px-3 py-2">
+          <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+          <Input
+            placeholder={t('tags.searchPlaceholder')}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && canCreate) {
+                e.preventDefault();
+                create(search);
+              }
+            }}
+            className="h-8 border-0 bg-transparent p-0 focus-visible:ring-0"
+          />
+        </div>
+        <div className="max-h-[240px] overflow-y-auto p-1">
+          {isLoading ? (
+            <div className="space-y-2 p-2">
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+            </div>
+          ) : (
+            <>
+              {filteredTags.map(tag => (
+                <label
+                  key={tag.id}
+                  className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+                >
+                  <Checkbox
+                    checked={value.includes(tag.id)}
+                    onCheckedChange={() => toggle(tag.id)}
+                  />
+                  {tag.name}
+                </label>
+              ))}
+              {filteredTags.length === 0 && !canCreate && (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  {t('tags.empty')}
+                </div>
+              )}
+              {canCreate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => create(search)}
+                  disabled={isCreating}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('tags.createNamed', { name: search.trim() })}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
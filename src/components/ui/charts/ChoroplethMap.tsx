@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import {
+  ClassBreakMethod,
+  createProjection,
+  geometryToPath,
+  getClassBreaks,
+  getClassIndex,
+  getGeometryBounds,
+  getSequentialColors,
+  RegionGeometry,
+} from '@/lib/geometry';
+
+// Values by metric, period and region
+export type MapValues = {
+  [metricId: string]: {
+    [period: string]: {
+      [regionId: string]: number;
+    };
+  };
+};
+
+type ChoroplethMapProps = {
+  values: MapValues;
+  metricIds: string[];
+  metricNames: { [key: string]: string };
+  metricUnits: { [key: string]: string | null };
+  regions: { id: string; name: string; geometry: RegionGeometry }[];
+  colors: string[];
+  classCount: number;
+  classMethod: ClassBreakMethod;
+  showLegend: boolean;
+};
+
+// Size of the SVG coordinate system, the map is scaled to its container
+const WIDTH = 800;
+const HEIGHT = 500;
+const NO_DATA_COLOR = '#e5e7eb';
+
+const formatValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function ChoroplethMap({
+  values,
+  metricIds,
+  metricNames,
+  metricUnits,
+  regions,
+  colors,
+  classCount,
+  classMethod,
+  showLegend,
+}: ChoroplethMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [metricId, setMetricId] = useState(metricIds[0]);
+  const [periodIndex, setPeriodIndex] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<{ regionId: string; x: number; y: number } | null>(null);
+
+  // Keep the selected metric when it's still part of the chart
+  useEffect(() => {
+    if (!metricIds.includes(metricId)) setMetricId(metricIds[0]);
+  }, [metricIds, metricId]);
+
+  const metricValues = values[metricId] ?? {};
+  const periods = useMemo(() => Object.keys(metricValues).sort(), [metricValues]);
+  // Start on the latest period
+  const selectedIndex = Math.min(periodIndex ?? periods.length - 1, periods.length - 1);
+  const period = periods[selectedIndex];
+  const periodValues = metricValues[period] ?? {};
+
+  // Classes are computed over every period, so that colors can be compared while scrubbing
+  const breaks = useMemo(
+    () =>
+      getClassBreaks(
+        Object.values(metricValues).flatMap(regionValues => Object.values(regionValues)),
+        classCount,
+        classMethod
+      ),
+    [metricValues, classCount, classMethod]
+  );
+  const classColors = getSequentialColors(
+    colors[Math.max(metricIds.indexOf(metricId), 0) % colors.length],
+    classCount
+  );
+
+  const paths = useMemo(() => {
+    const bounds = getGeometryBounds(regions.map(region => region.geometry));
+    if (!bounds) return [];
+    const project = createProjection(bounds, WIDTH, HEIGHT);
+    return regions.map(region => ({
+      id: region.id,
+      name: region.name,
+      path: geometryToPath(region.geometry, project),
+    }));
+  }, [regions]);
+
+  if (!paths.length) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p className="text-muted-foreground">No region boundaries available for this map</p>
+      </div>
+    );
+  }
+
+  const unit = metricUnits[metricId] || '';
+  const hoveredRegion = hovered && paths.find(path => path.id === hovered.regionId);
+  const hoveredValue = hovered ? periodValues[hovered.regionId] : undefined;
+
+  return (
+    <div className="flex h-full w-full flex-col gap-2">
+      {metricIds.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {metricIds.map(id => (
+            <button
+              key={id}
+              type="button"
+              className={`rounded border px-2 py-1 text-xs ${id === metricId ? 'border-gray-300 bg-background font-medium' : 'border-gray-200 bg-gray-50 text-gray-500 dark:bg-gray-800'}`}
+              onClick={() => setMetricId(id)}
+            >
+              {metricNames[id] || id}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={containerRef}
+        className="relative min-h-0 flex-1"
+        onMouseLeave={() => setHovered(null)}
+      >
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="h-full w-full"
+        >
+          {paths.map(({ id, path }) => {
+            const value = periodValues[id];
+            return (
+              <path
+                key={id}
+                d={path}
+                fillRule="evenodd"
+                fill={
+                  value === undefined ? NO_DATA_COLOR : classColors[getClassIndex(value, breaks)]
+                }
+                stroke={hovered?.regionId === id ? '#111827' : '#ffffff'}
+                strokeWidth={hovered?.regionId === id ? 1.5 : 0.75}
+                onMouseMove={event => {
+                  const rect = containerRef.current?.getBoundingClientRect();
+                  if (!rect) return;
+                  setHovered({
+                    regionId: id,
+                    x: event.clientX - rect.left,
+                    y: event.clientY - rect.top,
+                  });
+                }}
+              />
+            );
+          })}
+        </svg>
+
+        {hovered && hoveredRegion && (
+          <div
+            className="pointer-events-none absolute z-10 rounded border bg-background px-2 py-1 text-xs shadow"
+            style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+          >
+            <div className="font-medium">{hoveredRegion.name}</div>
+            <div className="text-muted-foreground">
+              {period}:{' '}
+              {hoveredValue === undefined ? 'No data' : `${formatValue(hoveredValue)} ${unit}`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showLegend && breaks.length > 0 && (
+        <ul className="flex flex-wrap justify-center gap-2 px-4">
+          {classColors.map((color, index) => (
+            <li key={color} className="flex items-center text-xs">
+              <span
+                className="mr-1 inline-block h-3 w-3 rounded-sm"
+                style={{ background: color }}
+              />
+              {formatValue(breaks[index])} – {formatValue(breaks[index + 1])}
+            </li>
+          ))}
+          <li className="flex items-center text-xs text-muted-foreground">
+            <span
+              className="mr-1 inline-block h-3 w-3 rounded-sm"
+              style={{ background: NO_DATA_COLOR }}
+            />
+            No data
+          </li>
+        </ul>
+      )}
+
+      {/* Period scrubber */}
+      {periods.length > 1 && (
+        <div className="flex items-center gap-3 px-4 pb-2">
+          <span className="w-20 text-sm font-medium">{period}</span>
+          <Slider
+            value={[selectedIndex]}
+            min={0}
+            max={periods.length - 1}
+            step={1}
+            onValueChange={([index]) => setPeriodIndex(index)}
+            className="flex-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
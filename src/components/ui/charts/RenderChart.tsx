@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type ReactElement } from 'react';
 import {
   LineChart,
   Line,
@@ -15,11 +15,28 @@ import {
   Legend,
   ResponsiveContainer,
   Cell,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
 } from 'recharts';
 import { useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tables } from '@/types/database';
+import { formatPeriod, getFinestFrequency, getPeriodStart, isValidPeriod } from '@/lib/periods';
+import { fetchRegionTree, getRegionDescendantIds, regionTreeQueryKey } from '@/lib/regions';
+import { fetchMetricSeries } from '@/lib/series';
+import {
+  fetchMetricNotes,
+  getDisplayedNotes,
+  isPeriodInNoteRange,
+  notesQueryKey,
+} from '@/lib/notes';
+import { ClassBreakMethod, fetchRegionGeometries, regionGeometriesQueryKey } from '@/lib/geometry';
+import { ChartHighlight } from '@/lib/highlights';
+import { fetchMetricSources, sourcesQueryKey } from '@/lib/sources';
+import { SourceCitation } from '@/components/source-citation';
+import ChoroplethMap, { MapValues } from './ChoroplethMap';
 
 // Type for chart data structure
 type ChartDataPoint = {
@@ -43,10 +60,14 @@ type BaseChartConfig = {
   showLegend: boolean;
   showAxisLabels?: boolean;
   colorScheme: 'default' | 'pastel' | 'vibrant' | 'orange';
-  aggregation: 'none' | 'sum' | 'avg' | 'min' | 'max';
+  aggregation: 'none' | 'sum' | 'avg' | 'min' | 'max' | 'weighted_avg';
   regionIds?: string[];
   hideDots?: boolean;
   separateRegions?: boolean;
+  // Only published data, as embeds show it
+  publicOnly?: boolean;
+  // Editorial callouts of a saved chart
+  highlights?: ChartHighlight[];
 };
 
 // Chart-specific configurations
@@ -71,8 +92,21 @@ type PieChartConfig = BaseChartConfig & {
   outerRadius?: number;
 };
 
+type MapChartConfig = BaseChartConfig & {
+  chartType: 'map';
+  mapClassCount?: number;
+  mapClassMethod?: ClassBreakMethod;
+};
+
 // Combined type for all chart configurations
-type RenderChartProps = LineChartConfig | BarChartConfig | AreaChartConfig | PieChartConfig;
+type RenderChartProps =
+  LineChartConfig | BarChartConfig | AreaChartConfig | PieChartConfig | MapChartConfig;
+
+// Color of the note markers, kept neutral to stand apart from the series
+const NOTE_COLOR = '#64748b';
+const HIGHLIGHT_COLOR = '#d97706';
+// Callouts show the start of their text, the summary list has all of it
+const CALLOUT_LENGTH = 40;
 
 // Color schemes definition
 const COLOR_SCHEMES: ColorScheme = {
@@ -96,6 +130,8 @@ export default function RenderChart(props: RenderChartProps) {
     aggregation,
     regionIds,
     separateRegions = false,
+    publicOnly = false,
+    highlights = [],
   } = props;
   const showAxisLabels = props.showAxisLabels !== undefined ? props.showAxisLabels : true;
 
@@ -109,14 +145,19 @@ export default function RenderChart(props: RenderChartProps) {
   const innerRadius = chartType === 'pie' ? (props as PieChartConfig).innerRadius || 0 : undefined;
   const outerRadius = chartType === 'pie' ? (props as PieChartConfig).outerRadius || 80 : undefined;
   const hideDots = props.hideDots || false;
+  const mapClassCount =
+    chartType === 'map' ? (props as MapChartConfig).mapClassCount || 5 : undefined;
+  const mapClassMethod =
+    chartType === 'map' ? (props as MapChartConfig).mapClassMethod || 'quantile' : undefined;
 
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [metricNames, setMetricNames] = useState<{ [key: string]: string }>({});
   const [metricUnits, setMetricUnits] = useState<{ [key: string]: string | null }>({});
   const [regionNames, setRegionNames] = useState<{ [key: string]: string }>({});
   const [visibleSeries, setVisibleSeries] = useState<{ [key: string]: boolean }>({});
+  const [mapValues, setMapValues] = useState<MapValues>({});
 
-  // Fetch metrics info (names and units) for the chart
+  // Fetch metrics info (names, units and frequencies) for the chart
   const { data: metrics, isLoading: isLoadingMetrics } = useQuery({
     queryKey: ['chart-metrics', metricIds],
     queryFn: async () => {
@@ -124,7 +165,7 @@ export default function RenderChart(props: RenderChartProps) {
 
       const { data, error } = await supabaseClient
         .from('metrics')
-        .select('id, name, unit')
+        .select('id, name, unit, frequency')
         .in('id', metricIds);
 
       if (error) throw error;
@@ -150,42 +191,72 @@ export default function RenderChart(props: RenderChartProps) {
     enabled: separateRegions && regionIds !== undefined && regionIds.length > 0,
   });
 
-  // Fetch data points for selected metrics and date range
+  // Fetch the region hierarchy, maps draw the deepest displayed regions
+  const { data: regionTree, isLoading: isLoadingRegionTree } = useQuery({
+    queryKey: regionTreeQueryKey,
+    queryFn: fetchRegionTree,
+    enabled: chartType === 'map',
+  });
+
+  // Fetch the region boundaries drawn by maps
+  const { data: regionGeometries, isLoading: isLoadingGeometries } = useQuery({
+    queryKey: regionGeometriesQueryKey,
+    queryFn: fetchRegionGeometries,
+    enabled: chartType === 'map',
+  });
+
+  // Series share the time axis of the finest metric frequency
+  const frequency = getFinestFrequency((metrics ?? []).map(metric => metric.frequency));
+
+  // Fetch the series aggregated by period on the server. Parent regions without data get the
+  // roll-up of their children; without separate regions, regions are combined there as well.
+  const byRegion = separateRegions || chartType === 'map';
   const { data: dataPoints, isLoading: isLoadingData } = useQuery({
-    queryKey: ['chart-data-points', metricIds, dateRange, regionIds],
+    queryKey: [
+      'chart-series',
+      metricIds,
+      dateRange,
+      regionIds,
+      frequency,
+      aggregation,
+      byRegion,
+      publicOnly,
+    ],
     queryFn: async () => {
       if (!metricIds.length || !dateRange.from || !dateRange.to) return [];
       if (regionIds && regionIds.length === 0) return [];
-      const fromDate = dateRange.from.toISOString().split('T')[0];
-      const toDate = dateRange.to.toISOString().split('T')[0];
-      const dataPromises = metricIds.map(metricId => {
-        let query = supabaseClient
-          .from('metric_data')
-          .select('*')
-          .eq('metric_id', metricId)
-          .gte('date', fromDate)
-          .lte('date', toDate)
-          .order('date', { ascending: true });
-        if (regionIds && regionIds.length > 0) {
-          query = query.in('region_id', regionIds);
-        }
-        return query;
+      return fetchMetricSeries({
+        metricIds,
+        regionIds,
+        dateRange: { from: dateRange.from, to: dateRange.to },
+        frequency,
+        aggregation: aggregation === 'none' ? 'sum' : aggregation,
+        byRegion,
+        publicOnly,
       });
-      const results = await Promise.all(dataPromises);
-      const errors = results.filter(result => result.error);
-      if (errors.length) throw errors[0].error;
-      return results.map((result, index) => ({
-        metricId: metricIds[index],
-        data: result.data || [],
-      }));
     },
     enabled:
       metricIds.length > 0 &&
+      !!metrics &&
       !!dateRange.from &&
       !!dateRange.to &&
       (regionIds === undefined || regionIds.length > 0),
   });
 
+  // Fetch the notes of the metrics, drawn over the time axis
+  const { data: notes } = useQuery({
+    queryKey: [...notesQueryKey, metricIds],
+    queryFn: () => fetchMetricNotes(metricIds),
+    enabled: metricIds.length > 0,
+  });
+
+  // Fetch the sources of the metrics, cited under the chart
+  const { data: sources = [] } = useQuery({
+    queryKey: [...sourcesQueryKey, 'metrics', metricIds],
+    queryFn: () => fetchMetricSources(metricIds),
+    enabled: metricIds.length > 0,
+  });
+
   // Process the fetched data into the format needed for charts
   useEffect(() => {
     if (!dataPoints || !metrics) return;
@@ -211,6 +282,22 @@ export default function RenderChart(props: RenderChartProps) {
       setRegionNames(regionsMap);
     }
 
+    if (chartType === 'map') {
+      // Maps shade each region with its value for the selected period
+      const values: MapValues = {};
+      dataPoints.forEach(point => {
+        if (!point.region_id) return;
+        const period = formatPeriod(point.period, frequency);
+        values[point.metric_id] = {
+          ...values[point.metric_id],
+          [period]: { ...values[point.metric_id]?.[period], [point.region_id]: point.value },
+        };
+      });
+
+      setMapValues(values);
+      return;
+    }
+
     if (separateRegions) {
       // For separate regions mode, organize data by date, metric and region
       const dataByTimestampMetricAndRegion: {
@@ -219,30 +306,26 @@ export default function RenderChart(props: RenderChartProps) {
         };
       } = {};
 
-      dataPoints.forEach(({ metricId, data }) => {
-        data.forEach(point => {
-          const timestamp = point.date;
-          const regionId = point.region_id;
+      dataPoints.forEach(point => {
+        const timestamp = point.period;
 
-          if (!dataByTimestampMetricAndRegion[timestamp]) {
-            dataByTimestampMetricAndRegion[timestamp] = {};
-          }
+        if (!dataByTimestampMetricAndRegion[timestamp]) {
+          dataByTimestampMetricAndRegion[timestamp] = {};
+        }
 
-          // Create a unique key for each metric-region combination
-          const metricRegionKey = `${metricId}:${regionId}`;
-          dataByTimestampMetricAndRegion[timestamp][metricRegionKey] = Number(point.value);
+        // Create a unique key for each metric-region combination
+        const metricRegionKey = `${point.metric_id}:${point.region_id}`;
+        dataByTimestampMetricAndRegion[timestamp][metricRegionKey] = point.value;
 
-          // Initialize all series as visible in the first render
-          if (visibleSeries[metricRegionKey] === undefined) {
-            setVisibleSeries(prev => ({ ...prev, [metricRegionKey]: true }));
-          }
-        });
+        // Initialize all series as visible in the first render
+        if (visibleSeries[metricRegionKey] === undefined) {
+          setVisibleSeries(prev => ({ ...prev, [metricRegionKey]: true }));
+        }
       });
 
       const processedData: ChartDataPoint[] = Object.keys(dataByTimestampMetricAndRegion).map(
         timestamp => {
-          const date = new Date(timestamp);
-          const formattedDate = date.getUTCFullYear().toString();
+          const formattedDate = formatPeriod(timestamp, frequency);
 
           const dataPoint: ChartDataPoint = {
             timestamp,
@@ -267,63 +350,33 @@ export default function RenderChart(props: RenderChartProps) {
 
       setChartData(processedData);
     } else {
-      // Original aggregated data processing for non-separate regions mode
-      // Organize data points by date and metric
+      // Regions are already combined on the server, one value per period and metric
       const dataByTimestampAndMetric: {
         [timestamp: string]: {
-          [metricId: string]: {
-            sum: number;
-            count: number;
-          };
+          [metricId: string]: number;
         };
       } = {};
 
-      dataPoints.forEach(({ metricId, data }) => {
-        data.forEach(point => {
-          const timestamp = point.date; // Use date as timestamp
-
-          if (!dataByTimestampAndMetric[timestamp]) {
-            dataByTimestampAndMetric[timestamp] = {};
-          }
-
-          if (!dataByTimestampAndMetric[timestamp][metricId]) {
-            dataByTimestampAndMetric[timestamp][metricId] = {
-              sum: 0,
-              count: 0,
-            };
-          }
-
-          dataByTimestampAndMetric[timestamp][metricId].sum += Number(point.value);
-          dataByTimestampAndMetric[timestamp][metricId].count += 1;
-        });
+      dataPoints.forEach(point => {
+        dataByTimestampAndMetric[point.period] = {
+          ...dataByTimestampAndMetric[point.period],
+          [point.metric_id]: point.value,
+        };
       });
 
       // Transform the data into an array for Recharts
       const processedData: ChartDataPoint[] = Object.keys(dataByTimestampAndMetric).map(
         timestamp => {
-          const date = new Date(timestamp);
-          // Afficher uniquement l'année
-          const formattedDate = date.getUTCFullYear().toString();
+          // Afficher la période selon la fréquence des métriques (année, trimestre, mois, jour)
+          const formattedDate = formatPeriod(timestamp, frequency);
 
           const dataPoint: ChartDataPoint = {
             timestamp,
             formattedDate,
           };
 
-          // Add values for each metric based on the aggregation method
           metricIds.forEach(metricId => {
-            const metricData = dataByTimestampAndMetric[timestamp][metricId];
-            if (metricData) {
-              // Apply region aggregation based on selected method
-              if (aggregation === 'avg' && metricData.count > 0) {
-                dataPoint[metricId] = metricData.sum / metricData.count;
-              } else {
-                // Default to sum for other aggregation types or when none is specified
-                dataPoint[metricId] = metricData.sum;
-              }
-            } else {
-              dataPoint[metricId] = 0;
-            }
+            dataPoint[metricId] = dataByTimestampAndMetric[timestamp][metricId] ?? 0;
           });
 
           return dataPoint;
@@ -357,10 +410,16 @@ export default function RenderChart(props: RenderChartProps) {
         setChartData(processedData);
       }
     }
-  }, [dataPoints, metrics, metricIds, aggregation, chartType, regions, separateRegions]);
+  }, [dataPoints, metrics, metricIds, chartType, regions, separateRegions, frequency]);
 
   // If loading or no data, show placeholder
-  if (isLoadingMetrics || isLoadingData || (separateRegions && isLoadingRegions)) {
+  if (
+    isLoadingMetrics ||
+    isLoadingRegionTree ||
+    isLoadingData ||
+    (separateRegions && isLoadingRegions) ||
+    (chartType === 'map' && isLoadingGeometries)
+  ) {
     return (
       <div className="flex h-full w-full items-center justify-center">
         <Skeleton className="h-full w-full" />
@@ -368,7 +427,8 @@ export default function RenderChart(props: RenderChartProps) {
     );
   }
 
-  if (!chartData.length) {
+  const hasMapValues = Object.values(mapValues).some(periods => Object.keys(periods).length > 0);
+  if (chartType === 'map' ? !hasMapValues : !chartData.length) {
     return (
       <div className="flex h-full w-full items-center justify-center">
         <p className="text-muted-foreground">No data available for the selected criteria</p>
@@ -380,6 +440,135 @@ export default function RenderChart(props: RenderChartProps) {
   const colors = COLOR_SCHEMES[colorScheme];
   console.log('Using color scheme:', colorScheme, 'with colors:', colors);
 
+  // Notes about the displayed dates and regions, numbered in the order they are listed
+  const displayedNotes = getDisplayedNotes(notes ?? [], { dateRange, regionIds, publicOnly });
+
+  // A line on the period of a note, or an area over the periods it covers
+  const noteMarkers = displayedNotes.flatMap((note, index) => {
+    const periods = chartData
+      .filter(point => isPeriodInNoteRange(point.timestamp, note, frequency))
+      .map(point => point.formattedDate);
+    if (!periods.length) return [];
+
+    const label = { value: `[${index + 1}]`, fill: NOTE_COLOR, fontSize: 11 };
+    if (periods.length === 1) {
+      return [
+        <ReferenceLine
+          key={note.id}
+          x={periods[0]}
+          stroke={NOTE_COLOR}
+          strokeDasharray="4 4"
+          label={{ ...label, position: 'top' }}
+        />,
+      ];
+    }
+    return [
+      <ReferenceArea
+        key={note.id}
+        x1={periods[0]}
+        x2={periods[periods.length - 1]}
+        fill={NOTE_COLOR}
+        fillOpacity={0.08}
+        label={{ ...label, position: 'insideTop' }}
+      />,
+    ];
+  });
+
+  // A callout on the period, series or band of values a highlight is anchored to
+  const highlightCallouts = highlights.flatMap((highlight, index) => {
+    const { period, metricId, valueRange } = highlight.context;
+    const text =
+      highlight.highlight.length > CALLOUT_LENGTH
+        ? `${highlight.highlight.slice(0, CALLOUT_LENGTH)}…`
+        : highlight.highlight;
+    const label = { value: `${index + 1}. ${text}`, fill: HIGHLIGHT_COLOR, fontSize: 11 };
+
+    // Periods are matched at the frequency of the chart
+    const point =
+      period && isValidPeriod(period)
+        ? chartData.find(
+            data => data.formattedDate === formatPeriod(getPeriodStart(period), frequency)
+          )
+        : undefined;
+
+    if (valueRange && (valueRange.from !== null || valueRange.to !== null)) {
+      return [
+        <ReferenceArea
+          key={highlight.id}
+          x1={point?.formattedDate}
+          x2={point?.formattedDate}
+          y1={valueRange.from ?? undefined}
+          y2={valueRange.to ?? undefined}
+          fill={HIGHLIGHT_COLOR}
+          fillOpacity={0.12}
+          ifOverflow="extendDomain"
+          label={{ ...label, position: 'insideTopLeft' }}
+        />,
+      ];
+    }
+    if (!point) return [];
+
+    const value = metricId && !separateRegions ? point[metricId] : undefined;
+    if (typeof value === 'number') {
+      return [
+        <ReferenceDot
+          key={highlight.id}
+          x={point.formattedDate}
+          y={value}
+          r={6}
+          fill={HIGHLIGHT_COLOR}
+          stroke="white"
+          label={{ ...label, position: 'top' }}
+        />,
+      ];
+    }
+    return [
+      <ReferenceLine
+        key={highlight.id}
+        x={point.formattedDate}
+        stroke={HIGHLIGHT_COLOR}
+        label={{ ...label, position: 'insideTopLeft' }}
+      />,
+    ];
+  });
+
+  // Highlights are summed up above the plot, time charts list their notes below it, followed by
+  // the sources
+  const withAnnotations = (chart: ReactElement, showNotes = true) =>
+    highlights.length || (showNotes && displayedNotes.length) || sources.length ? (
+      <div className="flex h-full w-full flex-col">
+        {highlights.length > 0 && (
+          <ol className="mb-2 space-y-1 px-4 text-sm">
+            {highlights.map((highlight, index) => (
+              <li key={highlight.id} className="flex items-start gap-2">
+                <span
+                  className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-medium text-white"
+                  style={{ backgroundColor: HIGHLIGHT_COLOR }}
+                >
+                  {index + 1}
+                </span>
+                {highlight.highlight}
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="min-h-0 flex-1">{chart}</div>
+        {showNotes && displayedNotes.length > 0 && (
+          <ol className="mt-2 space-y-0.5 px-4 text-xs text-muted-foreground">
+            {displayedNotes.map((note, index) => (
+              <li key={note.id}>
+                <span className="mr-1 font-medium">[{index + 1}]</span>
+                {note.note}
+              </li>
+            ))}
+          </ol>
+        )}
+        <SourceCitation sources={sources} className="mt-2 px-4" />
+      </div>
+    ) : (
+      chart
+    );
+
   // Custom interactive legend component
   const CustomizedLegend = ({ payload }: any) => {
     if (!payload || payload.length === 0) return null;
@@ -432,7 +621,7 @@ export default function RenderChart(props: RenderChartProps) {
   // Render different chart types
   switch (chartType) {
     case 'line': {
-      return (
+      return withAnnotations(
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" />
@@ -492,13 +681,15 @@ export default function RenderChart(props: RenderChartProps) {
                     />
                   );
                 })}
+            {noteMarkers}
+            {highlightCallouts}
           </LineChart>
         </ResponsiveContainer>
       );
     }
 
     case 'bar': {
-      return (
+      return withAnnotations(
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" />
@@ -554,13 +745,15 @@ export default function RenderChart(props: RenderChartProps) {
                     />
                   );
                 })}
+            {noteMarkers}
+            {highlightCallouts}
           </BarChart>
         </ResponsiveContainer>
       );
     }
 
     case 'area': {
-      return (
+      return withAnnotations(
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" />
@@ -622,6 +815,8 @@ export default function RenderChart(props: RenderChartProps) {
                     />
                   );
                 })}
+            {noteMarkers}
+            {highlightCallouts}
           </AreaChart>
         </ResponsiveContainer>
       );
@@ -641,7 +836,7 @@ export default function RenderChart(props: RenderChartProps) {
         };
       });
 
-      return (
+      return withAnnotations(
         <ResponsiveContainer width="100%" height="100%">
           <PieChart>
             <Pie
@@ -671,7 +866,45 @@ export default function RenderChart(props: RenderChartProps) {
               }}
             />
           </PieChart>
-        </ResponsiveContainer>
+        </ResponsiveContainer>,
+        false
+      );
+    }
+
+    case 'map': {
+      // Draw the displayed regions with a boundary, parents are hidden by their drawn children
+      const displayedRegionIds = regionIds ?? (regionTree ?? []).map(region => region.id);
+      const geometries = new Map(
+        (regionGeometries ?? []).map(region => [region.id, region.geometry])
+      );
+      const drawnRegionIds = displayedRegionIds.filter(
+        regionId =>
+          geometries.has(regionId) &&
+          !getRegionDescendantIds([regionId], regionTree ?? []).some(
+            descendantId =>
+              descendantId !== regionId &&
+              displayedRegionIds.includes(descendantId) &&
+              geometries.has(descendantId)
+          )
+      );
+
+      return withAnnotations(
+        <ChoroplethMap
+          values={mapValues}
+          metricIds={metricIds}
+          metricNames={metricNames}
+          metricUnits={metricUnits}
+          regions={drawnRegionIds.map(regionId => ({
+            id: regionId,
+            name: regionTree?.find(region => region.id === regionId)?.name || regionId,
+            geometry: geometries.get(regionId)!,
+          }))}
+          colors={colors}
+          classCount={mapClassCount ?? 5}
+          classMethod={mapClassMethod ?? 'quantile'}
+          showLegend={showLegend}
+        />,
+        false
       );
     }
 
@@ -1,9 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import supabaseClient from '@/lib/supabase-client';
-import { Tables } from '@/types/database';
+import { MetricWithStats, useMetricsWithStats } from '@/hooks/use-metrics-with-stats';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { TreeView, type TreeDataItem } from '@/components/tree-view';
@@ -16,12 +14,8 @@ import { Button } from '@/components/ui/button';
 import { ChevronDown } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import { useTranslations } from 'next-intl';
-
-// Type for metrics with additional data count
-type MetricWithStats = Tables<'metrics'> & {
-  data_count: number;
-  last_data_point: string | null;
-};
+import { hasAllTags } from '@/lib/tags';
+import { TagFilter } from '@/components/tag-filter';
 
 // Extended TreeDataItem with custom data field
 interface MetricTreeDataItem extends TreeDataItem {
@@ -48,59 +42,22 @@ export function MetricTreeSelector({
 }: MetricTreeSelectorProps) {
   const t = useTranslations();
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [expandedNodes, setExpandedNodes] = useState<string[]>([]);
 
   // Fetch metrics data with stats to check which have values
-  const { data: metrics, isLoading } = useQuery({
-    queryKey: ['metrics-with-stats-tree'],
-    queryFn: async () => {
-      // Get all metrics
-      const { data: metricsData, error: metricsError } = await supabaseClient
-        .from('metrics')
-        .select('*');
-
-      if (metricsError) throw metricsError;
-
-      // For each metric, get count and latest data point
-      const metricsWithStats = await Promise.all(
-        metricsData.map(async metric => {
-          // Get count of data points
-          const { count, error: countError } = await supabaseClient
-            .from('metric_data')
-            .select('*', { count: 'exact', head: true })
-            .eq('metric_id', metric.id);
-
-          if (countError) throw countError;
-
-          // Get latest data point
-          const { data: latestData, error: latestError } = await supabaseClient
-            .from('metric_data')
-            .select('date')
-            .eq('metric_id', metric.id)
-            .order('date', { ascending: false })
-            .limit(1);
-
-          if (latestError) throw latestError;
-
-          return {
-            ...metric,
-            data_count: count || 0,
-            last_data_point: latestData && latestData.length > 0 ? latestData[0].date : null,
-          } as MetricWithStats;
-        })
-      );
-
-      return metricsWithStats;
-    },
-  });
-
-  // Filter metrics based on search query
-  const filteredMetrics = metrics?.filter(
+  const { data: metrics, isLoading } = useMetricsWithStats();
+
+  // Filter metrics based on search query, then on the selected tags
+  const searchedMetrics = metrics?.filter(
     metric =>
       metric.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       (metric.description || '').toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const filteredMetrics = searchedMetrics?.filter(metric =>
+    hasAllTags(metric.tags, selectedTagIds)
+  );
 
   // Transform metrics to tree structure
   const transformMetricsToTree = (metrics: MetricWithStats[] | undefined): MetricTreeDataItem[] => {
@@ -272,6 +229,12 @@ export function MetricTreeSelector({
               className="h-8 border-0 bg-transparent p-0 focus-visible:ring-0"
             />
           </div>
+          <TagFilter
+            className="border-b px-3 py-2"
+            itemTags={searchedMetrics?.map(metric => metric.tags) ?? []}
+            selectedTagIds={selectedTagIds}
+            onSelectedTagIdsChange={setSelectedTagIds}
+          />
 
           {isLoading ? (
             <div className="space-y-2 p-4">
@@ -0,0 +1,74 @@
+'use client';
+
+import * as React from 'react';
+import { Slider } from './slider';
+import { cn } from '@/lib/utils';
+import { getPeriodsInRange, MetricFrequency, PeriodRange } from '@/lib/periods';
+
+interface PeriodRangeSliderProps {
+  frequency: MetricFrequency;
+  minYear?: number;
+  maxYear?: number;
+  value: PeriodRange;
+  onChange: (value: PeriodRange) => void;
+  className?: string;
+}
+
+const PeriodRangeSlider = React.forwardRef<HTMLDivElement, PeriodRangeSliderProps>(
+  (
+    { frequency, minYear = 1980, maxYear = new Date().getFullYear(), value, onChange, className },
+    ref
+  ) => {
+    // Every period between January 1st of minYear and December 31st of maxYear
+    const periods = React.useMemo(
+      () =>
+        getPeriodsInRange(
+          new Date(Date.UTC(minYear, 0, 1)),
+          new Date(Date.UTC(maxYear, 11, 31)),
+          frequency
+        ),
+      [minYear, maxYear, frequency]
+    );
+
+    // Periods outside the slider bounds are clamped to them
+    const getIndex = (period: string, fallback: number) => {
+      const index = periods.indexOf(period);
+      if (index !== -1) return index;
+      return period < periods[0]
+        ? 0
+        : period > periods[periods.length - 1]
+          ? periods.length - 1
+          : fallback;
+    };
+
+    const sliderValues = [getIndex(value[0], 0), getIndex(value[1], periods.length - 1)];
+
+    // Handler for the slider change
+    const handleSliderChange = (newValues: number[]) => {
+      onChange([periods[newValues[0]], periods[newValues[1]]]);
+    };
+
+    return (
+      <div ref={ref} className={cn('space-y-4', className)}>
+        <div className="flex justify-between">
+          <div className="font-medium">{periods[sliderValues[0]]}</div>
+          <div className="font-medium">{periods[sliderValues[1]]}</div>
+        </div>
+        <Slider
+          value={sliderValues}
+          max={periods.length - 1}
+          step={1}
+          onValueChange={handleSliderChange}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <div>{periods[0]}</div>
+          <div>{periods[periods.length - 1]}</div>
+        </div>
+      </div>
+    );
+  }
+);
+PeriodRangeSlider.displayName = 'PeriodRangeSlider';
+
+export { PeriodRangeSlider };
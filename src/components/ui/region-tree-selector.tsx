@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslations } from 'next-intl';
+import { ChevronDown, Globe, Map as MapIcon, MapPin, Search } from 'lucide-react';
+import { fetchRegionTree, regionTreeQueryKey, type RegionNode } from '@/lib/regions';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TreeView, type TreeDataItem } from '@/components/tree-view';
+import { Card, CardContent } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+interface RegionTreeSelectorProps {
+  selectedRegions: string[];
+  onSelectRegions: (regionIds: string[]) => void;
+  buttonLabel?: string;
+}
+
+const LEVEL_ICONS: Record<RegionNode['level'], typeof Globe> = {
+  country: Globe,
+  region: MapIcon,
+  department: MapPin,
+};
+
+export function RegionTreeSelector({
+  selectedRegions,
+  onSelectRegions,
+  buttonLabel,
+}: RegionTreeSelectorProps) {
+  const t = useTranslations();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dropdownOpen, setDropdownOpen] = useState(false);
+
+  const { data: regions, isLoading } = useQuery({
+    queryKey: regionTreeQueryKey,
+    queryFn: fetchRegionTree,
+  });
+
+  const allSelected = !!regions?.length && selectedRegions.length === regions.length;
+
+  // Transform regions to tree structure, keeping the ancestors of the regions matching the search
+  const treeData = useMemo(() => {
+    if (!regions) return [];
+
+    const regionsMap = new Map(regions.map(region => [region.id, region]));
+    const childrenMap = new Map<string, RegionNode[]>();
+    regions.forEach(region => {
+      if (region.parent_id && regionsMap.has(region.parent_id)) {
+        childrenMap.set(region.parent_id, [...(childrenMap.get(region.parent_id) ?? []), region]);
+      }
+    });
+
+    const query = searchQuery.trim().toLowerCase();
+    const matches = (region: RegionNode) =>
+      !query ||
+      region.name.toLowerCase().includes(query) ||
+      region.code.toLowerCase().includes(query);
+
+    const buildTree = (region: RegionNode, visited: Set<string>): TreeDataItem | null => {
+      if (visited.has(region.id)) return null;
+      visited.add(region.id);
+
+      const children = (childrenMap.get(region.id) ?? [])
+        .map(child => buildTree(child, visited))
+        .filter((child): child is TreeDataItem => child !== null);
+
+      if (!matches(region) && children.length === 0) return null;
+
+      const icon = LEVEL_ICONS[region.level];
+      return {
+        id: region.id,
+        name: region.name,
+        icon,
+        selectedIcon: icon,
+        openIcon: icon,
+        ...(children.length > 0 ? { children } : {}),
+      };
+    };
+
+    // Root regions have no parent, or a parent that doesn't exist anymore
+    return regions
+      .filter(region => !region.parent_id || !regionsMap.has(region.parent_id))
+      .map(region => buildTree(region, new Set()))
+      .filter((item): item is TreeDataItem => item !== null);
+  }, [regions, searchQuery]);
+
+  const handleSelectRegion = (regionId: string) => {
+    if (selectedRegions.includes(regionId)) {
+      onSelectRegions(selectedRegions.filter(id => id !== regionId));
+    } else {
+      onSelectRegions([...selectedRegions, regionId]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('metrics.configurator.regions')}</Label>
+
+      <Popover open={dropdownOpen} onOpenChange={setDropdownOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={dropdownOpen}
+            className="w-full justify-between"
+          >
+            {selectedRegions.length === 0
+              ? buttonLabel || t('metrics.configurator.selectRegions')
+              : allSelected
+                ? t('metrics.configurator.allRegions')
+                : `${selectedRegions.length} ${t('metrics.configurator.regionSelected', { count: selectedRegions.length })}`}
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <div className="flex items-center border-b px-3 py-2">
+            <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+            <Input
+              placeholder={t('regions.searchPlaceholder')}
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              className="h-8 border-0 bg-transparent p-0 focus-visible:ring-0"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2 p-4">
+              {Array(3)
+                .fill(0)
+                .map((_, i) => (
+                  <Skeleton key={i} className="h-8 w-full" />
+                ))}
+            </div>
+          ) : (
+            <Card className="border-0 shadow-none">
+              <CardContent className="max-h-[300px] overflow-y-auto p-1">
+                {treeData.length === 0 ? (
+                  <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                    {t('metrics.configurator.noRegions')}
+                  </div>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mb-1 w-full justify-start"
+                      onClick={() =>
+                        onSelectRegions(allSelected ? [] : (regions ?? []).map(r => r.id))
+                      }
+                    >
+                      {allSelected
+                        ? t('metrics.configurator.clearRegions')
+                        : t('metrics.configurator.allRegions')}
+                    </Button>
+                    <TreeView
+                      data={treeData}
+                      defaultNodeIcon={MapIcon}
+                      defaultLeafIcon={MapPin}
+                      expandAll
+                      onSelectChange={item => {
+                        if (item) {
+                          handleSelectRegion(item.id);
+                        }
+                      }}
+                      selectedIds={selectedRegions}
+                    />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {selectedRegions.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {(allSelected ? ['all'] : selectedRegions).map(regionId => (
+            <span
+              key={regionId}
+              className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs font-medium"
+            >
+              {regionId === 'all'
+                ? t('metrics.configurator.allRegions')
+                : regions?.find(r => r.id === regionId)?.name || regionId}
+              <button
+                className="ml-1 rounded-full p-0.5 hover:bg-primary/20"
+                onClick={() =>
+                  regionId === 'all' ? onSelectRegions([]) : handleSelectRegion(regionId)
+                }
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 20 20"
+                  fill="currentColor"
+                  className="h-3 w-3"
+                >
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,23 @@ import { useEffect, useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import supabaseClient from '@/lib/supabase-client';
 import { Tables } from '@/types/database';
+import {
+  formatPeriod,
+  getFinestFrequency,
+  getPeriodsInRange,
+  MetricFrequency,
+} from '@/lib/periods';
+import { fetchRegionTree } from '@/lib/regions';
+import { fetchMetricSeries } from '@/lib/series';
+import {
+  fetchMetricNotes,
+  getDisplayedNotes,
+  getNoteRegionId,
+  isPeriodInNoteRange,
+  notesQueryKey,
+} from '@/lib/notes';
+import { fetchMetricSources, sourcesQueryKey } from '@/lib/sources';
+import { SourceCitation } from '@/components/source-citation';
 import {
   Table,
   TableBody,
@@ -47,8 +64,10 @@ type TableDataPoint = {
   formattedDate: string;
   region?: string;
   regionId?: string;
+  // Period label ("2023", "2023-Q2", "2023-05"...), named year for the groupBy options
   year: string;
   metric: string;
+  metricId: string;
   value: string;
   unit: string;
   [key: string]: string | number | undefined;
@@ -64,6 +83,20 @@ type GroupedTableData = {
 // Type for grouping options
 type GroupByOption = 'year' | 'metric' | 'year-metric' | 'metric-year';
 
+// Column of a data point for the selected grouping
+const getGroupKey = (data: TableDataPoint, groupBy: GroupByOption) => {
+  switch (groupBy) {
+    case 'year':
+      return data.year;
+    case 'metric':
+      return data.metric;
+    case 'metric-year':
+      return `${data.metric} - ${data.year}`;
+    default:
+      return `${data.year} - ${data.metric}`;
+  }
+};
+
 // Type for table configuration
 type TableViewConfig = {
   showRowNumbers: boolean;
@@ -75,19 +108,6 @@ type TableViewConfig = {
   groupBy: GroupByOption;
 };
 
-// Helper function to generate all years in range
-function getAllYearsInRange(from: Date, to: Date): string[] {
-  const years: string[] = [];
-  const startYear = from.getFullYear();
-  const endYear = to.getFullYear();
-
-  for (let year = startYear; year <= endYear; year++) {
-    years.push(year.toString());
-  }
-
-  return years;
-}
-
 // Base table configuration
 type RenderTableProps = {
   metricIds: string[];
@@ -97,6 +117,8 @@ type RenderTableProps = {
   };
   regionIds?: string[];
   tableConfig: TableViewConfig;
+  // Only published data, as embeds show it
+  publicOnly?: boolean;
   onConfigChange?: (config: TableViewConfig) => void;
 };
 
@@ -106,11 +128,14 @@ export default function RenderTable({
   regionIds,
   tableConfig,
   onConfigChange,
+  publicOnly = false,
 }: RenderTableProps) {
   // Loading state
   const [isLoading, setIsLoading] = useState(true);
   // Table data state
   const [tableData, setTableData] = useState<TableDataPoint[]>([]);
+  // Finest frequency of the displayed metrics, used for the period columns
+  const [frequency, setFrequency] = useState<MetricFrequency>('annual');
   // Sorting state
   const [sorting, setSorting] = useState<SortingState>([]);
 
@@ -145,7 +170,7 @@ export default function RenderTable({
         // First get metric info
         const metricsResponse = await supabaseClient
           .from('metrics')
-          .select('id, name, unit')
+          .select('id, name, unit, frequency')
           .in('id', metricIds);
 
         if (metricsResponse.error) throw metricsResponse.error;
@@ -159,69 +184,42 @@ export default function RenderTable({
           metricUnits[metric.id] = metric.unit || '';
         });
 
-        // Get region names if needed
-        let regionNames: Record<string, string> = {};
+        const metricsFrequency = getFinestFrequency(metrics.map(metric => metric.frequency));
 
-        if (regionIds && regionIds.length > 0) {
-          const regionsResponse = await supabaseClient
-            .from('regions')
-            .select('id, name')
-            .in('id', regionIds);
+        // Region names, including the parents whose values are rolled up from their children
+        const regionTree = await fetchRegionTree();
+        const regionNames: Record<string, string> = {};
 
-          if (regionsResponse.error) throw regionsResponse.error;
-
-          regionsResponse.data.forEach(region => {
-            regionNames[region.id] = region.name;
-          });
-        }
-
-        // Fetch data points
-        const fromDate = dateRange.from.toISOString().split('T')[0];
-        const toDate = dateRange.to.toISOString().split('T')[0];
-
-        const dataPromises = metricIds.map(metricId => {
-          let query = supabaseClient
-            .from('metric_data')
-            .select('*')
-            .eq('metric_id', metricId)
-            .gte('date', fromDate)
-            .lte('date', toDate)
-            .order('date', { ascending: true });
-
-          if (regionIds && regionIds.length > 0) {
-            query = query.in('region_id', regionIds);
-          }
-
-          return query;
+        regionTree.forEach(region => {
+          regionNames[region.id] = region.name;
         });
 
-        const results = await Promise.all(dataPromises);
+        // Fetch the series of each region, aggregated by period on the server
+        const series = await fetchMetricSeries({
+          metricIds,
+          regionIds,
+          dateRange: { from: dateRange.from, to: dateRange.to },
+          frequency: metricsFrequency,
+          byRegion: true,
+          publicOnly,
+        });
 
         // Process data into table format
-        const tableRows: TableDataPoint[] = [];
-
-        results.forEach((result, index) => {
-          const metricId = metricIds[index];
-
-          result.data?.forEach(point => {
-            const date = new Date(point.date);
-            const year = date.getFullYear().toString();
-
-            tableRows.push({
-              id: `${metricId}-${point.date}-${point.region_id || 'global'}`,
-              year,
-              metric: metricNames[metricId],
-              value: Number(point.value).toLocaleString(),
-              unit: metricUnits[metricId],
-              region: point.region_id ? regionNames[point.region_id] || point.region_id : 'Global',
-              timestamp: point.date,
-              formattedDate: point.date,
-              regionId: point.region_id || undefined,
-            });
-          });
-        });
+        const tableRows: TableDataPoint[] = series.map(point => ({
+          id: `${point.metric_id}-${point.period}-${point.region_id || 'global'}`,
+          year: formatPeriod(point.period, metricsFrequency),
+          metric: metricNames[point.metric_id],
+          metricId: point.metric_id,
+          value: point.value.toLocaleString(),
+          unit: metricUnits[point.metric_id],
+          region: point.region_id ? regionNames[point.region_id] || point.region_id : 'Global',
+          timestamp: point.period,
+          formattedDate: point.period,
+          regionId: point.region_id || undefined,
+        }));
 
         if (isMounted) {
+          setFrequency(metricsFrequency);
           setTableData(tableRows);
           setIsLoading(false);
         }
@@ -239,7 +237,7 @@ export default function RenderTable({
     return () => {
       isMounted = false;
     };
-  }, [metricIds, dateRange, regionIds]);
+  }, [metricIds, dateRange, regionIds, publicOnly]);
 
   // Group data based on the selected grouping option
   const groupedData = useMemo(() => {
@@ -260,9 +258,11 @@ export default function RenderTable({
     // Track columns with no data
     const emptyColumns = new Set<string>();
 
-    // Generate all years in range
+    // Generate all periods in range
     const allYears =
-      dateRange.from && dateRange.to ? getAllYearsInRange(dateRange.from, dateRange.to) : [];
+      dateRange.from && dateRange.to
+        ? getPeriodsInRange(dateRange.from, dateRange.to, frequency)
+        : [];
 
     // For year-metric and metric-year hierarchical structures
     const years = new Set<string>(allYears);
@@ -354,24 +354,7 @@ export default function RenderTable({
       // Fill in values for this region
       tableData.forEach(data => {
         if (data.region === region) {
-          let groupKey: string;
-
-          switch (tableConfig.groupBy) {
-            case 'year':
-              groupKey = data.year;
-              break;
-            case 'metric':
-              groupKey = data.metric;
-              break;
-            case 'year-metric':
-              groupKey = `${data.year} - ${data.metric}`;
-              break;
-            case 'metric-year':
-              groupKey = `${data.metric} - ${data.year}`;
-              break;
-            default:
-              groupKey = `${data.year} - ${data.metric}`;
-          }
+          const groupKey = getGroupKey(data, tableConfig.groupBy);
 
           row[groupKey] = `${data.value} ${data.unit}`;
           columnsWithData.add(groupKey);
@@ -402,7 +385,45 @@ export default function RenderTable({
       },
       emptyColumns,
     };
-  }, [tableData, tableConfig.groupBy, dateRange]);
+  }, [tableData, tableConfig.groupBy, dateRange, frequency]);
+
+  // Fetch the notes of the metrics, shown as footnotes of the cells they are about
+  const { data: notes } = useQuery({
+    queryKey: [...notesQueryKey, metricIds],
+    queryFn: () => fetchMetricNotes(metricIds),
+    enabled: metricIds.length > 0,
+  });
+
+  // Fetch the sources of the metrics, cited under the table
+  const { data: sources = [] } = useQuery({
+    queryKey: [...sourcesQueryKey, 'metrics', metricIds],
+    queryFn: () => fetchMetricSources(metricIds),
+    enabled: metricIds.length > 0,
+  });
+
+  const displayedNotes = useMemo(
+    () => getDisplayedNotes(notes ?? [], { dateRange, regionIds, publicOnly }),
+    [notes, dateRange, regionIds, publicOnly]
+  );
+
+  // Footnote numbers of each cell, by region and column
+  const cellNotes = useMemo(() => {
+    const numbers: Record<string, number[]> = {};
+
+    tableData.forEach(data => {
+      displayedNotes.forEach((note, index) => {
+        const regionId = getNoteRegionId(note);
+        if (note.metric_id !== data.metricId) return;
+        if (regionId && regionId !== data.regionId) return;
+        if (!isPeriodInNoteRange(data.timestamp, note, frequency)) return;
+
+        const key = `${data.region}|${getGroupKey(data, tableConfig.groupBy)}`;
+        numbers[key] = [...(numbers[key] ?? []), index + 1];
+      });
+    });
+
+    return numbers;
+  }, [tableData, displayedNotes, frequency, tableConfig.groupBy]);
 
   // Define columns for TanStack Table
   const columns = useMemo<ColumnDef<GroupedTableData>[]>(() => {
@@ -741,6 +762,15 @@ export default function RenderTable({
                         } ${isEmptyColumn ? 'bg-gray-100 text-gray-400' : ''} `}
                       >
                         {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        {cellNotes[`${row.original.id}|${cell.column.id}`]?.map(number => (
+                          <sup
+                            key={number}
+                            className="ml-0.5 text-muted-foreground"
+                            title={displayedNotes[number - 1].note}
+                          >
+                            [{number}]
+                          </sup>
+                        ))}
                       </TableCell>
                     );
                   })}
@@ -757,6 +787,21 @@ export default function RenderTable({
         </Table>
       </div>
 
+      {/* Notes */}
+      {displayedNotes.length > 0 && (
+        <ol className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+          {displayedNotes.map((note, index) => (
+            <li key={note.id}>
+              <span className="mr-1 font-medium">[{index + 1}]</span>
+              {note.note}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Sources */}
+      <SourceCitation sources={sources} className="mt-2" />
+
       {/* Pagination */}
       {tableConfig.enablePagination && table.getPageCount() > 1 && (
         <div className="mt-4 flex items-center justify-center space-x-2">
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { RegionWithAliases, createRegionAlias, regionsWithAliasesQueryKey } from '@/lib/regions';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { MapPin, Plus } from 'lucide-react';
+
+export type UnresolvedRegion = {
+  label: string;
+  // Data points of the review using the label as region
+  pointsCount: number;
+  // Rows skipped during extraction because of the label
+  skippedCount: number;
+};
+
+interface UnresolvedRegionsProps {
+  unresolvedRegions: UnresolvedRegion[];
+  regions: RegionWithAliases[];
+  onAliasCreated: (label: string, region: RegionWithAliases) => void;
+}
+
+/**
+ * Region labels of an import that match no region, with one-click alias creation
+ */
+export function UnresolvedRegions({
+  unresolvedRegions,
+  regions,
+  onAliasCreated,
+}: UnresolvedRegionsProps) {
+  const t = useTranslations();
+  const queryClient = useQueryClient();
+  const [selectedRegions, setSelectedRegions] = useState<Record<string, string>>({});
+
+  const { mutate: addAlias, isPending } = useMutation({
+    mutationFn: ({ label, region }: { label: string; region: RegionWithAliases }) =>
+      createRegionAlias(region.id, label),
+    onSuccess: (_, { label, region }) => {
+      queryClient.invalidateQueries({ queryKey: regionsWithAliasesQueryKey });
+      onAliasCreated(label, region);
+      toast({
+        title: t('import.review.unresolvedRegions.success.title'),
+        description: t('import.review.unresolvedRegions.success.description', {
+          label,
+          region: region.name,
+        }),
+      });
+    },
+    onError: (error: { code?: string; message: string }) => {
+      console.error('Create alias error:', error);
+      toast({
+        title: t('regions.aliases.addError'),
+        // 23505: unique violation, the alias already points to a region
+        description: error.code === '23505' ? t('regions.aliases.duplicate') : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-md border border-orange-200 bg-orange-50/50 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <MapPin className="h-4 w-4 text-orange-700" />
+        {t('import.review.unresolvedRegions.title', { count: unresolvedRegions.length })}
+      </div>
+      <p className="mb-3 text-xs text-muted-foreground">
+        {t('import.review.unresolvedRegions.description')}
+      </p>
+      <div className="space-y-2">
+        {unresolvedRegions.map(({ label, pointsCount, skippedCount }) => {
+          const selectedRegion = regions.find(region => region.id === selectedRegions[label]);
+
+          return (
+            <div key={label} className="flex items-center gap-3">
+              <span className="min-w-[160px] font-medium">{label}</span>
+              <span className="flex-1 text-xs text-muted-foreground">
+                {t('import.review.unresolvedRegions.counts', {
+                  points: pointsCount,
+                  skipped: skippedCount,
+                })}
+              </span>
+              <Select
+                value={selectedRegions[label] ?? ''}
+                onValueChange={value => setSelectedRegions(prev => ({ ...prev, [label]: value }))}
+              >
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue placeholder={t('import.review.unresolvedRegions.selectRegion')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {regions.map(region => (
+                    <SelectItem key={region.id} value={region.id}>
+                      {region.name} ({region.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!selectedRegion || isPending}
+                onClick={() => selectedRegion && addAlias({ label, region: selectedRegion })}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                {t('import.review.unresolvedRegions.createAlias')}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import supabaseClient from '@/lib/supabase-client';
+import { AppRole } from '@/lib/permissions';
 import { useQuery } from '@tanstack/react-query';
 
 export function useCurrentUser() {
@@ -15,7 +16,17 @@ export function useCurrentUser() {
       throw error;
     }
 
-    return data.user;
+    // Users without membership have no rights
+    const { data: membership, error: membershipError } = await supabaseClient
+      .from('memberships')
+      .select('role')
+      .eq('user_id', data.user.id)
+      .maybeSingle();
+    if (membershipError) {
+      throw membershipError;
+    }
+
+    return { ...data.user, role: (membership?.role ?? null) as AppRole | null };
   };
 
   return useQuery({
@@ -0,0 +1,31 @@
+'use client';
+
+import supabaseClient from '@/lib/supabase-client';
+import { getFinestFrequency } from '@/lib/periods';
+import { useQuery } from '@tanstack/react-query';
+
+// Finest frequency of the selected metrics, 'annual' while loading or without selection
+export function useMetricsFrequency(metricIds: string[]) {
+  const queryFn = async () => {
+    if (!metricIds.length) return [];
+
+    const { data, error } = await supabaseClient
+      .from('metrics')
+      .select('id, frequency')
+      .in('id', metricIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  };
+
+  const { data } = useQuery({
+    queryKey: ['metrics-frequency', metricIds],
+    queryFn,
+    enabled: metricIds.length > 0,
+  });
+
+  return getFinestFrequency((data ?? []).map(metric => metric.frequency));
+}
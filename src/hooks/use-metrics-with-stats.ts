@@ -0,0 +1,69 @@
+'use client';
+
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+import type { Tag } from '@/lib/tags';
+import { useQuery } from '@tanstack/react-query';
+
+export type MetricWithStats = Tables<'metrics'> & {
+  source: Tables<'sources'> | null;
+  tags: Tag[];
+  data_count: number;
+  first_date: string | null;
+  last_date: string | null;
+  region_count: number;
+  public_count: number;
+  private_count: number;
+  draft_count: number;
+};
+
+export const metricsWithStatsQueryKey = ['metrics-with-stats-tree'];
+
+// Metrics with the statistics of their data, read from the metric_stats view
+export function useMetricsWithStats() {
+  const queryFn = async () => {
+    const [metricsResult, statsResult, tagsResult] = await Promise.all([
+      // Metrics in the trash are only listed on the trash page
+      supabaseClient.from('metrics').select('*, source:sources(*)').is('deleted_at', null),
+      supabaseClient.from('metric_stats').select('*'),
+      supabaseClient.from('metric_tags').select('metric_id, tag:tags(id, name)'),
+    ]);
+
+    if (metricsResult.error) {
+      throw metricsResult.error;
+    }
+    if (statsResult.error) {
+      throw statsResult.error;
+    }
+    if (tagsResult.error) {
+      throw tagsResult.error;
+    }
+
+    const statsByMetric = new Map(statsResult.data.map(stats => [stats.metric_id, stats]));
+    const tagsByMetric = new Map<string, Tag[]>();
+    tagsResult.data.forEach(({ metric_id, tag }) =>
+      tagsByMetric.set(metric_id, [...(tagsByMetric.get(metric_id) ?? []), tag])
+    );
+
+    return metricsResult.data.map(metric => {
+      const stats = statsByMetric.get(metric.id);
+
+      return {
+        ...metric,
+        tags: tagsByMetric.get(metric.id) ?? [],
+        data_count: stats?.data_count ?? 0,
+        first_date: stats?.first_date ?? null,
+        last_date: stats?.last_date ?? null,
+        region_count: stats?.region_count ?? 0,
+        public_count: stats?.public_count ?? 0,
+        private_count: stats?.private_count ?? 0,
+        draft_count: stats?.draft_count ?? 0,
+      } as MetricWithStats;
+    });
+  };
+
+  return useQuery({
+    queryKey: metricsWithStatsQueryKey,
+    queryFn,
+  });
+}
@@ -0,0 +1,71 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+// Tables whose changes are recorded by the audit triggers
+export const AUDITED_TABLES = [
+  'metrics',
+  'metric_data',
+  'charts',
+  'files',
+  'regions',
+  'memberships',
+] as const;
+
+export type AuditedTable = (typeof AUDITED_TABLES)[number];
+
+export type AuditLogEntry = Tables<'audit_log'> & {
+  user: Pick<Tables<'profiles'>, 'email' | 'full_name'> | null;
+};
+
+export type AuditLogFilters = {
+  userId?: string;
+  tableName?: AuditedTable;
+  // Name or id of the entity
+  entity?: string;
+  // ISO dates, both included
+  from?: string;
+  to?: string;
+};
+
+export const auditLogQueryKey = ['audit-log'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function fetchAuditLog(
+  filters: AuditLogFilters,
+  pageIndex: number,
+  pageSize: number
+): Promise<{ entries: AuditLogEntry[]; count: number }> {
+  let query = supabaseClient
+    .from('audit_log')
+    .select('*, user:profiles!audit_log_user_id_fkey(email, full_name)', { count: 'exact' })
+    .order('created_at', { ascending: false });
+
+  if (filters.userId) {
+    query = query.eq('user_id', filters.userId);
+  }
+  if (filters.tableName) {
+    query = query.eq('table_name', filters.tableName);
+  }
+  if (filters.entity) {
+    const entity = filters.entity.trim();
+    query = UUID_PATTERN.test(entity)
+      ? query.eq('record_id', entity)
+      : query.ilike('record_label', `%${entity}%`);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', filters.from);
+  }
+  if (filters.to) {
+    // Include the whole last day
+    const to = new Date(filters.to);
+    to.setUTCDate(to.getUTCDate() + 1);
+    query = query.lt('created_at', to.toISOString());
+  }
+
+  const start = pageIndex * pageSize;
+  const { data, error, count } = await query.range(start, start + pageSize - 1);
+
+  if (error) throw error;
+  return { entries: data as AuditLogEntry[], count: count ?? 0 };
+}
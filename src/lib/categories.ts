@@ -0,0 +1,115 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+export type Category = Tables<'categories'>;
+
+export type CategoryWithUsage = Category & {
+  metric_count: number;
+  file_count: number;
+};
+
+export type CategoryInput = Pick<Category, 'name' | 'description' | 'parent_id'>;
+
+export const categoriesQueryKey = ['categories'];
+
+export async function fetchCategories(): Promise<CategoryWithUsage[]> {
+  const { data, error } = await supabaseClient
+    .from('categories')
+    .select('*, metrics(count), files(count)')
+    .order('name');
+
+  if (error) throw error;
+  return data.map(({ metrics, files, ...category }) => ({
+    ...category,
+    metric_count: metrics[0]?.count ?? 0,
+    file_count: files[0]?.count ?? 0,
+  }));
+}
+
+export async function createCategory(category: CategoryInput) {
+  const { error } = await supabaseClient.from('categories').insert(category);
+
+  if (error) throw error;
+}
+
+export async function updateCategory(categoryId: string, category: CategoryInput) {
+  const { error } = await supabaseClient
+    .from('categories')
+    .update({ ...category, updated_at: new Date().toISOString() })
+    .eq('id', categoryId);
+
+  if (error) throw error;
+}
+
+// Subcategories move to the top level, metrics and files are kept without a category
+export async function deleteCategory(categoryId: string) {
+  const { error } = await supabaseClient.from('categories').delete().eq('id', categoryId);
+
+  if (error) throw error;
+}
+
+function getChildrenMap<T extends Pick<Category, 'id' | 'parent_id'>>(categories: T[]) {
+  const children = new Map<string, T[]>();
+  categories.forEach(category => {
+    if (category.parent_id) {
+      children.set(category.parent_id, [...(children.get(category.parent_id) ?? []), category]);
+    }
+  });
+  return children;
+}
+
+/**
+ * The given categories and all the categories below them
+ */
+export function getCategoryDescendantIds(
+  categoryIds: string[],
+  categories: Pick<Category, 'id' | 'parent_id'>[]
+): string[] {
+  const children = getChildrenMap(categories);
+  const ids = new Set<string>();
+  const visit = (categoryId: string) => {
+    if (ids.has(categoryId)) return;
+    ids.add(categoryId);
+    children.get(categoryId)?.forEach(child => visit(child.id));
+  };
+
+  categoryIds.forEach(visit);
+  return [...ids];
+}
+
+/**
+ * Categories in tree order, each followed by its subcategories, with their depth
+ */
+export function flattenCategoryTree<T extends Pick<Category, 'id' | 'parent_id'>>(
+  categories: T[]
+): { category: T; depth: number }[] {
+  const children = getChildrenMap(categories);
+  const ids = new Set(categories.map(category => category.id));
+  const flattened: { category: T; depth: number }[] = [];
+  const visit = (category: T, depth: number) => {
+    flattened.push({ category, depth });
+    children.get(category.id)?.forEach(child => visit(child, depth + 1));
+  };
+
+  categories
+    .filter(category => !category.parent_id || !ids.has(category.parent_id))
+    .forEach(category => visit(category, 0));
+  return flattened;
+}
+
+/**
+ * The category and its ancestors, from the top level down
+ */
+export function getCategoryPath<T extends Pick<Category, 'id' | 'parent_id'>>(
+  categoryId: string | null,
+  categories: T[]
+): T[] {
+  const path: T[] = [];
+  let category = categories.find(c => c.id === categoryId);
+  while (category && !path.includes(category)) {
+    path.unshift(category);
+    const parentId = category.parent_id;
+    category = categories.find(c => c.id === parentId);
+  }
+  return path;
+}
@@ -0,0 +1,252 @@
+import supabaseClient from '@/lib/supabase-client';
+
+// GeoJSON geometries stored in regions.geometry, positions are [longitude, latitude]
+type Position = [number, number];
+
+export type RegionGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export type GeometryFeature = {
+  properties: Record<string, unknown>;
+  geometry: RegionGeometry;
+};
+
+export type ClassBreakMethod = 'quantile' | 'equalInterval';
+
+// [minX, minY, maxX, maxY]
+export type GeometryBounds = [number, number, number, number];
+
+// Subset of the TopoJSON specification needed for region boundaries
+type TopoGeometry =
+  | { type: 'GeometryCollection'; geometries: TopoGeometry[] }
+  | { type: 'Polygon'; arcs: number[][]; properties?: Record<string, unknown> }
+  | { type: 'MultiPolygon'; arcs: number[][][]; properties?: Record<string, unknown> }
+  | { type: string; properties?: Record<string, unknown> };
+
+type Topology = {
+  type: 'Topology';
+  transform?: { scale: Position; translate: Position };
+  arcs: Position[][];
+  objects: Record<string, TopoGeometry>;
+};
+
+export const regionGeometriesQueryKey = ['region-geometries'];
+
+export async function fetchRegionGeometries() {
+  const { data, error } = await supabaseClient
+    .from('regions')
+    .select('id, geometry')
+    .not('geometry', 'is', null);
+
+  if (error) throw error;
+  return data.flatMap(region =>
+    isRegionGeometry(region.geometry) ? [{ id: region.id, geometry: region.geometry }] : []
+  );
+}
+
+export function isRegionGeometry(value: unknown): value is RegionGeometry {
+  if (!value || typeof value !== 'object') return false;
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+  return (type === 'Polygon' || type === 'MultiPolygon') && Array.isArray(coordinates);
+}
+
+/**
+ * Features of a GeoJSON (FeatureCollection, Feature or bare geometry) or TopoJSON document,
+ * keeping only the polygons
+ */
+export function parseGeometryFile(content: unknown): GeometryFeature[] {
+  if (!content || typeof content !== 'object') return [];
+  const document = content as { type?: string; [key: string]: unknown };
+
+  switch (document.type) {
+    case 'Topology':
+      return topologyToFeatures(document as unknown as Topology);
+    case 'FeatureCollection':
+      return ((document.features as unknown[]) ?? []).flatMap(parseGeometryFile);
+    case 'Feature':
+      return isRegionGeometry(document.geometry)
+        ? [
+            {
+              properties: (document.properties as Record<string, unknown>) ?? {},
+              geometry: document.geometry,
+            },
+          ]
+        : [];
+    default:
+      return isRegionGeometry(document) ? [{ properties: {}, geometry: document }] : [];
+  }
+}
+
+function topologyToFeatures(topology: Topology): GeometryFeature[] {
+  // Arcs of quantized topologies are delta-encoded
+  const arcs = topology.arcs.map(arc => {
+    if (!topology.transform) return arc;
+    const { scale, translate } = topology.transform;
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]): Position => {
+      x += dx;
+      y += dy;
+      return [x * scale[0] + translate[0], y * scale[1] + translate[1]];
+    });
+  });
+
+  // Negative indexes (~index) reference an arc in reverse order
+  const toRing = (arcIndexes: number[]) =>
+    arcIndexes.reduce<Position[]>((ring, index) => {
+      const arc = index < 0 ? [...arcs[~index]].reverse() : arcs[index];
+      return ring.concat(ring.length ? arc.slice(1) : arc);
+    }, []);
+
+  const toFeatures = (object: TopoGeometry): GeometryFeature[] => {
+    const properties = ('properties' in object && object.properties) || {};
+    if (object.type === 'GeometryCollection' && 'geometries' in object) {
+      return object.geometries.flatMap(toFeatures);
+    }
+    if (object.type === 'Polygon' && 'arcs' in object) {
+      const polygon = object as { arcs: number[][] };
+      return [{ properties, geometry: { type: 'Polygon', coordinates: polygon.arcs.map(toRing) } }];
+    }
+    if (object.type === 'MultiPolygon' && 'arcs' in object) {
+      const multiPolygon = object as { arcs: number[][][] };
+      return [
+        {
+          properties,
+          geometry: {
+            type: 'MultiPolygon',
+            coordinates: multiPolygon.arcs.map(polygon => polygon.map(toRing)),
+          },
+        },
+      ];
+    }
+    return [];
+  };
+
+  return Object.values(topology.objects ?? {}).flatMap(toFeatures);
+}
+
+function getPolygons(geometry: RegionGeometry): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+export function getGeometryBounds(geometries: RegionGeometry[]): GeometryBounds | null {
+  let bounds: GeometryBounds | null = null;
+
+  geometries.forEach(geometry =>
+    getPolygons(geometry).forEach(polygon =>
+      polygon.forEach(ring =>
+        ring.forEach(([x, y]) => {
+          bounds = bounds
+            ? [
+                Math.min(bounds[0], x),
+                Math.min(bounds[1], y),
+                Math.max(bounds[2], x),
+                Math.max(bounds[3], y),
+              ]
+            : [x, y, x, y];
+        })
+      )
+    )
+  );
+
+  return bounds;
+}
+
+/**
+ * Equirectangular projection fitted to the bounds, longitudes are scaled by the cosine of the
+ * middle latitude so that shapes keep their proportions away from the equator
+ */
+export function createProjection(
+  [minX, minY, maxX, maxY]: GeometryBounds,
+  width: number,
+  height: number,
+  padding = 8
+) {
+  const xFactor = Math.cos((((minY + maxY) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxX - minX) * xFactor, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return ([x, y]: Position): Position => [
+    offsetX + (x - minX) * xFactor * scale,
+    // SVG y axis points down
+    offsetY + (maxY - y) * scale,
+  ];
+}
+
+// SVG path of a geometry, holes are drawn with the evenodd fill rule
+export function geometryToPath(
+  geometry: RegionGeometry,
+  project: (position: Position) => Position
+) {
+  return getPolygons(geometry)
+    .flatMap(polygon =>
+      polygon.map(
+        ring =>
+          ring
+            .map((position, index) => {
+              const [x, y] = project(position);
+              return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+            })
+            .join('') + 'Z'
+      )
+    )
+    .join('');
+}
+
+/**
+ * Class boundaries [min, ..., max] splitting the values in classCount classes
+ */
+export function getClassBreaks(
+  values: number[],
+  classCount: number,
+  method: ClassBreakMethod
+): number[] {
+  if (!values.length) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  return Array.from({ length: classCount + 1 }, (_, index) => {
+    if (index === 0) return min;
+    if (index === classCount) return max;
+    if (method === 'equalInterval') return min + ((max - min) * index) / classCount;
+    return sorted[Math.floor((sorted.length * index) / classCount)];
+  });
+}
+
+export function getClassIndex(value: number, breaks: number[]) {
+  const classCount = breaks.length - 1;
+  for (let index = classCount - 1; index > 0; index--) {
+    if (value >= breaks[index]) return index;
+  }
+  return 0;
+}
+
+/**
+ * Sequential palette from a light tint of the base color to the base color
+ */
+export function getSequentialColors(baseColor: string, count: number) {
+  const base = parseInt(baseColor.slice(1), 16);
+  const channels = [(base >> 16) & 255, (base >> 8) & 255, base & 255];
+
+  return Array.from({ length: count }, (_, index) => {
+    const weight = count === 1 ? 1 : 0.15 + (0.85 * index) / (count - 1);
+    return `#${channels
+      .map(channel =>
+        Math.round(255 + (channel - 255) * weight)
+          .toString(16)
+          .padStart(2, '0')
+      )
+      .join('')}`;
+  });
+}
+
+export async function updateRegionGeometry(regionId: string, geometry: RegionGeometry | null) {
+  const { error } = await supabaseClient.from('regions').update({ geometry }).eq('id', regionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,57 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+// What a highlight is anchored to on the chart, every part is optional
+export type HighlightContext = {
+  // Period label, "2019" or "2019-Q2"
+  period?: string;
+  // Series the callout points at
+  metricId?: string;
+  // Band of values, open on the side left empty
+  valueRange?: { from: number | null; to: number | null };
+};
+
+export type ChartHighlight = Omit<Tables<'chart_highlights'>, 'context'> & {
+  context: HighlightContext;
+};
+
+export type ChartHighlightInput = Pick<ChartHighlight, 'highlight' | 'context'>;
+
+export const chartHighlightsQueryKey = ['chart-highlights'];
+
+export async function fetchChartHighlights(chartId: string): Promise<ChartHighlight[]> {
+  const { data, error } = await supabaseClient
+    .from('chart_highlights')
+    .select('*')
+    .eq('chart_id', chartId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data.map(highlight => ({
+    ...highlight,
+    context: (highlight.context ?? {}) as HighlightContext,
+  }));
+}
+
+export async function createChartHighlight(chartId: string, highlight: ChartHighlightInput) {
+  const { error } = await supabaseClient
+    .from('chart_highlights')
+    .insert({ ...highlight, chart_id: chartId });
+
+  if (error) throw error;
+}
+
+export async function updateChartHighlight(highlightId: string, highlight: ChartHighlightInput) {
+  const { error } = await supabaseClient
+    .from('chart_highlights')
+    .update({ ...highlight, updated_at: new Date().toISOString() })
+    .eq('id', highlightId);
+
+  if (error) throw error;
+}
+
+export async function deleteChartHighlight(highlightId: string) {
+  const { error } = await supabaseClient.from('chart_highlights').delete().eq('id', highlightId);
+
+  if (error) throw error;
+}
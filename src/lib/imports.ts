@@ -0,0 +1,165 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+// Shape of the data extracted by the process-spreadsheet edge function
+export type ImportDataPoint = {
+  region: string;
+  year: number;
+  // Sub-annual period ("2023-Q2", "2023-05", "2023-05-14"), absent for yearly values
+  period?: string;
+  value: number;
+  regionMatch?: RegionMatch;
+};
+
+// Region label resolved by abbreviation or close spelling, to be confirmed by the reviewer
+export type RegionMatch = {
+  kind: 'abbreviation' | 'fuzzy';
+  label: string;
+  // Similarity between the label and the matched region name or alias, from 0 to 1
+  score: number;
+};
+
+export type ImportMetric = {
+  name: string;
+  unit: string;
+  data: ImportDataPoint[];
+};
+
+export type ImportPayload = {
+  metrics: ImportMetric[];
+};
+
+// Value rejected or coerced during an import, see pending_imports.issues
+export type ImportIssue = {
+  severity: 'rejected' | 'coerced';
+  reason:
+    | 'unknown_region'
+    | 'invalid_year'
+    | 'invalid_value'
+    | 'coerced_year'
+    | 'coerced_value'
+    | 'save_failed';
+  sheet: string | null;
+  cell: string | null;
+  metric: string | null;
+  region: string | null;
+  year: number | null;
+  value: string | null;
+};
+
+// Whether an imported metric creates a new metric or is merged into an existing one
+export type MetricMatch = {
+  status: 'new' | 'merged' | 'conflicting';
+  metricId: string | null;
+  metricName: string | null;
+  conflicts: number;
+};
+
+export function isImportPayload(data: unknown): data is ImportPayload {
+  return !!data && typeof data === 'object' && Array.isArray((data as ImportPayload).metrics);
+}
+
+/**
+ * Call the process-spreadsheet edge function, authenticated as the current user
+ */
+export async function invokeProcessSpreadsheet<T = unknown>(
+  body: Record<string, unknown>
+): Promise<T> {
+  const {
+    data: { session },
+  } = await supabaseClient.auth.getSession();
+
+  // The function checks the role of the caller, the anon key isn't enough
+  if (!session) {
+    throw new Error('You must be signed in to import files');
+  }
+
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/process-spreadsheet`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Error calling process-spreadsheet');
+  }
+
+  return response.json();
+}
+
+let pendingMatches: Array<{
+  metric: ImportMetric;
+  resolve: (match: MetricMatch) => void;
+  reject: (error: unknown) => void;
+}> = [];
+
+/**
+ * Match one reviewed metric against the existing metrics. The metrics requested together
+ * (e.g. every metric of the file when the review opens) are sent in a single call.
+ */
+export function matchImportMetric(metric: ImportMetric): Promise<MetricMatch> {
+  return new Promise((resolve, reject) => {
+    pendingMatches.push({ metric, resolve, reject });
+    if (pendingMatches.length > 1) return;
+
+    setTimeout(async () => {
+      const batch = pendingMatches;
+      pendingMatches = [];
+      try {
+        const { matches } = await invokeProcessSpreadsheet<{ matches: MetricMatch[] }>({
+          action: 'match',
+          metrics: batch.map(entry => entry.metric),
+        });
+        batch.forEach((entry, index) => entry.resolve(matches[index]));
+      } catch (error) {
+        batch.forEach(entry => entry.reject(error));
+      }
+    });
+  });
+}
+
+export type UndoImportResult =
+  | { status: 'needs_confirmation'; edited: number; published: number }
+  | { status: 'reverted'; deleted: number; restored: number; deleted_metrics: number };
+
+/**
+ * Roll back a committed import. Unless forced, nothing is changed when some of its
+ * rows have been edited or published since the import.
+ */
+export async function undoImport(fileId: string, force = false): Promise<UndoImportResult> {
+  const { data, error } = await supabaseClient.rpc('undo_import', {
+    p_file_id: fileId,
+    p_force: force,
+  });
+
+  if (error) throw error;
+  return data as UndoImportResult;
+}
+
+export type ImportJob = Tables<'import_jobs'>;
+
+/**
+ * Queue the processing of a file. The worker picks it up and retries it on failure;
+ * a job already waiting or running for the file is returned instead of a new one.
+ */
+export async function enqueueImportJob(
+  fileId: string,
+  kind: 'process' | 'retry_chunks' = 'process',
+  payload: { chunkIndex?: number } = {}
+): Promise<ImportJob> {
+  const { data, error } = await supabaseClient.rpc('enqueue_import_job', {
+    p_file_id: fileId,
+    p_kind: kind,
+    p_payload: payload,
+  });
+
+  if (error) throw error;
+  return data as ImportJob;
+}
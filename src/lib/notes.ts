@@ -0,0 +1,112 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+import { formatPeriod, getPeriodStart, type MetricFrequency } from '@/lib/periods';
+
+export type Note = Tables<'notes'> & {
+  data_point: Pick<Tables<'metric_data'>, 'date' | 'region_id' | 'status'> | null;
+};
+
+export type NoteInput = Pick<
+  Tables<'notes'>,
+  'note' | 'metric_data_id' | 'region_id' | 'visible_start_date' | 'visible_end_date'
+>;
+
+export const notesQueryKey = ['notes'];
+
+export async function fetchMetricNotes(metricIds: string[]): Promise<Note[]> {
+  const { data, error } = await supabaseClient
+    .from('notes')
+    .select('*, data_point:metric_data!notes_metric_data_id_fkey(date, region_id, status)')
+    .in('metric_id', metricIds)
+    .order('visible_start_date', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  // Notes on data points the reader cannot see are left out
+  return (data as Note[]).filter(note => !note.metric_data_id || note.data_point);
+}
+
+export async function createNote(metricId: string, note: NoteInput) {
+  const { error } = await supabaseClient.from('notes').insert({ ...note, metric_id: metricId });
+
+  if (error) throw error;
+}
+
+export async function updateNote(noteId: string, note: NoteInput) {
+  const { error } = await supabaseClient
+    .from('notes')
+    .update({ ...note, updated_at: new Date().toISOString() })
+    .eq('id', noteId);
+
+  if (error) throw error;
+}
+
+export async function deleteNote(noteId: string) {
+  const { error } = await supabaseClient.from('notes').delete().eq('id', noteId);
+
+  if (error) throw error;
+}
+
+/**
+ * First and last days a note is visible, a note on a data point covers the period of the point
+ */
+export function getNoteRange(note: Note): { start: string | null; end: string | null } {
+  return {
+    start: note.visible_start_date ?? note.data_point?.date ?? null,
+    end: note.visible_end_date ?? note.data_point?.date ?? null,
+  };
+}
+
+export function getNoteRegionId(note: Note) {
+  return note.region_id ?? note.data_point?.region_id ?? null;
+}
+
+// Notes without any date apply to the whole metric, they are listed but not drawn
+export function isNoteDated(note: Note) {
+  const { start, end } = getNoteRange(note);
+  return start !== null || end !== null;
+}
+
+/**
+ * Notes shown with a chart or a table: those overlapping its dates and about its regions
+ */
+export function getDisplayedNotes(
+  notes: Note[],
+  {
+    dateRange,
+    regionIds,
+    publicOnly = false,
+  }: {
+    dateRange: { from: Date | undefined; to: Date | undefined };
+    regionIds?: string[];
+    publicOnly?: boolean;
+  }
+) {
+  return notes.filter(note => {
+    if (publicOnly && note.data_point && note.data_point.status !== 'public') return false;
+
+    const regionId = getNoteRegionId(note);
+    if (regionId && regionIds && !regionIds.includes(regionId)) return false;
+
+    const { start, end } = getNoteRange(note);
+    if (start && dateRange.to && new Date(start) > dateRange.to) return false;
+    if (end && dateRange.from && new Date(end) < dateRange.from) return false;
+    return true;
+  });
+}
+
+/**
+ * Whether a period, given by the ISO date of its start, is within the visible range of a note
+ */
+export function isPeriodInNoteRange(period: string, note: Note, frequency: MetricFrequency) {
+  const { start, end } = getNoteRange(note);
+  if (start === null && end === null) return false;
+
+  // Compare whole periods, a note dated within a period covers all of it
+  const periodStart = new Date(period);
+  const toPeriodStart = (date: string) => getPeriodStart(formatPeriod(date, frequency));
+  return (
+    (start === null || periodStart >= toPeriodStart(start)) &&
+    (end === null || periodStart <= toPeriodStart(end))
+  );
+}
@@ -0,0 +1,150 @@
+import { Enums } from '@/types/database';
+
+export type MetricFrequency = Enums<'metric_frequency'>;
+
+// First and last periods of a range, e.g. ["2020-Q1", "2023-Q4"]
+export type PeriodRange = [string, string];
+
+// Time range as saved in charts.config
+type SavedRangeConfig = {
+  periodRange?: PeriodRange;
+  yearRange?: [number, number];
+  dateRange?: { from?: string; to?: string };
+};
+
+// From the coarsest to the finest resolution
+export const FREQUENCIES: MetricFrequency[] = ['annual', 'quarterly', 'monthly', 'daily'];
+
+const PERIOD_PATTERN = /^(\d{4})(?:-(?:Q([1-4])|(\d{2})(?:-(\d{2}))?))?$/;
+
+/**
+ * Finest frequency of a set of metrics, used when their series share a time axis
+ */
+export function getFinestFrequency(
+  frequencies: Array<MetricFrequency | null | undefined>
+): MetricFrequency {
+  return frequencies.reduce<MetricFrequency>(
+    (finest, frequency) =>
+      frequency && FREQUENCIES.indexOf(frequency) > FREQUENCIES.indexOf(finest)
+        ? frequency
+        : finest,
+    'annual'
+  );
+}
+
+/**
+ * Label of the period containing a date: "2023", "2023-Q2", "2023-05" or "2023-05-14"
+ */
+export function formatPeriod(date: string | Date, frequency: MetricFrequency): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  const year = value.getUTCFullYear().toString();
+  const month = value.getUTCMonth() + 1;
+
+  switch (frequency) {
+    case 'quarterly':
+      return `${year}-Q${Math.ceil(month / 3)}`;
+    case 'monthly':
+      return `${year}-${pad(month)}`;
+    case 'daily':
+      return `${year}-${pad(month)}-${pad(value.getUTCDate())}`;
+    default:
+      return year;
+  }
+}
+
+export function isValidPeriod(period: string) {
+  return PERIOD_PATTERN.test(period.trim());
+}
+
+// Dates are built in UTC, so that toISOString() gives back the calendar day
+export function getPeriodStart(period: string): Date {
+  const match = period.trim().match(PERIOD_PATTERN);
+  if (!match) return new Date(NaN);
+
+  const [, year, quarter, month, day] = match;
+  if (quarter) return new Date(Date.UTC(Number(year), (Number(quarter) - 1) * 3, 1));
+  return new Date(Date.UTC(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1));
+}
+
+export function getPeriodEnd(period: string): Date {
+  const match = period.trim().match(PERIOD_PATTERN);
+  if (!match) return new Date(NaN);
+
+  const [, year, quarter, month, day] = match;
+  if (quarter) return new Date(Date.UTC(Number(year), Number(quarter) * 3, 0));
+  if (day) return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (month) return new Date(Date.UTC(Number(year), Number(month), 0));
+  return new Date(Date.UTC(Number(year), 11, 31));
+}
+
+/**
+ * Labels of every period between two dates, bounds included
+ */
+export function getPeriodsInRange(from: Date, to: Date, frequency: MetricFrequency): string[] {
+  const periods: string[] = [];
+  let current = getPeriodStart(formatPeriod(from, frequency));
+
+  while (current <= to) {
+    periods.push(formatPeriod(current, frequency));
+    current = getNextPeriodStart(current, frequency);
+  }
+
+  return periods;
+}
+
+/**
+ * Express a period range at another frequency, keeping the covered dates
+ */
+export function convertPeriodRange(
+  [from, to]: PeriodRange,
+  frequency: MetricFrequency
+): PeriodRange {
+  return [formatPeriod(getPeriodStart(from), frequency), formatPeriod(getPeriodEnd(to), frequency)];
+}
+
+// Date range covered by a period range, in the shape expected by RenderChart and RenderTable
+export function getPeriodRangeDates([from, to]: PeriodRange) {
+  return { from: getPeriodStart(from), to: getPeriodEnd(to) };
+}
+
+/**
+ * Period range of a saved chart, charts saved before sub-annual frequencies only have a yearRange
+ */
+export function getConfigPeriodRange(config: SavedRangeConfig | null | undefined) {
+  if (config?.periodRange) return config.periodRange;
+  if (config?.yearRange) {
+    return config.yearRange.map(year => year.toString()) as PeriodRange;
+  }
+  return null;
+}
+
+// Date range of a saved chart, for RenderChart and RenderTable
+export function getConfigDateRange(config: SavedRangeConfig | null | undefined) {
+  const periodRange = getConfigPeriodRange(config);
+  if (periodRange) return getPeriodRangeDates(periodRange);
+
+  return {
+    from: config?.dateRange?.from ? new Date(config.dateRange.from) : undefined,
+    to: config?.dateRange?.to ? new Date(config.dateRange.to) : undefined,
+  };
+}
+
+function getNextPeriodStart(date: Date, frequency: MetricFrequency) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (frequency) {
+    case 'quarterly':
+      return new Date(Date.UTC(year, month + 3, 1));
+    case 'monthly':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'daily':
+      return new Date(Date.UTC(year, month, date.getUTCDate() + 1));
+    default:
+      return new Date(Date.UTC(year + 1, 0, 1));
+  }
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,63 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Enums, Tables } from '@/types/database';
+
+export type AppRole = Enums<'app_role'>;
+
+// Actions the UI shows depending on the role, the policies of the database enforce the same rules
+export type Permission =
+  | 'import'
+  | 'editMetrics'
+  | 'editDrafts'
+  | 'editCharts'
+  | 'publish'
+  | 'delete'
+  | 'manageRegions'
+  | 'manageMembers'
+  | 'viewAuditLog';
+
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  viewer: [],
+  editor: ['import', 'editMetrics', 'editDrafts', 'editCharts'],
+  admin: [
+    'import',
+    'editMetrics',
+    'editDrafts',
+    'editCharts',
+    'publish',
+    'delete',
+    'manageRegions',
+    'manageMembers',
+    'viewAuditLog',
+  ],
+};
+
+export function hasPermission(role: AppRole | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export type Member = Tables<'profiles'> & {
+  membership: Pick<Tables<'memberships'>, 'id' | 'role'> | null;
+};
+
+export const membersQueryKey = ['members'];
+
+export async function fetchMembers(): Promise<Member[]> {
+  const { data, error } = await supabaseClient
+    .from('profiles')
+    .select('*, membership:memberships(id, role)')
+    .order('email');
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateMemberRole(userId: string, role: AppRole) {
+  const { error } = await supabaseClient
+    .from('memberships')
+    .upsert(
+      { user_id: userId, role, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,78 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+export type RegionWithAliases = Tables<'regions'> & {
+  aliases: Pick<Tables<'region_aliases'>, 'id' | 'alias'>[];
+};
+
+export const regionsWithAliasesQueryKey = ['regions-with-aliases'];
+
+export async function fetchRegionsWithAliases(): Promise<RegionWithAliases[]> {
+  const { data, error } = await supabaseClient
+    .from('regions')
+    .select('*, aliases:region_aliases(id, alias)')
+    .order('name');
+
+  if (error) throw error;
+  return data as RegionWithAliases[];
+}
+
+export async function createRegionAlias(regionId: string, alias: string) {
+  const { error } = await supabaseClient
+    .from('region_aliases')
+    .insert({ region_id: regionId, alias: alias.trim() });
+
+  if (error) throw error;
+}
+
+export type RegionNode = Pick<
+  Tables<'regions'>,
+  'id' | 'code' | 'name' | 'parent_id' | 'level' | 'population'
+>;
+
+export const regionTreeQueryKey = ['region-tree'];
+
+export async function fetchRegionTree(): Promise<RegionNode[]> {
+  const { data, error } = await supabaseClient
+    .from('regions')
+    .select('id, code, name, parent_id, level, population')
+    .order('name');
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateRegionHierarchy(
+  regionId: string,
+  values: Partial<Pick<RegionNode, 'parent_id' | 'level' | 'population'>>
+) {
+  const { error } = await supabaseClient.from('regions').update(values).eq('id', regionId);
+
+  if (error) throw error;
+}
+
+function getChildrenMap(regions: RegionNode[]) {
+  const children = new Map<string, RegionNode[]>();
+  regions.forEach(region => {
+    if (region.parent_id) {
+      children.set(region.parent_id, [...(children.get(region.parent_id) ?? []), region]);
+    }
+  });
+  return children;
+}
+
+/**
+ * The given regions and all the regions below them
+ */
+export function getRegionDescendantIds(regionIds: string[], regions: RegionNode[]): string[] {
+  const children = getChildrenMap(regions);
+  const ids = new Set<string>();
+  const visit = (regionId: string) => {
+    if (ids.has(regionId)) return;
+    ids.add(regionId);
+    children.get(regionId)?.forEach(child => visit(child.id));
+  };
+
+  regionIds.forEach(visit);
+  return [...ids];
+}
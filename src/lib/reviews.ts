@@ -0,0 +1,92 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Enums, Tables } from '@/types/database';
+
+export type PublicationReviewStatus = Enums<'publication_review_status'>;
+
+type ProfileSummary = Pick<Tables<'profiles'>, 'email' | 'full_name'>;
+
+export type PublicationReview = Tables<'publication_reviews'> & {
+  metric: Pick<Tables<'metrics'>, 'id' | 'name' | 'unit' | 'frequency'> | null;
+  submitter: ProfileSummary | null;
+  reviewer: ProfileSummary | null;
+  items: { count: number }[];
+};
+
+// A submitted point, compared with its published value
+export type PublicationReviewItem = Tables<'publication_review_items'> & {
+  metric_data: Pick<Tables<'metric_data'>, 'date' | 'value' | 'status'> & {
+    region: Pick<Tables<'regions'>, 'id' | 'name'> | null;
+  };
+};
+
+export type ReviewPublicationResult = {
+  status: 'approved' | 'rejected';
+  published: number;
+  // Points edited after the submission, left as drafts
+  skipped: number;
+};
+
+export const publicationReviewsQueryKey = ['publication-reviews'];
+
+export async function fetchPublicationReviews(): Promise<PublicationReview[]> {
+  const { data, error } = await supabaseClient
+    .from('publication_reviews')
+    .select(
+      `*,
+      metric:metrics(id, name, unit, frequency),
+      submitter:profiles!publication_reviews_submitted_by_fkey(email, full_name),
+      reviewer:profiles!publication_reviews_reviewed_by_fkey(email, full_name),
+      items:publication_review_items(count)`
+    )
+    .order('submitted_at', { ascending: false });
+
+  if (error) throw error;
+  return data as PublicationReview[];
+}
+
+export async function fetchPublicationReviewItems(
+  reviewId: string
+): Promise<PublicationReviewItem[]> {
+  const { data, error } = await supabaseClient
+    .from('publication_review_items')
+    .select('*, metric_data(date, value, status, region:regions(id, name))')
+    .eq('review_id', reviewId);
+
+  if (error) throw error;
+  return (data as PublicationReviewItem[]).sort((a, b) =>
+    a.metric_data.date === b.metric_data.date
+      ? (a.metric_data.region?.name ?? '').localeCompare(b.metric_data.region?.name ?? '')
+      : a.metric_data.date.localeCompare(b.metric_data.date)
+  );
+}
+
+/**
+ * Submit the drafts of a metric that aren't already waiting for a review
+ */
+export async function submitPublicationReview(metricId: string, comment?: string) {
+  const { data, error } = await supabaseClient.rpc('submit_publication_review', {
+    p_metric_id: metricId,
+    p_comment: comment,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Approve (publish) or reject a pending review, a rejection needs a comment
+ */
+export async function reviewPublication(
+  reviewId: string,
+  approve: boolean,
+  comment?: string
+): Promise<ReviewPublicationResult> {
+  const { data, error } = await supabaseClient.rpc('review_publication', {
+    p_review_id: reviewId,
+    p_approve: approve,
+    p_comment: comment,
+  });
+
+  if (error) throw error;
+  return data as ReviewPublicationResult;
+}
@@ -0,0 +1,59 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+export type MetricDataRevision = Tables<'metric_data_revisions'> & {
+  author: Pick<Tables<'profiles'>, 'email' | 'full_name'> | null;
+  reverted_revision: Pick<Tables<'metric_data_revisions'>, 'version'> | null;
+};
+
+export const metricDataRevisionsQueryKey = ['metric-data-revisions'];
+
+export async function fetchMetricDataRevisions(
+  metricDataId: string
+): Promise<MetricDataRevision[]> {
+  const { data, error } = await supabaseClient
+    .from('metric_data_revisions')
+    .select(
+      `*,
+      author:profiles!metric_data_revisions_changed_by_fkey(email, full_name),
+      reverted_revision:metric_data_revisions!reverted_revision_id(version)`
+    )
+    .eq('metric_data_id', metricDataId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data as MetricDataRevision[];
+}
+
+/**
+ * Edit a data point, the change is recorded as a new revision with its reason
+ */
+export async function updateMetricData(
+  dataPoint: Pick<Tables<'metric_data'>, 'id' | 'value' | 'region_id' | 'date' | 'status'>,
+  reason?: string
+) {
+  const { data, error } = await supabaseClient.rpc('update_metric_data', {
+    p_id: dataPoint.id,
+    p_value: dataPoint.value,
+    p_region_id: dataPoint.region_id || '',
+    p_date: dataPoint.date,
+    p_status: dataPoint.status,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Restore a data point (value, status, region and period) as it was at a given revision
+ */
+export async function revertMetricDataRevision(revisionId: string, reason?: string) {
+  const { data, error } = await supabaseClient.rpc('revert_metric_data_revision', {
+    p_revision_id: revisionId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data;
+}
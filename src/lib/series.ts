@@ -0,0 +1,53 @@
+import supabaseClient from '@/lib/supabase-client';
+import { MetricFrequency } from '@/lib/periods';
+
+export type SeriesAggregation = 'sum' | 'avg' | 'min' | 'max' | 'weighted_avg';
+
+// One value of a series, aggregated over a period (first day of the period)
+export type SeriesPoint = {
+  period: string;
+  metric_id: string;
+  region_id: string | null;
+  value: number;
+};
+
+type MetricSeriesOptions = {
+  metricIds: string[];
+  // All regions when undefined
+  regionIds?: string[];
+  dateRange: { from: Date; to: Date };
+  frequency: MetricFrequency;
+  aggregation?: SeriesAggregation;
+  // One series per region instead of a single series per metric
+  byRegion?: boolean;
+  // Only published data, as the public sees it in embeds
+  publicOnly?: boolean;
+};
+
+/**
+ * Series aggregated by the get_metric_series function: parent regions without data get the
+ * roll-up of their children, and regions are combined on the server
+ */
+export async function fetchMetricSeries({
+  metricIds,
+  regionIds,
+  dateRange,
+  frequency,
+  aggregation = 'sum',
+  byRegion = false,
+  publicOnly = false,
+}: MetricSeriesOptions): Promise<SeriesPoint[]> {
+  const { data, error } = await supabaseClient.rpc('get_metric_series', {
+    p_metric_ids: metricIds,
+    p_region_ids: regionIds,
+    p_from: dateRange.from.toISOString().split('T')[0],
+    p_to: dateRange.to.toISOString().split('T')[0],
+    p_frequency: frequency,
+    p_aggregation: aggregation,
+    p_by_region: byRegion,
+    p_public_only: publicOnly,
+  });
+
+  if (error) throw error;
+  return data.map(point => ({ ...point, value: Number(point.value) }));
+}
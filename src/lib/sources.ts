@@ -0,0 +1,95 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+export type Source = Tables<'sources'>;
+
+export type SourceWithUsage = Source & {
+  metric_count: number;
+  file_count: number;
+};
+
+export type SourceInput = Pick<
+  Source,
+  'name' | 'description' | 'publisher' | 'url' | 'license' | 'citation_template'
+>;
+
+export const sourcesQueryKey = ['sources'];
+
+export async function fetchSources(): Promise<SourceWithUsage[]> {
+  const { data, error } = await supabaseClient
+    .from('sources')
+    .select('*, metrics(count), files(count)')
+    .order('name');
+
+  if (error) throw error;
+  return data.map(({ metrics, files, ...source }) => ({
+    ...source,
+    metric_count: metrics[0]?.count ?? 0,
+    file_count: files[0]?.count ?? 0,
+  }));
+}
+
+export async function createSource(source: SourceInput) {
+  const { error } = await supabaseClient.from('sources').insert(source);
+
+  if (error) throw error;
+}
+
+export async function updateSource(sourceId: string, source: SourceInput) {
+  const { error } = await supabaseClient
+    .from('sources')
+    .update({ ...source, updated_at: new Date().toISOString() })
+    .eq('id', sourceId);
+
+  if (error) throw error;
+}
+
+// Metrics and files of the source are kept, without a source
+export async function deleteSource(sourceId: string) {
+  const { error } = await supabaseClient.from('sources').delete().eq('id', sourceId);
+
+  if (error) throw error;
+}
+
+/**
+ * Distinct sources of a set of metrics, in the order of the metrics
+ */
+export async function fetchMetricSources(metricIds: string[]): Promise<Source[]> {
+  const { data, error } = await supabaseClient
+    .from('metrics')
+    .select('id, source:sources(*)')
+    .in('id', metricIds);
+
+  if (error) throw error;
+  const sources = metricIds.flatMap(
+    metricId => data.find(metric => metric.id === metricId)?.source ?? []
+  );
+  return sources.filter(
+    (source, index) => sources.findIndex(other => other.id === source.id) === index
+  );
+}
+
+/**
+ * Citation of a source, from its template when it has one
+ */
+export function formatCitation(
+  source: Pick<Source, 'name' | 'publisher' | 'url' | 'license' | 'citation_template'>
+) {
+  if (!source.citation_template) {
+    const citation = [source.publisher, source.name].filter(Boolean).join(', ');
+    return source.license ? `${citation} (${source.license})` : citation;
+  }
+
+  const values: Record<string, string | null> = {
+    name: source.name,
+    publisher: source.publisher,
+    url: source.url,
+    license: source.license,
+  };
+  return source.citation_template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+      key in values ? (values[key] ?? '') : placeholder
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,110 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Tables } from '@/types/database';
+
+export type Tag = Tables<'tags'>;
+
+export type TagWithUsage = Tag & {
+  metric_count: number;
+  file_count: number;
+};
+
+export const tagsQueryKey = ['tags'];
+
+export async function fetchTags(): Promise<TagWithUsage[]> {
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .select('*, metric_tags(count), file_tags(count)')
+    .order('name');
+
+  if (error) throw error;
+  return data.map(({ metric_tags, file_tags, ...tag }) => ({
+    ...tag,
+    metric_count: metric_tags[0]?.count ?? 0,
+    file_count: file_tags[0]?.count ?? 0,
+  }));
+}
+
+export async function createTag(name: string): Promise<Tag> {
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .insert({ name: name.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function renameTag(tagId: string, name: string) {
+  const { error } = await supabaseClient.from('tags').update({ name: name.trim() }).eq('id', tagId);
+
+  if (error) throw error;
+}
+
+// Removes the tag from the metrics, files and data points it was put on
+export async function deleteTag(tagId: string) {
+  const { error } = await supabaseClient.from('tags').delete().eq('id', tagId);
+
+  if (error) throw error;
+}
+
+export async function fetchMetricTagIds(metricId: string): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('metric_tags')
+    .select('tag_id')
+    .eq('metric_id', metricId);
+
+  if (error) throw error;
+  return data.map(row => row.tag_id);
+}
+
+/**
+ * Replace the tags of a metric
+ */
+export async function setMetricTags(metricId: string, tagIds: string[]) {
+  let removal = supabaseClient.from('metric_tags').delete().eq('metric_id', metricId);
+  if (tagIds.length) removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  const { error: removalError } = await removal;
+  if (removalError) throw removalError;
+
+  if (!tagIds.length) return;
+  const { error } = await supabaseClient.from('metric_tags').upsert(
+    tagIds.map(tagId => ({ metric_id: metricId, tag_id: tagId })),
+    { ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+}
+
+export async function fetchFileTagIds(fileId: string): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('file_tags')
+    .select('tag_id')
+    .eq('file_id', fileId);
+
+  if (error) throw error;
+  return data.map(row => row.tag_id);
+}
+
+/**
+ * Replace the tags of an imported file, they are copied to its metrics when the import is committed
+ */
+export async function setFileTags(fileId: string, tagIds: string[]) {
+  let removal = supabaseClient.from('file_tags').delete().eq('file_id', fileId);
+  if (tagIds.length) removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  const { error: removalError } = await removal;
+  if (removalError) throw removalError;
+
+  if (!tagIds.length) return;
+  const { error } = await supabaseClient.from('file_tags').upsert(
+    tagIds.map(tagId => ({ file_id: fileId, tag_id: tagId })),
+    { ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+}
+
+// An item matches a tag filter when it has every selected tag
+export function hasAllTags(tags: Pick<Tag, 'id'>[], tagIds: string[]) {
+  return tagIds.every(tagId => tags.some(tag => tag.id === tagId));
+}
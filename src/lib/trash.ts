@@ -0,0 +1,89 @@
+import supabaseClient from '@/lib/supabase-client';
+import { Database, Tables } from '@/types/database';
+
+export type TrashItemType = 'metric' | 'chart';
+
+export type TrashItem = Omit<
+  Database['public']['Functions']['get_trash_items']['Returns'][number],
+  'item_type' | 'charts'
+> & {
+  item_type: TrashItemType;
+  // Charts still showing a trashed metric
+  charts: Pick<Tables<'charts'>, 'id' | 'name'>[];
+  deleter: Pick<Tables<'profiles'>, 'email' | 'full_name'> | null;
+};
+
+export const trashQueryKey = ['trash'];
+export const appSettingsQueryKey = ['app-settings'];
+
+export async function fetchTrashItems(): Promise<TrashItem[]> {
+  const { data, error } = await supabaseClient.rpc('get_trash_items');
+
+  if (error) throw error;
+
+  const deleterIds = [...new Set(data.flatMap(item => (item.deleted_by ? [item.deleted_by] : [])))];
+  const { data: profiles, error: profilesError } = deleterIds.length
+    ? await supabaseClient.from('profiles').select('id, email, full_name').in('id', deleterIds)
+    : { data: [], error: null };
+
+  if (profilesError) throw profilesError;
+
+  return data.map(item => ({
+    ...item,
+    item_type: item.item_type as TrashItemType,
+    charts: item.charts as TrashItem['charts'],
+    deleter: profiles.find(profile => profile.id === item.deleted_by) ?? null,
+  }));
+}
+
+/**
+ * Move a metric to the trash, its data is kept until the metric is purged
+ */
+export async function trashMetric(metricId: string) {
+  const { error } = await supabaseClient.rpc('trash_metric', { p_metric_id: metricId });
+
+  if (error) throw error;
+}
+
+export async function trashChart(chartId: string) {
+  const { error } = await supabaseClient.rpc('trash_chart', { p_chart_id: chartId });
+
+  if (error) throw error;
+}
+
+export async function restoreTrashItem(item: Pick<TrashItem, 'item_type' | 'id'>) {
+  const { error } = await supabaseClient.rpc('restore_trash_item', {
+    p_item_type: item.item_type,
+    p_id: item.id,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a trashed item for good, with the data of a metric
+ */
+export async function purgeTrashItem(item: Pick<TrashItem, 'item_type' | 'id'>) {
+  const { error } = await supabaseClient.rpc('purge_trash_item', {
+    p_item_type: item.item_type,
+    p_id: item.id,
+  });
+
+  if (error) throw error;
+}
+
+export async function fetchAppSettings(): Promise<Tables<'app_settings'>> {
+  const { data, error } = await supabaseClient.from('app_settings').select('*').single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateTrashRetention(days: number) {
+  const { error } = await supabaseClient
+    .from('app_settings')
+    .update({ trash_retention_days: days, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) throw error;
+}
@@ -34,23 +34,105 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          id: boolean
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          record_id: string | null
+          record_label: string | null
+          table_name: string
+          user_id: string | null
+        }
+        Insert: {
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          record_id?: string | null
+          record_label?: string | null
+          table_name: string
+          user_id?: string | null
+        }
+        Update: {
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          record_id?: string | null
+          record_label?: string | null
+          table_name?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
+          created_at: string
           description: string | null
           id: string
           name: string
+          parent_id: string | null
+          updated_at: string
         }
         Insert: {
+          created_at?: string
           description?: string | null
           id?: string
           name: string
+          parent_id?: string | null
+          updated_at?: string
         }
         Update: {
+          created_at?: string
           description?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       chart_highlights: {
         Row: {
@@ -91,6 +173,8 @@ export type Database = {
         Row: {
           config: Json
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           export_config: Json | null
           id: string
@@ -101,6 +185,8 @@ export type Database = {
         Insert: {
           config: Json
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           export_config?: Json | null
           id?: string
@@ -111,6 +197,8 @@ export type Database = {
         Update: {
           config?: Json
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           export_config?: Json | null
           id?: string
@@ -118,7 +206,15 @@ export type Database = {
           name?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "charts_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       file_tags: {
         Row: {
@@ -201,6 +297,198 @@ export type Database = {
           },
         ]
       }
+      import_changes: {
+        Row: {
+          created_at: string
+          file_id: string
+          id: string
+          metric_data_id: string
+          previous_metadata: Json | null
+          previous_status: Database["public"]["Enums"]["metric_data_status"]
+          previous_value: number
+        }
+        Insert: {
+          created_at?: string
+          file_id: string
+          id?: string
+          metric_data_id: string
+          previous_metadata?: Json | null
+          previous_status: Database["public"]["Enums"]["metric_data_status"]
+          previous_value: number
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          id?: string
+          metric_data_id?: string
+          previous_metadata?: Json | null
+          previous_status?: Database["public"]["Enums"]["metric_data_status"]
+          previous_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_changes_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_changes_metric_data_id_fkey"
+            columns: ["metric_data_id"]
+            isOneToOne: false
+            referencedRelation: "metric_data"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_chunks: {
+        Row: {
+          attempts: number
+          chunk_index: number
+          created_at: string
+          end_row: number
+          error: string | null
+          file_id: string
+          id: string
+          issues: Json
+          result: Json | null
+          sheet: string
+          start_row: number
+          status: Database["public"]["Enums"]["import_chunk_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          chunk_index: number
+          created_at?: string
+          end_row: number
+          error?: string | null
+          file_id: string
+          id?: string
+          issues?: Json
+          result?: Json | null
+          sheet: string
+          start_row: number
+          status?: Database["public"]["Enums"]["import_chunk_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          chunk_index?: number
+          created_at?: string
+          end_row?: number
+          error?: string | null
+          file_id?: string
+          id?: string
+          issues?: Json
+          result?: Json | null
+          sheet?: string
+          start_row?: number
+          status?: Database["public"]["Enums"]["import_chunk_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_chunks_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          file_id: string
+          finished_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          run_after: string
+          status: Database["public"]["Enums"]["import_job_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          file_id: string
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          run_after?: string
+          status?: Database["public"]["Enums"]["import_job_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          file_id?: string
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          run_after?: string
+          status?: Database["public"]["Enums"]["import_job_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      memberships: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       metric_data: {
         Row: {
           created_at: string
@@ -208,6 +496,9 @@ export type Database = {
           id: string
           metadata: Json | null
           metric_id: string
+          published_at: string | null
+          published_by: string | null
+          published_value: number | null
           region_id: string | null
           status: Database["public"]["Enums"]["metric_data_status"]
           updated_at: string
@@ -219,6 +510,9 @@ export type Database = {
           id?: string
           metadata?: Json | null
           metric_id: string
+          published_at?: string | null
+          published_by?: string | null
+          published_value?: number | null
           region_id?: string | null
           status?: Database["public"]["Enums"]["metric_data_status"]
           updated_at?: string
@@ -230,6 +524,9 @@ export type Database = {
           id?: string
           metadata?: Json | null
           metric_id?: string
+          published_at?: string | null
+          published_by?: string | null
+          published_value?: number | null
           region_id?: string | null
           status?: Database["public"]["Enums"]["metric_data_status"]
           updated_at?: string
@@ -243,6 +540,13 @@ export type Database = {
             referencedRelation: "metrics"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "metric_data_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "metric_data_region_id_fkey"
             columns: ["region_id"]
@@ -252,6 +556,82 @@ export type Database = {
           },
         ]
       }
+      metric_data_revisions: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: string
+          metric_data_id: string
+          new_date: string
+          new_region_id: string | null
+          new_status: Database["public"]["Enums"]["metric_data_status"]
+          new_value: number
+          old_date: string | null
+          old_region_id: string | null
+          old_status: Database["public"]["Enums"]["metric_data_status"] | null
+          old_value: number | null
+          reason: string | null
+          reverted_revision_id: string | null
+          version: number
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          metric_data_id: string
+          new_date: string
+          new_region_id?: string | null
+          new_status: Database["public"]["Enums"]["metric_data_status"]
+          new_value: number
+          old_date?: string | null
+          old_region_id?: string | null
+          old_status?: Database["public"]["Enums"]["metric_data_status"] | null
+          old_value?: number | null
+          reason?: string | null
+          reverted_revision_id?: string | null
+          version: number
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          metric_data_id?: string
+          new_date?: string
+          new_region_id?: string | null
+          new_status?: Database["public"]["Enums"]["metric_data_status"]
+          new_value?: number
+          old_date?: string | null
+          old_region_id?: string | null
+          old_status?: Database["public"]["Enums"]["metric_data_status"] | null
+          old_value?: number | null
+          reason?: string | null
+          reverted_revision_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metric_data_revisions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "metric_data_revisions_metric_data_id_fkey"
+            columns: ["metric_data_id"]
+            isOneToOne: false
+            referencedRelation: "metric_data"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "metric_data_revisions_reverted_revision_id_fkey"
+            columns: ["reverted_revision_id"]
+            isOneToOne: false
+            referencedRelation: "metric_data_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       metric_data_tags: {
         Row: {
           metric_data_id: string
@@ -282,38 +662,115 @@ export type Database = {
           },
         ]
       }
+      metric_stats_refresh: {
+        Row: {
+          id: boolean
+          requested_at: string | null
+        }
+        Insert: {
+          id?: boolean
+          requested_at?: string | null
+        }
+        Update: {
+          id?: boolean
+          requested_at?: string | null
+        }
+        Relationships: []
+      }
+      metric_tags: {
+        Row: {
+          metric_id: string
+          tag_id: string
+        }
+        Insert: {
+          metric_id: string
+          tag_id: string
+        }
+        Update: {
+          metric_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metric_tags_metric_id_fkey"
+            columns: ["metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "metric_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       metrics: {
         Row: {
+          category_id: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
+          frequency: Database["public"]["Enums"]["metric_frequency"]
           id: string
           metadata: Json | null
           name: string
           parent_id: string | null
+          rollup: Database["public"]["Enums"]["metric_rollup"]
+          source_id: string | null
           unit: string | null
           updated_at: string
         }
         Insert: {
+          category_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
+          frequency?: Database["public"]["Enums"]["metric_frequency"]
           id?: string
           metadata?: Json | null
           name: string
           parent_id?: string | null
+          rollup?: Database["public"]["Enums"]["metric_rollup"]
+          source_id?: string | null
           unit?: string | null
           updated_at?: string
         }
         Update: {
+          category_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
+          frequency?: Database["public"]["Enums"]["metric_frequency"]
           id?: string
           metadata?: Json | null
           name?: string
           parent_id?: string | null
+          rollup?: Database["public"]["Enums"]["metric_rollup"]
+          source_id?: string | null
           unit?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "metrics_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "metrics_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "metrics_parent_id_fkey"
             columns: ["parent_id"]
@@ -321,6 +778,13 @@ export type Database = {
             referencedRelation: "metrics"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "metrics_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notes: {
@@ -328,8 +792,10 @@ export type Database = {
           created_at: string
           id: string
           metric_data_id: string | null
+          metric_id: string | null
           note: string
           region_id: string | null
+          updated_at: string
           visible_end_date: string | null
           visible_start_date: string | null
         }
@@ -337,8 +803,10 @@ export type Database = {
           created_at?: string
           id?: string
           metric_data_id?: string | null
+          metric_id?: string | null
           note: string
           region_id?: string | null
+          updated_at?: string
           visible_end_date?: string | null
           visible_start_date?: string | null
         }
@@ -346,8 +814,10 @@ export type Database = {
           created_at?: string
           id?: string
           metric_data_id?: string | null
+          metric_id?: string | null
           note?: string
           region_id?: string | null
+          updated_at?: string
           visible_end_date?: string | null
           visible_start_date?: string | null
         }
@@ -359,6 +829,13 @@ export type Database = {
             referencedRelation: "metric_data"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notes_metric_id_fkey"
+            columns: ["metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notes_region_id_fkey"
             columns: ["region_id"]
@@ -368,48 +845,283 @@ export type Database = {
           },
         ]
       }
+      pending_imports: {
+        Row: {
+          created_at: string
+          data: Json
+          file_id: string
+          id: string
+          issues: Json
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_data: Json | null
+          status: Database["public"]["Enums"]["pending_import_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          file_id: string
+          id?: string
+          issues?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_data?: Json | null
+          status?: Database["public"]["Enums"]["pending_import_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          file_id?: string
+          id?: string
+          issues?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_data?: Json | null
+          status?: Database["public"]["Enums"]["pending_import_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_imports_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: true
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      publication_review_items: {
+        Row: {
+          metric_data_id: string
+          published_value: number | null
+          review_id: string
+          value: number
+        }
+        Insert: {
+          metric_data_id: string
+          published_value?: number | null
+          review_id: string
+          value: number
+        }
+        Update: {
+          metric_data_id?: string
+          published_value?: number | null
+          review_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "publication_review_items_metric_data_id_fkey"
+            columns: ["metric_data_id"]
+            isOneToOne: false
+            referencedRelation: "metric_data"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publication_review_items_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "publication_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      publication_reviews: {
+        Row: {
+          created_at: string
+          id: string
+          metric_id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["publication_review_status"]
+          submission_comment: string | null
+          submitted_at: string
+          submitted_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          metric_id: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["publication_review_status"]
+          submission_comment?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          metric_id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["publication_review_status"]
+          submission_comment?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "publication_reviews_metric_id_fkey"
+            columns: ["metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publication_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publication_reviews_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      region_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          id: string
+          region_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          id?: string
+          region_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          id?: string
+          region_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "region_aliases_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       regions: {
         Row: {
           code: string
           created_at: string
+          geometry: Json | null
           id: string
+          level: Database["public"]["Enums"]["region_level"]
           name: string
+          parent_id: string | null
+          population: number | null
           updated_at: string
         }
         Insert: {
           code: string
           created_at?: string
+          geometry?: Json | null
           id?: string
+          level?: Database["public"]["Enums"]["region_level"]
           name: string
+          parent_id?: string | null
+          population?: number | null
           updated_at?: string
         }
         Update: {
           code?: string
           created_at?: string
+          geometry?: Json | null
           id?: string
+          level?: Database["public"]["Enums"]["region_level"]
           name?: string
+          parent_id?: string | null
+          population?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "regions_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       sources: {
         Row: {
+          citation_template: string | null
           created_at: string
           description: string | null
           id: string
+          license: string | null
           name: string
+          publisher: string | null
+          updated_at: string
+          url: string | null
         }
         Insert: {
+          citation_template?: string | null
           created_at?: string
           description?: string | null
           id?: string
+          license?: string | null
           name: string
+          publisher?: string | null
+          updated_at?: string
+          url?: string | null
         }
         Update: {
+          citation_template?: string | null
           created_at?: string
           description?: string | null
           id?: string
+          license?: string | null
           name?: string
+          publisher?: string | null
+          updated_at?: string
+          url?: string | null
         }
         Relationships: []
       }
@@ -430,14 +1142,253 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      metric_stats: {
+        Row: {
+          data_count: number | null
+          draft_count: number | null
+          first_date: string | null
+          last_date: string | null
+          metric_id: string | null
+          private_count: number | null
+          public_count: number | null
+          region_count: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_import_jobs: {
+        Args: { p_worker: string; p_limit?: number; p_lock_timeout?: unknown }
+        Returns: {
+          attempts: number
+          created_at: string
+          file_id: string
+          finished_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          run_after: string
+          status: Database["public"]["Enums"]["import_job_status"]
+          updated_at: string
+        }[]
+      }
+      complete_import_job: {
+        Args: { p_job_id: string; p_error?: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          file_id: string
+          finished_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          run_after: string
+          status: Database["public"]["Enums"]["import_job_status"]
+          updated_at: string
+        }
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      enqueue_import_job: {
+        Args: { p_file_id: string; p_kind?: string; p_payload?: Json }
+        Returns: {
+          attempts: number
+          created_at: string
+          file_id: string
+          finished_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          run_after: string
+          status: Database["public"]["Enums"]["import_job_status"]
+          updated_at: string
+        }
+      }
+      fail_import_file: {
+        Args: { p_job: Database["public"]["Tables"]["import_jobs"]["Row"] }
+        Returns: undefined
+      }
+      get_metric_series: {
+        Args: {
+          p_metric_ids: string[]
+          p_region_ids?: string[]
+          p_from?: string
+          p_to?: string
+          p_frequency?: Database["public"]["Enums"]["metric_frequency"]
+          p_aggregation?: string
+          p_by_region?: boolean
+          p_public_only?: boolean
+        }
+        Returns: {
+          period: string
+          metric_id: string
+          region_id: string
+          value: number
+        }[]
+      }
+      get_rolled_up_metric_data: {
+        Args: {
+          p_metric_ids: string[]
+          p_region_ids?: string[]
+          p_from?: string
+          p_to?: string
+          p_public_only?: boolean
+        }
+        Returns: {
+          metric_id: string
+          date: string
+          region_id: string
+          value: number
+        }[]
+      }
+      get_trash_items: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          item_type: string
+          id: string
+          name: string
+          deleted_at: string
+          deleted_by: string
+          purge_at: string
+          data_count: number
+          highlight_count: number
+          charts: Json
+        }[]
+      }
+      has_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      purge_expired_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      purge_trash_item: {
+        Args: { p_item_type: string; p_id: string }
+        Returns: undefined
+      }
+      refresh_metric_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      require_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: undefined
+      }
+      restore_trash_item: {
+        Args: { p_item_type: string; p_id: string }
+        Returns: undefined
+      }
+      revert_metric_data_revision: {
+        Args: { p_revision_id: string; p_reason?: string }
+        Returns: {
+          created_at: string
+          date: string
+          id: string
+          metadata: Json | null
+          metric_id: string
+          published_at: string | null
+          published_by: string | null
+          published_value: number | null
+          region_id: string | null
+          status: Database["public"]["Enums"]["metric_data_status"]
+          updated_at: string
+          value: number
+        }
+      }
+      review_publication: {
+        Args: { p_review_id: string; p_approve: boolean; p_comment?: string }
+        Returns: Json
+      }
+      submit_publication_review: {
+        Args: { p_metric_id: string; p_comment?: string }
+        Returns: {
+          created_at: string
+          id: string
+          metric_id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["publication_review_status"]
+          submission_comment: string | null
+          submitted_at: string
+          submitted_by: string | null
+          updated_at: string
+        }
+      }
+      trash_chart: {
+        Args: { p_chart_id: string }
+        Returns: undefined
+      }
+      trash_metric: {
+        Args: { p_metric_id: string }
+        Returns: undefined
+      }
+      undo_import: {
+        Args: { p_file_id: string; p_force?: boolean }
+        Returns: Json
+      }
+      update_metric_data: {
+        Args: {
+          p_id: string
+          p_value: number
+          p_region_id: string
+          p_date: string
+          p_status: Database["public"]["Enums"]["metric_data_status"]
+          p_reason?: string
+        }
+        Returns: {
+          created_at: string
+          date: string
+          id: string
+          metadata: Json | null
+          metric_id: string
+          published_at: string | null
+          published_by: string | null
+          published_value: number | null
+          region_id: string | null
+          status: Database["public"]["Enums"]["metric_data_status"]
+          updated_at: string
+          value: number
+        }
+      }
+      wake_import_worker: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
     }
     Enums: {
-      file_processing_status: "pending" | "processing" | "completed" | "error"
+      app_role: "viewer" | "editor" | "admin"
+      file_processing_status:
+        | "pending"
+        | "processing"
+        | "awaiting_review"
+        | "completed"
+        | "error"
+        | "rejected"
+        | "reverted"
+      import_chunk_status: "pending" | "processing" | "completed" | "error"
+      import_job_status: "queued" | "running" | "succeeded" | "failed"
       metric_data_status: "public" | "private" | "draft"
+      metric_frequency: "annual" | "quarterly" | "monthly" | "daily"
+      metric_rollup: "sum" | "avg" | "weighted_avg"
+      pending_import_status: "pending" | "committed" | "rejected" | "reverted"
+      publication_review_status: "pending" | "approved" | "rejected"
+      region_level: "country" | "region" | "department"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -556,8 +1507,24 @@ export const Constants = {
   },
   public: {
     Enums: {
-      file_processing_status: ["pending", "processing", "completed", "error"],
+      app_role: ["viewer", "editor", "admin"],
+      file_processing_status: [
+        "pending",
+        "processing",
+        "awaiting_review",
+        "completed",
+        "error",
+        "rejected",
+        "reverted",
+      ],
+      import_chunk_status: ["pending", "processing", "completed", "error"],
+      import_job_status: ["queued", "running", "succeeded", "failed"],
       metric_data_status: ["public", "private", "draft"],
+      metric_frequency: ["annual", "quarterly", "monthly", "daily"],
+      metric_rollup: ["sum", "avg", "weighted_avg"],
+      pending_import_status: ["pending", "committed", "rejected", "reverted"],
+      publication_review_status: ["pending", "approved", "rejected"],
+      region_level: ["country", "region", "department"],
     },
   },
 } as const
@@ -0,0 +1,81 @@
+// Split of large workbooks into chunks small enough for one LLM prompt, and merge of the
+// chunk results.
+import { buildImportKey } from './labels.ts';
+import type { ProcessedOutput, RawSpreadsheetData } from './types.ts';
+
+export const DEFAULT_CHUNK_ROWS = 200;
+
+// Rows [startRow, endRow[ of a sheet, as indexes in the sheet_to_json rows
+export interface SpreadsheetChunk {
+  index: number;
+  sheet: string;
+  startRow: number;
+  endRow: number;
+}
+
+/**
+ * One chunk per sheet, sheets longer than maxRows are split in row windows.
+ * Rows are keyed by their column headers, so every window stays readable on its own.
+ */
+export function splitIntoChunks(
+  rawData: RawSpreadsheetData,
+  maxRows = DEFAULT_CHUNK_ROWS
+): SpreadsheetChunk[] {
+  const chunks: SpreadsheetChunk[] = [];
+
+  Object.entries(rawData).forEach(([sheet, rows]) => {
+    for (let startRow = 0; startRow < rows.length; startRow += maxRows) {
+      chunks.push({
+        index: chunks.length,
+        sheet,
+        startRow,
+        endRow: Math.min(startRow + maxRows, rows.length),
+      });
+    }
+  });
+
+  return chunks;
+}
+
+export function getChunkData(
+  rawData: RawSpreadsheetData,
+  { sheet, startRow, endRow }: Pick<SpreadsheetChunk, 'sheet' | 'startRow' | 'endRow'>
+): RawSpreadsheetData {
+  return { [sheet]: (rawData[sheet] ?? []).slice(startRow, endRow) };
+}
+
+/**
+ * Merge the metrics extracted from each chunk: a metric split across row windows or sheets
+ * is recognized by its name and unit, and a point found twice keeps its last value
+ */
+export function mergeChunkResults(results: ProcessedOutput[]): ProcessedOutput {
+  const metrics = new Map<string, ProcessedOutput['metrics'][number]>();
+
+  results.forEach(result =>
+    result.metrics.forEach(metric => {
+      const key = buildImportKey(metric.name, metric.unit);
+      const merged = metrics.get(key);
+
+      if (!merged) {
+        metrics.set(key, { ...metric, data: [...metric.data] });
+        return;
+      }
+
+      metric.data.forEach(point => {
+        const existingIndex = merged.data.findIndex(
+          existing =>
+            existing.region === point.region &&
+            existing.year === point.year &&
+            existing.period === point.period
+        );
+        if (existingIndex === -1) {
+          merged.data.push(point);
+        } else {
+          merged.data[existingIndex] = point;
+        }
+      });
+    })
+  );
+
+  return { metrics: [...metrics.values()] };
+}
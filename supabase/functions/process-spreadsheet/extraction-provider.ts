@@ -0,0 +1,97 @@
+// LLM providers used to extract metrics from the spreadsheets the tabular parser can't read.
+// The provider is chosen with the EXTRACTION_PROVIDER environment variable:
+// - openai (default): OpenAI API, needs OPENAI_API_KEY, model set by OPENAI_MODEL
+// - local: any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...), set by LLM_BASE_URL,
+//   LLM_MODEL and optionally LLM_API_KEY
+// - fixture: replays recorded responses from EXTRACTION_FIXTURES_DIR, for offline tests
+import { ChatOpenAI } from 'npm:@langchain/openai';
+import { createFixtureProvider } from './fixture-provider.ts';
+
+export interface ExtractionMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface ExtractionProvider {
+  name: string;
+  // Raw text answered by the model, parsed and validated by the caller
+  complete: (messages: ExtractionMessage[]) => Promise<string>;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4.1-mini';
+
+export function createExtractionProvider(): ExtractionProvider {
+  const providerName = Deno.env.get('EXTRACTION_PROVIDER') || 'openai';
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is required');
+      }
+      return createChatProvider('openai', {
+        apiKey,
+        model: Deno.env.get('OPENAI_MODEL') || DEFAULT_OPENAI_MODEL,
+      });
+    }
+    case 'local': {
+      const baseURL = Deno.env.get('LLM_BASE_URL');
+      const model = Deno.env.get('LLM_MODEL');
+      if (!baseURL || !model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required by the local provider');
+      }
+      // Local servers usually ignore the key, but the client refuses to start without one
+      return createChatProvider('local', {
+        apiKey: Deno.env.get('LLM_API_KEY') || 'local',
+        model,
+        baseURL,
+      });
+    }
+    case 'fixture': {
+      const fixturesDir = Deno.env.get('EXTRACTION_FIXTURES_DIR');
+      if (!fixturesDir) {
+        throw new Error('EXTRACTION_FIXTURES_DIR is required by the fixture provider');
+      }
+      return createFixtureProvider(async fileName => {
+        const fixturePath = `${fixturesDir.replace(/\/$/, '')}/${fileName}`;
+        try {
+          return await Deno.readTextFile(fixturePath);
+        } catch (error) {
+          if (error instanceof Deno.errors.NotFound) {
+            throw new Error(`No extraction fixture found for this spreadsheet: ${fixturePath}`);
+          }
+          throw error;
+        }
+      });
+    }
+    default:
+      throw new Error(`Unknown extraction provider: ${providerName}`);
+  }
+}
+
+function createChatProvider(
+  name: string,
+  { apiKey, model, baseURL }: { apiKey: string; model: string; baseURL?: string }
+): ExtractionProvider {
+  const chatModel = new ChatOpenAI({
+    openAIApiKey: apiKey,
+    temperature: 0,
+    modelName: model,
+    configuration: baseURL ? { baseURL } : undefined,
+  });
+
+  return {
+    name,
+    complete: async messages => {
+      const response = await chatModel.invoke(messages);
+
+      if (typeof response.content === 'string') {
+        return response.content;
+      }
+      if (Array.isArray(response.content)) {
+        return response.content.map(part => (typeof part === 'string' ? part : '')).join('');
+      }
+      return '';
+    },
+  };
+}
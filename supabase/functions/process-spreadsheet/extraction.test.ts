@@ -0,0 +1,63 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+import { processSpreadsheetData } from './extraction.ts';
+import { createFixtureProvider } from './fixture-provider.ts';
+import type { ImportIssue, Region, RegionAlias } from './types.ts';
+
+const regions: Region[] = [
+  { id: '1', code: 'PS', name: 'Province Sud' },
+  { id: '2', code: 'PN', name: 'Province Nord' },
+];
+const aliases: RegionAlias[] = [{ region_id: '1', alias: 'Sud' }];
+
+// Sheet with a title row above the table, which the tabular parser can't read
+const rawData = {
+  Tourisme: [
+    { __EMPTY: 'Arrivées de touristes (milliers)' },
+    { __EMPTY: 'Province', __EMPTY_1: 'T1 2023', __EMPTY_2: 'T2 2023' },
+    { __EMPTY: 'Sud', __EMPTY_1: 25.4, __EMPTY_2: '27.1' },
+    { __EMPTY: 'Nord', __EMPTY_1: 3.2, __EMPTY_2: 3.5 },
+  ],
+};
+
+const provider = createFixtureProvider(fileName =>
+  readFile(new URL(`./fixtures/${fileName}`, import.meta.url), 'utf8')
+);
+
+describe('processSpreadsheetData', () => {
+  it('extracts the metrics answered by the model', async () => {
+    const issues: ImportIssue[] = [];
+    const output = await processSpreadsheetData(provider, rawData, regions, aliases, issues);
+
+    expect(output.metrics).toEqual([
+      {
+        name: 'Arrivées de touristes',
+        unit: 'milliers',
+        data: [
+          { region: 'PS', year: 2023, period: '2023-Q1', value: 25.4 },
+          { region: 'PS', year: 2023, period: '2023-Q2', value: 27.1 },
+          { region: 'PN', year: 2023, period: '2023-Q1', value: 3.2 },
+          { region: 'PN', year: 2023, period: '2023-Q2', value: 3.5 },
+        ],
+      },
+    ]);
+    // Values the model left as text are converted, points without a region are dropped
+    expect(issues).toMatchObject([
+      { severity: 'coerced', reason: 'coerced_value', region: 'PS', value: '27.1' },
+      { severity: 'coerced', reason: 'coerced_year', region: 'PN', value: '2023' },
+      { severity: 'rejected', reason: 'unknown_region', region: null },
+    ]);
+  });
+
+  it('fails when no fixture was recorded for the spreadsheet', async () => {
+    await expect(
+      processSpreadsheetData(
+        provider,
+        { Tourisme: rawData.Tourisme.slice(0, 2) },
+        regions,
+        aliases,
+        []
+      )
+    ).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,219 @@
+// Extraction of the metrics of the spreadsheets the tabular parser can't read, with an LLM
+import { z } from 'npm:zod';
+import type { ExtractionProvider } from './extraction-provider.ts';
+import { normalizePointPeriod } from './periods.ts';
+import type {
+  ImportIssue,
+  MetricDataPoint,
+  ProcessedOutput,
+  RawSpreadsheetData,
+  Region,
+  RegionAlias,
+} from './types.ts';
+
+export const processedOutputSchema = z.object({
+  metrics: z.array(
+    z.object({
+      name: z.string(),
+      unit: z.string(),
+      data: z.array(
+        z.object({
+          region: z.string(),
+          year: z.number().int(),
+          period: z.string().optional(),
+          value: z.number(),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Extract metrics from spreadsheet data with the given LLM provider
+ */
+export async function processSpreadsheetData(
+  provider: ExtractionProvider,
+  rawData: RawSpreadsheetData,
+  regions: Region[],
+  aliases: RegionAlias[],
+  issues: ImportIssue[]
+): Promise<ProcessedOutput> {
+  // Aliases help the model recognize regions named differently in the source file
+  const regionList = regions.map(r => ({
+    code: r.code,
+    name: r.name,
+    aliases: aliases.filter(a => a.region_id === r.id).map(a => a.alias),
+  }));
+
+  try {
+    // Create a prompt with clear instructions
+    const systemPrompt = {
+      role: 'system' as const,
+      content: `Tu es un expert en analyse de données. Ton rôle est de transformer les données d'un fichier Excel en données structurées pour une base de données.
+
+Pour chaque feuille du fichier Excel, identifie les métriques suivantes:
+- Le nom de la métrique (cherche dans les en-têtes ou les premières lignes)
+- L'unité de la métrique (comme %, €, nombre, etc.)
+- Les données associées à chaque métrique avec:
+  * La région (utilise uniquement les codes de région fournis, en t'aidant des noms et des alias)
+  * L'année (convertie en nombre entier)
+  * La période, uniquement pour les données infra-annuelles: "2023-Q2" pour un trimestre, "2023-05" pour un mois, "2023-05-14" pour un jour
+  * La valeur numérique (convertie en nombre)
+
+IMPORTANT:
+- Une feuille peut contenir plusieurs métriques différentes
+- Assure-toi que les codes de région correspondent exactement à ceux fournis
+- Convertis les années en nombres entiers (2022 et non "2022")
+- Convertis les valeurs en nombres (pas de chaînes de caractères)
+
+Voici la liste des codes de région disponibles, avec les autres noms connus de chaque région:
+${JSON.stringify(regionList)}
+
+Ta réponse doit être un JSON valide avec exactement cette structure:
+{
+  "metrics": [
+    {
+      "name": "Nom de la métrique",
+      "unit": "Unité de mesure",
+      "data": [
+        {
+          "region": "CODE_REGION",
+          "year": 2023,
+          "value": 42.5
+        },
+        {
+          "region": "CODE_REGION",
+          "year": 2023,
+          "period": "2023-Q2",
+          "value": 12.1
+        },
+        // Plus de données
+      ]
+    },
+    // Plus de métriques
+  ]
+}
+
+Ne retourne rien d'autre que ce JSON.`,
+    };
+
+    const userPrompt = {
+      role: 'user' as const,
+      content: `Voici les données brutes du fichier Excel par feuille:\n${JSON.stringify(rawData, null, 2)}`,
+    };
+
+    // Call the model
+    console.log(`Extracting metrics with the ${provider.name} provider`);
+    const responseText = await provider.complete([systemPrompt, userPrompt]);
+
+    // Extract JSON from the response (in case there's any extra text)
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No valid JSON found in the model response');
+    }
+
+    const jsonResponse = JSON.parse(jsonMatch[0]) as ProcessedOutput;
+
+    let validatedData: ProcessedOutput;
+
+    // Validate and handle any validation errors
+    try {
+      processedOutputSchema.parse(jsonResponse);
+      console.log(`Successfully processed ${jsonResponse.metrics.length} metrics`);
+      validatedData = jsonResponse;
+    } catch (validationError) {
+      console.error('Validation error:', validationError);
+      // If validation fails, try to recover what we can, recording every converted or dropped value
+      validatedData = {
+        metrics: (jsonResponse.metrics || []).map(metric => {
+          const name = String(metric.name || 'Unknown metric');
+
+          return {
+            name,
+            unit: String(metric.unit || 'Unknown unit'),
+            data: Array.isArray(metric.data)
+              ? metric.data
+                  .filter(dp => dp && typeof dp === 'object')
+                  .map(dp => recoverDataPoint(dp, name, issues))
+                  .filter((dp): dp is MetricDataPoint => dp !== null)
+              : [],
+          };
+        }),
+      };
+    }
+
+    return {
+      metrics: validatedData.metrics.map(metric => ({
+        ...metric,
+        data: metric.data.map(normalizePointPeriod),
+      })),
+    };
+  } catch (error) {
+    // Rethrown so the chunk is marked as failed and can be retried
+    console.error('Error processing data:', error);
+    throw error;
+  }
+}
+
+// Convert a data point returned by the model, or drop it when it can't be read
+function recoverDataPoint(
+  dp: { region?: unknown; year?: unknown; period?: unknown; value?: unknown },
+  metricName: string,
+  issues: ImportIssue[]
+): MetricDataPoint | null {
+  const region = String(dp.region || '');
+  const year =
+    typeof dp.year === 'number'
+      ? Math.floor(dp.year)
+      : typeof dp.year === 'string'
+        ? parseInt(dp.year, 10) || 0
+        : 0;
+  const value =
+    typeof dp.value === 'number'
+      ? dp.value
+      : typeof dp.value === 'string'
+        ? parseFloat(dp.value)
+        : NaN;
+
+  const issue = {
+    sheet: null,
+    cell: null,
+    metric: metricName,
+    region: region || null,
+    year: year > 0 ? year : null,
+  };
+
+  if (!region) {
+    issues.push({ ...issue, severity: 'rejected', reason: 'unknown_region', value: null });
+    return null;
+  }
+  if (year <= 0) {
+    issues.push({ ...issue, severity: 'rejected', reason: 'invalid_year', value: String(dp.year) });
+    return null;
+  }
+  if (!Number.isFinite(value)) {
+    issues.push({
+      ...issue,
+      severity: 'rejected',
+      reason: 'invalid_value',
+      value: String(dp.value),
+    });
+    return null;
+  }
+
+  if (typeof dp.year !== 'number' || !Number.isInteger(dp.year)) {
+    issues.push({ ...issue, severity: 'coerced', reason: 'coerced_year', value: String(dp.year) });
+  }
+  if (typeof dp.value !== 'number') {
+    issues.push({
+      ...issue,
+      severity: 'coerced',
+      reason: 'coerced_value',
+      value: String(dp.value),
+    });
+  }
+
+  return typeof dp.period === 'string'
+    ? { region, year, period: dp.period, value }
+    : { region, year, value };
+}
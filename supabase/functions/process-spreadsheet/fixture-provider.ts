@@ -0,0 +1,30 @@
+// Extraction provider replaying recorded model responses, for offline tests
+import type { ExtractionProvider } from './extraction-provider.ts';
+
+/**
+ * Fixtures are named after the SHA-256 of the user prompt (`<hash>.json`), so a given
+ * spreadsheet always replays the same response. The caller reads them, and fails with the
+ * expected file name when one is missing to make recording new ones easy.
+ */
+export function createFixtureProvider(
+  readFixture: (fileName: string) => Promise<string>
+): ExtractionProvider {
+  return {
+    name: 'fixture',
+    complete: async messages => {
+      const userPrompt = messages
+        .filter(message => message.role === 'user')
+        .map(message => message.content)
+        .join('\n');
+
+      return await readFixture(`${await sha256(userPrompt)}.json`);
+    },
+  };
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,49 @@
+// Downloadable report of the values rejected or coerced during an import
+import XLSX from 'xlsx';
+import type { ImportIssue, ImportIssueReason } from './types.ts';
+
+const REASON_LABELS: Record<ImportIssueReason, string> = {
+  unknown_region: 'Unknown region',
+  invalid_year: 'Invalid year or period',
+  invalid_value: 'Value is not a number',
+  coerced_year: 'Year converted to a number',
+  coerced_value: 'Value converted to a number',
+  save_failed: 'Not saved to the database',
+};
+
+export interface ImportReportSummary {
+  rejected_count: number;
+  coerced_count: number;
+  csv_path: string;
+  xlsx_path: string;
+}
+
+export function buildReportFiles(issues: ImportIssue[]) {
+  const worksheet = XLSX.utils.json_to_sheet(
+    issues.map(issue => ({
+      Sheet: issue.sheet ?? '',
+      Cell: issue.cell ?? '',
+      Status: issue.severity,
+      Reason: REASON_LABELS[issue.reason],
+      Metric: issue.metric ?? '',
+      Region: issue.region ?? '',
+      Year: issue.year ?? '',
+      Value: issue.value ?? '',
+    }))
+  );
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Rejects');
+
+  return {
+    csv: XLSX.utils.sheet_to_csv(worksheet),
+    xlsx: XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer,
+  };
+}
+
+export function countIssues(issues: ImportIssue[]) {
+  return {
+    rejected_count: issues.filter(issue => issue.severity === 'rejected').length,
+    coerced_count: issues.filter(issue => issue.severity === 'coerced').length,
+  };
+}
@@ -2,37 +2,48 @@
 import XLSX from 'xlsx';
 import { corsHeaders } from './cors.ts';
 import { createClient } from '@supabase/supabase-js';
-import { ChatOpenAI } from 'npm:@langchain/openai';
-import { z } from 'npm:zod';
-
-// Define types for metrics data
-interface Region {
-  id: string;
-  code: string;
-  name: string;
-}
-
-interface MetricDataPoint {
-  region: string;
-  year: number;
-  value: number;
-}
-
-interface Metric {
-  name: string;
-  unit: string;
-  data: MetricDataPoint[];
-}
-
-interface ProcessedOutput {
-  metrics: Metric[];
-}
+import { parseTabularData, type CellRefResolver } from './tabular-parser.ts';
+import { createRegionResolver, type RegionResolver } from './region-resolver.ts';
+import { createExtractionProvider } from './extraction-provider.ts';
+import { processedOutputSchema, processSpreadsheetData } from './extraction.ts';
+import {
+  DEFAULT_CHUNK_ROWS,
+  getChunkData,
+  mergeChunkResults,
+  splitIntoChunks,
+  type SpreadsheetChunk,
+} from './chunking.ts';
+import { buildReportFiles, countIssues, type ImportReportSummary } from './import-report.ts';
+import { buildImportKey } from './labels.ts';
+import {
+  buildMetricMatch,
+  findMatchingMetric,
+  getImportKey,
+  type ExistingMetric,
+  type MetricMatch,
+} from './metric-matcher.ts';
+import { getFinestFrequency, getMetricFrequency, getPeriodDate } from './periods.ts';
+import type {
+  AppRole,
+  ImportIssue,
+  ImportJob,
+  ImportPath,
+  Metric,
+  MetricDataPoint,
+  ProcessedOutput,
+  RawSpreadsheetData,
+  Region,
+  RegionAlias,
+} from './types.ts';
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
 const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
+// Not above the max_rows setting of the API
+const EXISTING_ROWS_PAGE_SIZE = 1000;
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -42,85 +53,442 @@ Deno.serve(async (req: Request) => {
   try {
     // Parse request body
     const body = await req.json();
-    const { fileId, filePath, fileName } = body;
 
-    if (!fileId || !filePath) {
-      return new Response(JSON.stringify({ error: 'File ID and path are required' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // The worker is woken up by the database with the service role key, everything else is
+    // done by editors from the import page
+    const authorized =
+      body.action === 'work' || !body.action
+        ? isServiceRequest(req) || (await hasRequestRole(req, 'editor'))
+        : await hasRequestRole(req, 'editor');
+    if (!authorized) {
+      return jsonResponse({ error: 'Not allowed to import files' }, 403);
     }
 
-    console.log(`Processing file: ${fileName} (ID: ${fileId})`);
-    console.log(`File path: ${filePath}`);
+    // Reviewed imports are committed or rejected through the same endpoint
+    switch (body.action) {
+      case 'commit':
+        return await commitImport(req, body);
+      case 'reject':
+        return await rejectImport(req, body);
+      case 'match':
+        return await matchImport(body);
+      case 'retry_chunks':
+        return await retryImportChunks(body);
+      case 'work':
+        return await runImportWorker();
+      default:
+        return await processFile(body);
+    }
+  } catch (error: unknown) {
+    console.error('Error processing spreadsheet:', error);
 
-    // Download the file from storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from('metrics-import')
-      .download(filePath);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
 
-    if (downloadError || !fileData) {
-      console.error('Error downloading file:', downloadError);
+/**
+ * Extract metrics from the uploaded file and stage them for review
+ */
+async function processFile(body: { fileId?: string; filePath?: string; fileName?: string }) {
+  const { fileId, filePath, fileName } = body;
 
-      // Update file with error status
-      await updateFileStatus(fileId, 'error', {
-        error: downloadError?.message || 'Failed to download file',
-      });
+  if (!fileId || !filePath) {
+    return jsonResponse({ error: 'File ID and path are required' }, 400);
+  }
 
-      return new Response(
-        JSON.stringify({ error: 'Failed to download file', details: downloadError }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  // Extracting the file again would replace its committed import, which couldn't be undone anymore
+  if ((await getPendingImport(fileId))?.status === 'committed') {
+    return jsonResponse({ error: 'The import of this file must be undone first' }, 409);
+  }
 
-    // Update file status to processing
-    await updateFileStatus(fileId, 'processing');
+  console.log(`Processing file: ${fileName} (ID: ${fileId})`);
+  console.log(`File path: ${filePath}`);
 
-    // Process the Excel file
-    const arrayBuffer = await fileData.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+  // Download the file from storage
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('metrics-import')
+    .download(filePath);
 
-    // Convert to JSON
-    const rawData: Record<string, Array<Record<string, unknown>>> = {};
+  if (downloadError || !fileData) {
+    console.error('Error downloading file:', downloadError);
 
-    // Process each sheet in the workbook
-    workbook.SheetNames.forEach((sheetName: string) => {
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet) as Record<string, unknown>[];
-      rawData[sheetName] = jsonData;
+    // Update file with error status
+    await updateFileStatus(fileId, 'error', {
+      error: downloadError?.message || 'Failed to download file',
     });
 
-    // Log the parsed JSON data
-    console.log(
-      'Raw parsed spreadsheet data (sample):',
-      Object.keys(rawData).map(sheet => `${sheet}: ${rawData[sheet].length} rows`)
-    );
+    return jsonResponse({ error: 'Failed to download file', details: downloadError }, 500);
+  }
+
+  // Update file status to processing, progress of a previous run is cleared
+  await updateFileStatus(fileId, 'processing', { chunks: null, error: null });
+
+  const { rawData, getCellRef } = await readSpreadsheet(fileData);
+
+  // Log the parsed JSON data
+  console.log(
+    'Raw parsed spreadsheet data (sample):',
+    Object.keys(rawData).map(sheet => `${sheet}: ${rawData[sheet].length} rows`)
+  );
+
+  const { resolveRegion } = await getRegionResolver();
+
+  // Well-formed layouts are parsed with rules, the LLM is only used when detection fails
+  const tabularResult = parseTabularData(rawData, resolveRegion, { fileName, getCellRef });
 
-    const regions = await getRegions();
+  if (!tabularResult) {
+    // Large workbooks don't fit in one prompt, they are sent sheet by sheet and row window by row window
+    const chunks = splitIntoChunks(rawData, getChunkRows());
+    await resetImportChunks(fileId, chunks);
+
+    return await processImportChunks(fileId, filePath, rawData, chunks);
+  }
+
+  console.log('Extracted with tabular path, metrics count:', tabularResult.output.metrics.length);
+
+  await stageImport(fileId, filePath, tabularResult.output, tabularResult.issues, {
+    import_path: 'tabular',
+    detected_layouts: tabularResult.layouts,
+  });
+
+  return jsonResponse({ success: true, importPath: 'tabular', data: tabularResult.output });
+}
+
+/**
+ * Extract the metrics of the given chunks with the LLM, then stage the merged result once
+ * every chunk of the file succeeded
+ */
+async function processImportChunks(
+  fileId: string,
+  filePath: string,
+  rawData: RawSpreadsheetData,
+  chunks: SpreadsheetChunk[]
+) {
+  const { regions, aliases, resolveRegion } = await getRegionResolver();
 
-    // Process the data with OpenAI
-    const processedData = await processSpreadsheetData(rawData, regions, fileId);
+  for (const chunk of chunks) {
+    await updateImportChunk(fileId, chunk.index, { status: 'processing', error: null });
 
-    console.log('Processed data metrics count:', processedData.metrics.length);
+    try {
+      const issues: ImportIssue[] = [];
+      const result = resolveRegionCodes(
+        await processSpreadsheetData(
+          createExtractionProvider(),
+          getChunkData(rawData, chunk),
+          regions,
+          aliases,
+          issues
+        ),
+        resolveRegion
+      );
+      await updateImportChunk(fileId, chunk.index, { status: 'completed', result, issues });
+    } catch (error) {
+      console.error(`Error processing chunk ${chunk.index} (${chunk.sheet}):`, error);
+      await updateImportChunk(fileId, chunk.index, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
 
-    // Update file with processed status and the data
-    await updateFileStatus(fileId, 'completed', {
-      metrics_count: processedData.metrics.length,
-      data_points_count: processedData.metrics.reduce((acc, metric) => acc + metric.data.length, 0),
+    await updateFileStatus(fileId, 'processing', {
+      chunks: summarizeImportChunks(await getImportChunks(fileId)),
     });
+  }
+
+  const importChunks = await getImportChunks(fileId);
+  const progress = summarizeImportChunks(importChunks);
 
-    return new Response(JSON.stringify({ success: true, data: processedData }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  if (progress.completed < progress.total) {
+    await updateFileStatus(fileId, 'error', {
+      import_path: 'llm',
+      chunks: progress,
+      error: `${progress.total - progress.completed} of ${progress.total} chunks failed`,
     });
-  } catch (error: unknown) {
-    console.error('Error processing spreadsheet:', error);
 
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: 'Some chunks failed', chunks: progress }, 500);
+  }
+
+  const processedData = mergeChunkResults(
+    importChunks.map(chunk => chunk.result as ProcessedOutput)
+  );
+  const issues = importChunks.flatMap(chunk => chunk.issues as ImportIssue[]);
+
+  console.log(
+    `Extracted with llm path in ${progress.total} chunks, metrics count:`,
+    processedData.metrics.length
+  );
+
+  await stageImport(fileId, filePath, processedData, issues, {
+    import_path: 'llm',
+    detected_layouts: null,
+    chunks: progress,
+  });
+
+  return jsonResponse({ success: true, importPath: 'llm', data: processedData });
+}
+
+/**
+ * Run the failed (or interrupted) chunks of a file again, or only the given one
+ */
+async function retryImportChunks(body: { fileId?: string; chunkIndex?: number }) {
+  const { fileId, chunkIndex } = body;
+
+  if (!fileId) {
+    return jsonResponse({ error: 'File ID is required' }, 400);
+  }
+
+  // Extracting the file again would replace its committed import, which couldn't be undone anymore
+  if ((await getPendingImport(fileId))?.status === 'committed') {
+    return jsonResponse({ error: 'The import of this file must be undone first' }, 409);
+  }
+
+  const importChunks = await getImportChunks(fileId);
+  const retriedChunks = importChunks.filter(chunk =>
+    chunkIndex === undefined ? chunk.status !== 'completed' : chunk.chunk_index === chunkIndex
+  );
+
+  if (retriedChunks.length === 0) {
+    return jsonResponse({ error: 'No chunk to retry for this file' }, 409);
+  }
+
+  const file = await getFile(fileId);
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('metrics-import')
+    .download(file.path);
+
+  if (downloadError || !fileData) {
+    console.error('Error downloading file:', downloadError);
+    return jsonResponse({ error: 'Failed to download file', details: downloadError }, 500);
+  }
+
+  await updateFileStatus(fileId, 'processing', { error: null });
+
+  const { rawData } = await readSpreadsheet(fileData);
+
+  return await processImportChunks(
+    fileId,
+    file.path,
+    rawData,
+    retriedChunks.map(chunk => ({
+      index: chunk.chunk_index,
+      sheet: chunk.sheet,
+      startRow: chunk.start_row,
+      endRow: chunk.end_row,
+    }))
+  );
+}
+
+/**
+ * Worker entry point: run the next due import job. A job can take a few minutes, so each call
+ * runs a single one to stay within the time limit of edge functions, and wakes the worker up
+ * again for the following jobs.
+ */
+async function runImportWorker() {
+  const workerId = crypto.randomUUID();
+
+  const { data: jobs, error } = await supabase.rpc('claim_import_jobs', { p_worker: workerId });
+  if (error) {
+    console.error('Error claiming import jobs:', error);
+    throw new Error(`Error claiming import jobs: ${error.message}`);
+  }
+
+  const job = (jobs as ImportJob[])[0];
+  if (!job) {
+    return jsonResponse({ success: true, jobs: [] });
+  }
+
+  console.log(`Running import job ${job.id} (${job.kind}, attempt ${job.attempts})`);
+  const jobError = await runImportJob(job);
+
+  // Without attempts left, the job also puts its file in error
+  const { error: completeError } = await supabase.rpc('complete_import_job', {
+    p_job_id: job.id,
+    p_error: jobError,
+  });
+  if (completeError) {
+    console.error('Error completing import job:', completeError);
+  }
+
+  const { error: wakeError } = await supabase.rpc('wake_import_worker');
+  if (wakeError) {
+    console.error('Error waking the import worker up:', wakeError);
+  }
+
+  return jsonResponse({
+    success: true,
+    jobs: [{ jobId: job.id, fileId: job.file_id, error: jobError }],
+  });
+}
+
+// Run a claimed job, returning its error if any
+async function runImportJob(job: ImportJob): Promise<string | null> {
+  try {
+    const file = await getFile(job.file_id);
+
+    // A process job that already extracted some chunks only retries the failed ones
+    const response =
+      job.kind === 'retry_chunks' || (job.attempts > 1 && (await hasUnfinishedChunks(file.id)))
+        ? await retryImportChunks({ fileId: file.id, chunkIndex: job.payload.chunkIndex })
+        : await processFile({ fileId: file.id, filePath: file.path, fileName: file.filename });
+
+    if (response.ok) return null;
+
+    const body = await response.json();
+    return body.error ?? `Processing failed with status ${response.status}`;
+  } catch (error) {
+    console.error(`Error running import job ${job.id}:`, error);
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Nothing is written to metrics/metric_data until the import has been reviewed
+ */
+async function stageImport(
+  fileId: string,
+  filePath: string,
+  processedData: ProcessedOutput,
+  issues: ImportIssue[],
+  metadata: { import_path: ImportPath } & Record<string, unknown>
+) {
+  await savePendingImport(fileId, processedData, issues);
+
+  await updateFileStatus(fileId, 'awaiting_review', {
+    ...metadata,
+    metrics_count: processedData.metrics.length,
+    data_points_count: countDataPoints(processedData.metrics),
+    rejects: await saveImportReport(filePath, issues),
+  });
+}
+
+/**
+ * Commit the reviewed version of a pending import to the database
+ */
+async function commitImport(req: Request, body: { fileId?: string; metrics?: unknown }) {
+  const { fileId } = body;
+
+  if (!fileId) {
+    return jsonResponse({ error: 'File ID is required' }, 400);
+  }
+
+  const pendingImport = await getPendingImport(fileId);
+  if (!pendingImport || pendingImport.status !== 'pending') {
+    return jsonResponse({ error: 'No pending import found for this file' }, 409);
   }
-});
+
+  const parsed = processedOutputSchema.safeParse({ metrics: body.metrics });
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid reviewed data', details: parsed.error.issues }, 400);
+  }
+
+  const { regions, resolveRegion } = await getRegionResolver();
+  const reviewedData = resolveRegionCodes(parsed.data, resolveRegion);
+  const regionCodeToId = getRegionCodeToId(regions);
+
+  // The rows written by the import carry the commit time, so that undo_import only counts
+  // the rows changed after it as edited
+  const committedAt = new Date().toISOString();
+
+  // Only one of concurrent commits gets the import, the others write nothing
+  const committed = await updatePendingImport(
+    fileId,
+    'committed',
+    await getRequestUserId(req),
+    reviewedData,
+    committedAt
+  );
+  if (!committed) {
+    return jsonResponse({ error: 'No pending import found for this file' }, 409);
+  }
+
+  // Save metrics and data to database
+  const commitIssues: ImportIssue[] = [];
+  const { output: savedData, errors } = await saveMetricsToDatabase(
+    reviewedData.metrics,
+    regionCodeToId,
+    fileId,
+    commitIssues,
+    committedAt
+  );
+
+  const file = await getFile(fileId);
+  const issues = [...((pendingImport.issues as ImportIssue[] | null) ?? []), ...commitIssues];
+  const summary = {
+    metrics_count: savedData.metrics.length,
+    data_points_count: countDataPoints(savedData.metrics),
+    rejects: await saveImportReport(file.path, issues),
+  };
+
+  // What was written stays committed, so that it can be undone, but the file is left in error
+  if (errors.length > 0) {
+    const message = `${errors.length} of ${reviewedData.metrics.length} metrics were not fully saved`;
+    await updateFileStatus(fileId, 'error', {
+      ...summary,
+      error: message,
+      error_message: message,
+      commit_errors: errors,
+    });
+
+    return jsonResponse({ error: message, errors, data: savedData }, 500);
+  }
+
+  await updateFileStatus(fileId, 'completed', summary);
+
+  return jsonResponse({ success: true, data: savedData });
+}
+
+/**
+ * Discard a pending import without writing anything to the database
+ */
+async function rejectImport(req: Request, body: { fileId?: string }) {
+  const { fileId } = body;
+
+  if (!fileId) {
+    return jsonResponse({ error: 'File ID is required' }, 400);
+  }
+
+  const pendingImport = await getPendingImport(fileId);
+  if (!pendingImport || pendingImport.status !== 'pending') {
+    return jsonResponse({ error: 'No pending import found for this file' }, 409);
+  }
+
+  if (!(await updatePendingImport(fileId, 'rejected', await getRequestUserId(req)))) {
+    return jsonResponse({ error: 'No pending import found for this file' }, 409);
+  }
+  await updateFileStatus(fileId, 'rejected');
+
+  return jsonResponse({ success: true });
+}
+
+/**
+ * Tell, for each reviewed metric, whether it will create a new metric or be merged into an existing one
+ */
+async function matchImport(body: { metrics?: unknown }) {
+  const parsed = processedOutputSchema.safeParse({ metrics: body.metrics });
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid metrics', details: parsed.error.issues }, 400);
+  }
+
+  const [existingMetrics, { regions, resolveRegion }] = await Promise.all([
+    getExistingMetrics(),
+    getRegionResolver(),
+  ]);
+  const regionCodeToId = getRegionCodeToId(regions);
+
+  const matches: MetricMatch[] = [];
+  for (const metric of resolveRegionCodes(parsed.data, resolveRegion).metrics) {
+    const existing = findMatchingMetric(metric, existingMetrics);
+    const existingValues = new Map<string, number>();
+    if (existing) {
+      const existingRows = await getExistingRows(existing.id, metric);
+      existingRows.forEach(row => existingValues.set(`${row.region_id}|${row.date}`, row.value));
+    }
+
+    matches.push(buildMetricMatch(metric, existing, existingValues, regionCodeToId));
+  }
+
+  return jsonResponse({ matches });
+}
 
 async function getRegions(): Promise<Region[]> {
   const { data, error } = await supabase.from('regions').select('*');
@@ -132,207 +500,360 @@ async function getRegions(): Promise<Region[]> {
   return data;
 }
 
-/**
- * Process spreadsheet data using OpenAI API and save metrics to database
- */
-async function processSpreadsheetData(
-  rawData: Record<string, Array<Record<string, unknown>>>,
-  regions: Region[],
-  fileId: string
-): Promise<ProcessedOutput> {
-  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openAIApiKey) {
-    throw new Error('OPENAI_API_KEY is required');
-  }
-
-  const model = new ChatOpenAI({
-    openAIApiKey,
-    temperature: 0,
-    modelName: 'gpt-4.1-mini',
+async function getRegionAliases(): Promise<RegionAlias[]> {
+  const { data, error } = await supabase.from('region_aliases').select('region_id, alias');
+  if (error) {
+    console.error('Error fetching region aliases:', error);
+    throw new Error(`Error fetching region aliases: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function getRegionResolver() {
+  const [regions, aliases] = await Promise.all([getRegions(), getRegionAliases()]);
+  return { regions, aliases, resolveRegion: createRegionResolver(regions, aliases) };
+}
+
+// Labels left by the model or the reviewer may match a region name or an alias created since,
+// approximate matches are kept on the points for the reviewer to confirm
+function resolveRegionCodes(data: ProcessedOutput, resolveRegion: RegionResolver): ProcessedOutput {
+  return {
+    metrics: data.metrics.map(metric => ({
+      ...metric,
+      data: metric.data.map(dp => {
+        const resolved = resolveRegion(dp.region);
+        if (!resolved) return dp;
+
+        return {
+          ...dp,
+          region: resolved.code,
+          ...(resolved.match ? { regionMatch: resolved.match } : {}),
+        };
+      }),
+    })),
+  };
+}
+
+async function readSpreadsheet(fileData: Blob) {
+  const arrayBuffer = await fileData.arrayBuffer();
+  // Date cells are read as dates, so that daily periods can be recognized
+  const workbook = XLSX.read(arrayBuffer, { type: 'array', cellDates: true });
+
+  // Convert each sheet of the workbook to JSON
+  const rawData: RawSpreadsheetData = {};
+  workbook.SheetNames.forEach((sheetName: string) => {
+    const worksheet = workbook.Sheets[sheetName];
+    rawData[sheetName] = XLSX.utils.sheet_to_json(worksheet) as Record<string, unknown>[];
   });
 
-  try {
-    // Create a prompt with clear instructions
-    const systemPrompt = {
-      role: 'system',
-      content: `Tu es un expert en analyse de données. Ton rôle est de transformer les données d'un fichier Excel en données structurées pour une base de données.
-
-Pour chaque feuille du fichier Excel, identifie les métriques suivantes:
-- Le nom de la métrique (cherche dans les en-têtes ou les premières lignes)
-- L'unité de la métrique (comme %, €, nombre, etc.)
-- Les données associées à chaque métrique avec:
-  * La région (utilise uniquement les codes de région fournis)
-  * L'année (convertie en nombre entier)
-  * La valeur numérique (convertie en nombre)
-
-IMPORTANT:
-- Une feuille peut contenir plusieurs métriques différentes
-- Assure-toi que les codes de région correspondent exactement à ceux fournis
-- Convertis les années en nombres entiers (2022 et non "2022")
-- Convertis les valeurs en nombres (pas de chaînes de caractères)
-
-Voici la liste des codes de région disponibles:
-${JSON.stringify(regions.map(r => ({ code: r.code, name: r.name })))}
-
-Ta réponse doit être un JSON valide avec exactement cette structure:
-{
-  "metrics": [
-    {
-      "name": "Nom de la métrique",
-      "unit": "Unité de mesure",
-      "data": [
-        {
-          "region": "CODE_REGION",
-          "year": 2023,
-          "value": 42.5
-        },
-        // Plus de données
-      ]
-    },
-    // Plus de métriques
-  ]
+  return { rawData, getCellRef: createCellRefResolver(workbook) };
+}
+
+function getChunkRows() {
+  return Number(Deno.env.get('EXTRACTION_CHUNK_ROWS')) || DEFAULT_CHUNK_ROWS;
 }
 
-Ne retourne rien d'autre que ce JSON.`,
-    };
+// The chunks of a previous run are replaced, their results no longer match the file split
+async function resetImportChunks(fileId: string, chunks: SpreadsheetChunk[]) {
+  const { error: deleteError } = await supabase
+    .from('import_chunks')
+    .delete()
+    .eq('file_id', fileId);
+  if (deleteError) {
+    console.error('Error deleting import chunks:', deleteError);
+    throw new Error(`Error deleting import chunks: ${deleteError.message}`);
+  }
 
-    const userPrompt = {
-      role: 'user',
-      content: `Voici les données brutes du fichier Excel par feuille:\n${JSON.stringify(rawData, null, 2)}`,
-    };
+  if (chunks.length === 0) return;
 
-    // Call the API
-    const response = await model.invoke([systemPrompt, userPrompt]);
+  const { error } = await supabase.from('import_chunks').insert(
+    chunks.map(chunk => ({
+      file_id: fileId,
+      chunk_index: chunk.index,
+      sheet: chunk.sheet,
+      start_row: chunk.startRow,
+      end_row: chunk.endRow,
+    }))
+  );
+  if (error) {
+    console.error('Error saving import chunks:', error);
+    throw new Error(`Error saving import chunks: ${error.message}`);
+  }
+}
 
-    // Extract and parse the JSON from the response
-    let responseText = '';
-    if (typeof response.content === 'string') {
-      responseText = response.content;
-    } else if (Array.isArray(response.content)) {
-      responseText = response.content.map(part => (typeof part === 'string' ? part : '')).join('');
-    }
+async function getImportChunks(fileId: string) {
+  const { data, error } = await supabase
+    .from('import_chunks')
+    .select('*')
+    .eq('file_id', fileId)
+    .order('chunk_index');
 
-    // Extract JSON from the response (in case there's any extra text)
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('No valid JSON found in response');
-      return { metrics: [] };
-    }
+  if (error) {
+    console.error('Error fetching import chunks:', error);
+    throw new Error(`Error fetching import chunks: ${error.message}`);
+  }
 
-    const jsonResponse = JSON.parse(jsonMatch[0]) as ProcessedOutput;
-
-    // Validate the response with Zod schema
-    const schema = z.object({
-      metrics: z.array(
-        z.object({
-          name: z.string(),
-          unit: z.string(),
-          data: z.array(
-            z.object({
-              region: z.string(),
-              year: z.number().int(),
-              value: z.number(),
-            })
-          ),
-        })
-      ),
-    });
+  return data;
+}
 
-    let validatedData: ProcessedOutput;
+async function updateImportChunk(
+  fileId: string,
+  chunkIndex: number,
+  changes: {
+    status: 'processing' | 'completed' | 'error';
+    result?: ProcessedOutput;
+    issues?: ImportIssue[];
+    error?: string | null;
+  }
+) {
+  const { data: chunk } = await supabase
+    .from('import_chunks')
+    .select('attempts')
+    .eq('file_id', fileId)
+    .eq('chunk_index', chunkIndex)
+    .maybeSingle();
 
-    // Validate and handle any validation errors
-    try {
-      schema.parse(jsonResponse);
-      console.log(`Successfully processed ${jsonResponse.metrics.length} metrics`);
-      validatedData = jsonResponse;
-    } catch (validationError) {
-      console.error('Validation error:', validationError);
-      // If validation fails, try to recover what we can
-      validatedData = {
-        metrics: (jsonResponse.metrics || []).map(metric => ({
-          name: String(metric.name || 'Unknown metric'),
-          unit: String(metric.unit || 'Unknown unit'),
-          data: Array.isArray(metric.data)
-            ? metric.data
-                .filter(dp => dp && typeof dp === 'object')
-                .map(dp => ({
-                  region: String(dp.region || ''),
-                  year:
-                    typeof dp.year === 'number'
-                      ? Math.floor(dp.year)
-                      : typeof dp.year === 'string'
-                        ? parseInt(dp.year, 10) || 0
-                        : 0,
-                  value:
-                    typeof dp.value === 'number'
-                      ? dp.value
-                      : typeof dp.value === 'string'
-                        ? parseFloat(dp.value) || 0
-                        : 0,
-                }))
-                .filter(dp => dp.region && dp.year > 0)
-            : [],
-        })),
-      };
+  const { error } = await supabase
+    .from('import_chunks')
+    .update({
+      ...changes,
+      attempts: (chunk?.attempts ?? 0) + (changes.status === 'processing' ? 1 : 0),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('file_id', fileId)
+    .eq('chunk_index', chunkIndex);
+
+  if (error) {
+    console.error('Error updating import chunk:', error);
+  }
+}
+
+async function hasUnfinishedChunks(fileId: string) {
+  const importChunks = await getImportChunks(fileId);
+  return importChunks.some(chunk => chunk.status !== 'completed');
+}
+
+// Progress written to files.metadata, polled by the import page
+function summarizeImportChunks(
+  chunks: Array<{
+    chunk_index: number;
+    sheet: string;
+    start_row: number;
+    end_row: number;
+    status: string;
+    error: string | null;
+  }>
+) {
+  return {
+    total: chunks.length,
+    completed: chunks.filter(chunk => chunk.status === 'completed').length,
+    failed: chunks.filter(chunk => chunk.status === 'error').length,
+    items: chunks.map(chunk => ({
+      index: chunk.chunk_index,
+      sheet: chunk.sheet,
+      start_row: chunk.start_row,
+      end_row: chunk.end_row,
+      status: chunk.status,
+      error: chunk.error,
+    })),
+  };
+}
+
+function getRegionCodeToId(regions: Region[]) {
+  const regionCodeToId: Record<string, string> = {};
+  regions.forEach(region => {
+    regionCodeToId[region.code] = region.id;
+  });
+  return regionCodeToId;
+}
+
+async function getExistingMetrics(): Promise<ExistingMetric[]> {
+  const { data, error } = await supabase
+    .from('metrics')
+    .select('id, name, unit, frequency, metadata')
+    // Imports never feed a metric in the trash, a new one is created instead
+    .is('deleted_at', null);
+  if (error) {
+    console.error('Error fetching metrics:', error);
+    throw new Error(`Error fetching metrics: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Existing data points of a metric for the imported periods. They are read page by page, the
+// API returns at most max_rows (supabase/config.toml) rows per request and a missed row would
+// be taken for one created by the import when it is undone.
+async function getExistingRows(metricId: string, metric: Metric) {
+  const dates = [...new Set(metric.data.map(dp => getPeriodDate(dp)))];
+  if (dates.length === 0) return [];
+
+  const rows = [];
+  for (let from = 0; ; from += EXISTING_ROWS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('metric_data')
+      .select('id, region_id, date, value, status, metadata')
+      .eq('metric_id', metricId)
+      .in('date', dates)
+      .order('id')
+      .range(from, from + EXISTING_ROWS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching existing metric data:', error);
+      throw new Error(`Error fetching existing metric data: ${error.message}`);
     }
 
-    // Region code to ID mapping
-    const regionCodeToId: Record<string, string> = {};
-    regions.forEach(region => {
-      regionCodeToId[region.code] = region.id;
-    });
+    rows.push(...data);
+    if (data.length < EXISTING_ROWS_PAGE_SIZE) return rows;
+  }
+}
 
-    // Save metrics and data to database
-    const createdMetrics = await saveMetricsToDatabase(
-      validatedData.metrics,
-      regionCodeToId,
-      fileId
-    );
+// Keep the values about to be overwritten so the import can be undone
+async function saveImportChanges(
+  fileId: string,
+  rows: Awaited<ReturnType<typeof getExistingRows>>
+) {
+  if (rows.length === 0) return;
 
-    return createdMetrics;
-  } catch (error) {
-    console.error('Error processing data:', error);
-    return { metrics: [] };
+  const { error } = await supabase.from('import_changes').upsert(
+    rows.map(row => ({
+      file_id: fileId,
+      metric_data_id: row.id,
+      previous_value: row.value,
+      previous_status: row.status,
+      previous_metadata: row.metadata,
+    })),
+    { onConflict: 'file_id,metric_data_id', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error('Error saving import changes:', error);
+    throw new Error(`Error saving import changes: ${error.message}`);
   }
 }
 
 /**
- * Save metrics and data points to database
+ * Save metrics and data points to database, merging into existing metrics when they match.
+ * Metrics that fail to save are returned in errors and reported as save_failed issues.
  */
 async function saveMetricsToDatabase(
   metrics: Metric[],
   regionCodeToId: Record<string, string>,
-  fileId: string
-): Promise<ProcessedOutput> {
+  fileId: string,
+  issues: ImportIssue[],
+  now: string
+): Promise<{ output: ProcessedOutput; errors: string[] }> {
   const savedMetrics: Metric[] = [];
-  const now = new Date().toISOString();
+  const errors: string[] = [];
+  const reportFailure = (metric: Metric, message: string) => {
+    errors.push(`${metric.name}: ${message}`);
+    issues.push({
+      severity: 'rejected',
+      reason: 'save_failed',
+      sheet: null,
+      cell: null,
+      metric: metric.name,
+      region: null,
+      year: null,
+      value: message,
+    });
+  };
+  const existingMetrics = await getExistingMetrics();
+  const fileTagIds = await getFileTagIds(fileId);
+  // Metrics created by the import are attributed to the source of the file
+  const { source_id: sourceId } = await getFile(fileId);
 
   // For each metric in the processed data
   for (const metric of metrics) {
     try {
-      // 1. Create metric record
-      const { data: metricData, error: metricError } = await supabase
-        .from('metrics')
-        .insert({
-          name: metric.name,
-          unit: metric.unit,
-          created_at: now,
-          updated_at: now,
-          metadata: { source_file_id: fileId },
-        })
-        .select()
-        .single();
-
-      if (metricError || !metricData) {
-        console.error('Error creating metric:', metricError);
-        continue;
+      const importKey = buildImportKey(metric.name, metric.unit);
+      const existing = findMatchingMetric(metric, existingMetrics);
+      let metricId: string;
+
+      if (existing) {
+        metricId = existing.id;
+        console.log(`Merging into existing metric: ${existing.name} (ID: ${metricId})`);
+
+        // Remember the import key so the metric keeps matching once renamed
+        if (!getImportKey(existing.metadata)) {
+          await supabase
+            .from('metrics')
+            .update({
+              metadata: {
+                ...((existing.metadata as Record<string, unknown>) ?? {}),
+                import_key: importKey,
+              },
+              updated_at: now,
+            })
+            .eq('id', metricId);
+        }
+
+        // A metric gets finer when monthly values are imported into a yearly series, never coarser
+        const frequency = getFinestFrequency([existing.frequency, getMetricFrequency(metric.data)]);
+        if (frequency !== existing.frequency) {
+          await supabase.from('metrics').update({ frequency, updated_at: now }).eq('id', metricId);
+          existing.frequency = frequency;
+        }
+      } else {
+        // 1. Create metric record
+        const { data: metricData, error: metricError } = await supabase
+          .from('metrics')
+          .insert({
+            name: metric.name,
+            unit: metric.unit,
+            created_at: now,
+            updated_at: now,
+            frequency: getMetricFrequency(metric.data),
+            source_id: sourceId,
+            metadata: { source_file_id: fileId, import_key: importKey },
+          })
+          .select()
+          .single();
+
+        if (metricError || !metricData) {
+          console.error('Error creating metric:', metricError);
+          reportFailure(metric, metricError?.message ?? 'Metric not created');
+          continue;
+        }
+
+        metricId = metricData.id;
+        existingMetrics.push(metricData);
+        console.log(`Created metric: ${metric.name} (ID: ${metricId})`);
       }
 
-      const metricId = metricData.id;
-      console.log(`Created metric: ${metric.name} (ID: ${metricId})`);
+      // The tags of the file are added to the metrics it feeds, existing tags are kept
+      if (fileTagIds.length > 0) {
+        const { error: tagsError } = await supabase.from('metric_tags').upsert(
+          fileTagIds.map(tagId => ({ metric_id: metricId, tag_id: tagId })),
+          { ignoreDuplicates: true }
+        );
+        if (tagsError) {
+          console.error('Error tagging metric:', tagsError);
+          reportFailure(metric, tagsError.message);
+        }
+      }
 
-      // 2. Create metric data points
-      const dataPoints = metric.data.filter(dp => dp.region && regionCodeToId[dp.region]);
+      // 2. Create or update metric data points, the last value wins for a duplicated region/period
+      const dataPointsByKey = new Map<string, MetricDataPoint>();
+      metric.data.forEach(dp => {
+        if (dp.region && regionCodeToId[dp.region]) {
+          dataPointsByKey.set(`${dp.region}|${getPeriodDate(dp)}`, dp);
+          return;
+        }
+
+        issues.push({
+          severity: 'rejected',
+          reason: 'unknown_region',
+          sheet: null,
+          cell: null,
+          metric: metric.name,
+          region: dp.region || null,
+          year: dp.year,
+          value: String(dp.value),
+        });
+      });
+      const dataPoints = [...dataPointsByKey.values()];
 
       if (dataPoints.length === 0) {
         console.log(`No valid data points found for metric: ${metric.name}`);
@@ -340,30 +861,47 @@ async function saveMetricsToDatabase(
         continue;
       }
 
-      const metricDataInserts = dataPoints.map(dp => ({
+      // Overwritten points keep their status, so merging an import doesn't unpublish them
+      const existingStatuses = new Map<string, string>();
+      if (existing) {
+        const upsertedKeys = new Set(
+          dataPoints.map(dp => `${regionCodeToId[dp.region]}|${getPeriodDate(dp)}`)
+        );
+        const overwrittenRows = (
+          await getExistingRows(metricId, { ...metric, data: dataPoints })
+        ).filter(row => upsertedKeys.has(`${row.region_id}|${row.date}`));
+        await saveImportChanges(fileId, overwrittenRows);
+        overwrittenRows.forEach(row =>
+          existingStatuses.set(`${row.region_id}|${row.date}`, row.status)
+        );
+      }
+
+      const metricDataUpserts = dataPoints.map(dp => ({
         metric_id: metricId,
         region_id: regionCodeToId[dp.region],
-        date: new Date(dp.year, 0, 1).toISOString().split('T')[0], // Convert year to date format (YYYY-01-01)
+        date: getPeriodDate(dp),
         value: dp.value,
-        status: 'draft',
-        created_at: now,
+        status:
+          existingStatuses.get(`${regionCodeToId[dp.region]}|${getPeriodDate(dp)}`) ?? 'draft',
         updated_at: now,
         metadata: {
           source_file_id: fileId,
           original_year: dp.year,
+          ...(dp.period ? { original_period: dp.period } : {}),
         },
       }));
 
-      const { data: insertedDataPoints, error: dataPointsError } = await supabase
+      const { data: upsertedDataPoints, error: dataPointsError } = await supabase
         .from('metric_data')
-        .insert(metricDataInserts)
+        .upsert(metricDataUpserts, { onConflict: 'metric_id,region_id,date' })
         .select();
 
       if (dataPointsError) {
-        console.error('Error inserting data points:', dataPointsError);
-      } else {
-        console.log(`Inserted ${insertedDataPoints.length} data points for metric: ${metric.name}`);
+        console.error('Error upserting data points:', dataPointsError);
+        reportFailure(metric, dataPointsError.message);
+        continue;
       }
+      console.log(`Upserted ${upsertedDataPoints.length} data points for metric: ${metric.name}`);
 
       // Add to saved metrics with actual saved data
       savedMetrics.push({
@@ -372,23 +910,217 @@ async function saveMetricsToDatabase(
       });
     } catch (error) {
       console.error(`Error saving metric ${metric.name}:`, error);
+      reportFailure(metric, error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
-  return { metrics: savedMetrics };
+  return { output: { metrics: savedMetrics }, errors };
+}
+
+async function getFileTagIds(fileId: string): Promise<string[]> {
+  const { data, error } = await supabase.from('file_tags').select('tag_id').eq('file_id', fileId);
+  if (error) {
+    console.error('Error fetching file tags:', error);
+    throw new Error(`Error fetching file tags: ${error.message}`);
+  }
+
+  return data.map(row => row.tag_id);
+}
+
+async function getPendingImport(fileId: string) {
+  const { data, error } = await supabase
+    .from('pending_imports')
+    .select('*')
+    .eq('file_id', fileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pending import:', error);
+    throw new Error(`Error fetching pending import: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Stage extracted data, replacing any previous extraction of the same file
+async function savePendingImport(fileId: string, data: ProcessedOutput, issues: ImportIssue[]) {
+  const { error } = await supabase.from('pending_imports').upsert(
+    {
+      file_id: fileId,
+      status: 'pending',
+      data,
+      issues,
+      reviewed_data: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'file_id' }
+  );
+
+  if (error) {
+    console.error('Error saving pending import:', error);
+    throw new Error(`Error saving pending import: ${error.message}`);
+  }
+}
+
+// Review a pending import, returning false when it isn't pending anymore (already committed or
+// rejected by a concurrent request)
+async function updatePendingImport(
+  fileId: string,
+  status: 'committed' | 'rejected',
+  reviewedBy: string | null,
+  reviewedData: ProcessedOutput | null = null,
+  now = new Date().toISOString()
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('pending_imports')
+    .update({
+      status,
+      reviewed_data: reviewedData,
+      reviewed_by: reviewedBy,
+      reviewed_at: now,
+      updated_at: now,
+    })
+    .eq('file_id', fileId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    console.error('Error updating pending import:', error);
+    throw new Error(`Error updating pending import: ${error.message}`);
+  }
+
+  return data.length > 0;
+}
+
+async function getFile(fileId: string) {
+  const { data, error } = await supabase.from('files').select('*').eq('id', fileId).single();
+  if (error) {
+    console.error('Error fetching file:', error);
+    throw new Error(`Error fetching file: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Rejected and coerced values are reported in CSV and XLSX files stored next to the uploaded file
+async function saveImportReport(
+  filePath: string,
+  issues: ImportIssue[]
+): Promise<ImportReportSummary | null> {
+  if (issues.length === 0) return null;
+
+  const { csv, xlsx } = buildReportFiles(issues);
+  const csvPath = `${filePath}.rejects.csv`;
+  const xlsxPath = `${filePath}.rejects.xlsx`;
+
+  const uploads = await Promise.all([
+    supabase.storage
+      .from('metrics-import')
+      .upload(csvPath, new Blob([csv], { type: 'text/csv' }), { upsert: true }),
+    supabase.storage.from('metrics-import').upload(
+      xlsxPath,
+      new Blob([xlsx], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      }),
+      { upsert: true }
+    ),
+  ]);
+
+  uploads.forEach(({ error }) => {
+    if (error) console.error('Error uploading import report:', error);
+  });
+
+  return { ...countIssues(issues), csv_path: csvPath, xlsx_path: xlsxPath };
+}
+
+// Cell references use the header row of each sheet and the row numbers kept by sheet_to_json
+function createCellRefResolver(workbook: XLSX.WorkBook): CellRefResolver {
+  const columnsBySheet: Record<string, Record<string, string>> = {};
+
+  workbook.SheetNames.forEach((sheetName: string) => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet['!ref']) return;
+
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const columns: Record<string, string> = {};
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+      if (cell) columns[XLSX.utils.format_cell(cell)] = XLSX.utils.encode_col(c);
+    }
+    columnsBySheet[sheetName] = columns;
+  });
+
+  return (sheetName, row, column) => {
+    const columnRef = columnsBySheet[sheetName]?.[column];
+    const rowNum = (row as { __rowNum__?: number }).__rowNum__;
+    if (!columnRef || rowNum === undefined) return null;
+
+    return `${columnRef}${rowNum + 1}`;
+  };
+}
+
+// Resolve the user behind the request's bearer token, if any
+async function getRequestUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data } = await supabase.auth.getUser(token);
+  return data.user?.id ?? null;
+}
+
+// Calls made by the database (app.functions_bearer_token is the service role key)
+function isServiceRequest(req: Request) {
+  return req.headers.get('Authorization') === `Bearer ${supabaseServiceRoleKey}`;
+}
+
+const ROLE_RANKS: Record<AppRole, number> = { viewer: 0, editor: 1, admin: 2 };
+
+// Whether the user behind the request has at least the given role
+async function hasRequestRole(req: Request, role: AppRole): Promise<boolean> {
+  const userId = await getRequestUserId(req);
+  if (!userId) return false;
+
+  const { data: membership } = await supabase
+    .from('memberships')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!membership && ROLE_RANKS[membership.role as AppRole] >= ROLE_RANKS[role];
+}
+
+function countDataPoints(metrics: Metric[]) {
+  return metrics.reduce((acc, metric) => acc + metric.data.length, 0);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
 // Helper function to update file processing status
 async function updateFileStatus(
   fileId: string,
-  processing_status: 'pending' | 'processing' | 'completed' | 'error',
+  processing_status:
+    'pending' | 'processing' | 'awaiting_review' | 'completed' | 'error' | 'rejected',
   metadata: Record<string, unknown> = {}
 ) {
+  // Merge into the existing metadata so upload details and the import path are kept
+  const { data: file } = await supabase
+    .from('files')
+    .select('metadata')
+    .eq('id', fileId)
+    .maybeSingle();
+
   const { error } = await supabase
     .from('files')
     .update({
       processing_status,
-      metadata,
+      metadata: { ...(file?.metadata ?? {}), ...metadata },
     })
     .eq('id', fileId);
 
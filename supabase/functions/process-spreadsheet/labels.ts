@@ -0,0 +1,21 @@
+// Label helpers shared by the parsers and matchers
+
+// "Nouvelle-Calédonie " -> "nouvelle caledonie"
+export function normalizeLabel(label: string) {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Key identifying a metric across imports of successive editions of a workbook
+export function buildImportKey(name: string, unit: string | null) {
+  return `${normalizeLabel(name)}|${normalizeLabel(unit ?? '')}`;
+}
+
+// Imported years are stored as the first day of the year
+export function yearToDate(year: number) {
+  return `${year}-01-01`;
+}
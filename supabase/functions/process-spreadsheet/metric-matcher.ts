@@ -0,0 +1,76 @@
+// Matching of imported metrics against the metrics already in the database.
+// Pure module, the database lookups are done by the caller.
+import { buildImportKey } from './labels.ts';
+import { getPeriodDate } from './periods.ts';
+import type { Metric, MetricFrequency } from './types.ts';
+
+export interface ExistingMetric {
+  id: string;
+  name: string;
+  unit: string | null;
+  frequency: MetricFrequency;
+  metadata: unknown;
+}
+
+export type MetricMatchStatus = 'new' | 'merged' | 'conflicting';
+
+export interface MetricMatch {
+  status: MetricMatchStatus;
+  metricId: string | null;
+  metricName: string | null;
+  // Number of imported values that would overwrite a different existing value
+  conflicts: number;
+}
+
+/**
+ * Find the existing metric an imported one should be merged into:
+ * the stored import key wins over the normalized name and unit.
+ */
+export function findMatchingMetric(
+  metric: Pick<Metric, 'name' | 'unit'>,
+  existingMetrics: ExistingMetric[]
+): ExistingMetric | undefined {
+  const importKey = buildImportKey(metric.name, metric.unit);
+
+  return (
+    existingMetrics.find(existing => getImportKey(existing.metadata) === importKey) ??
+    existingMetrics.find(existing => buildImportKey(existing.name, existing.unit) === importKey)
+  );
+}
+
+/**
+ * Compare the imported data points with the existing values of the matched metric,
+ * indexed by `${region_id}|${date}`
+ */
+export function buildMetricMatch(
+  metric: Metric,
+  existing: ExistingMetric | undefined,
+  existingValues: Map<string, number>,
+  regionCodeToId: Record<string, string>
+): MetricMatch {
+  if (!existing) {
+    return { status: 'new', metricId: null, metricName: null, conflicts: 0 };
+  }
+
+  const conflicts = metric.data.filter(dp => {
+    const regionId = regionCodeToId[dp.region];
+    if (!regionId) return false;
+
+    const existingValue = existingValues.get(`${regionId}|${getPeriodDate(dp)}`);
+    return existingValue !== undefined && existingValue !== dp.value;
+  }).length;
+
+  return {
+    status: conflicts > 0 ? 'conflicting' : 'merged',
+    metricId: existing.id,
+    metricName: existing.name,
+    conflicts,
+  };
+}
+
+export function getImportKey(metadata: unknown): string | null {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+
+  const importKey = (metadata as Record<string, unknown>).import_key;
+  return typeof importKey === 'string' ? importKey : null;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getFinestFrequency,
+  getMetricFrequency,
+  getPeriodDate,
+  normalizePointPeriod,
+  parsePeriod,
+} from './periods.ts';
+
+describe('parsePeriod', () => {
+  it('parses years', () => {
+    expect(parsePeriod('2023')).toEqual({ year: 2023, period: null, frequency: 'annual' });
+    expect(parsePeriod(2023)).toEqual({ year: 2023, period: null, frequency: 'annual' });
+  });
+
+  it.each(['2023-Q2', '2023 T2', 'Q2 2023', 'T2-2023', '2e trimestre 2023', '2nd quarter 2023'])(
+    'parses the quarter %s',
+    label => {
+      expect(parsePeriod(label)).toEqual({ year: 2023, period: '2023-Q2', frequency: 'quarterly' });
+    }
+  );
+
+  it.each(['2023-05', '2023/05', '05/2023', '5-2023', 'mai 2023', 'May 2023', 'mai. 2023'])(
+    'parses the month %s',
+    label => {
+      expect(parsePeriod(label)).toEqual({ year: 2023, period: '2023-05', frequency: 'monthly' });
+    }
+  );
+
+  it('parses abbreviated month names', () => {
+    expect(parsePeriod('janv. 2023')?.period).toBe('2023-01');
+    expect(parsePeriod('Février 2023')?.period).toBe('2023-02');
+  });
+
+  it('parses days, day first in slashed dates', () => {
+    expect(parsePeriod('2023-05-14')).toEqual({
+      year: 2023,
+      period: '2023-05-14',
+      frequency: 'daily',
+    });
+    expect(parsePeriod('14/05/2023')?.period).toBe('2023-05-14');
+    expect(parsePeriod(new Date(2023, 4, 14))?.period).toBe('2023-05-14');
+  });
+
+  it.each(['', 'foo', '1850', '2023-13', '31/02/2023', '2023-Q5', 'mois 2023'])(
+    'rejects %s',
+    label => {
+      expect(parsePeriod(label)).toBeNull();
+    }
+  );
+
+  it('rejects empty and invalid values', () => {
+    expect(parsePeriod(null)).toBeNull();
+    expect(parsePeriod(undefined)).toBeNull();
+    expect(parsePeriod(new Date(Number.NaN))).toBeNull();
+  });
+});
+
+describe('getPeriodDate', () => {
+  it('stores points at the first day of their period', () => {
+    expect(getPeriodDate({ year: 2023 })).toBe('2023-01-01');
+    expect(getPeriodDate({ year: 2023, period: '2023-Q3' })).toBe('2023-07-01');
+    expect(getPeriodDate({ year: 2023, period: '2023-05' })).toBe('2023-05-01');
+    expect(getPeriodDate({ year: 2023, period: '2023-05-14' })).toBe('2023-05-14');
+  });
+});
+
+describe('normalizePointPeriod', () => {
+  it('rewrites periods in their canonical form', () => {
+    expect(normalizePointPeriod({ region: 'PS', year: 2023, period: 'T2 2023', value: 1 })).toEqual(
+      { region: 'PS', year: 2023, period: '2023-Q2', value: 1 }
+    );
+  });
+
+  it('drops the period of yearly points', () => {
+    expect(normalizePointPeriod({ region: 'PS', year: 2023, period: '2023', value: 1 })).toEqual({
+      region: 'PS',
+      year: 2023,
+      value: 1,
+    });
+  });
+});
+
+describe('frequencies', () => {
+  it('keeps the finest frequency', () => {
+    expect(getFinestFrequency(['annual', 'monthly', 'quarterly'])).toBe('monthly');
+    expect(getFinestFrequency([null, undefined])).toBe('annual');
+    expect(getMetricFrequency([{}, { period: '2023-Q1' }])).toBe('quarterly');
+  });
+});
@@ -0,0 +1,172 @@
+// Parsing of the period labels found in source files ("2023", "2023-Q2", "T2 2023", "05/2023",
+// "mai 2023", "2023-05-14"...).
+import { normalizeLabel, yearToDate } from './labels.ts';
+import type { MetricDataPoint, MetricFrequency } from './types.ts';
+
+export interface ParsedPeriod {
+  year: number;
+  // Canonical label of sub-annual periods ("2023-Q2", "2023-05", "2023-05-14"), null for years
+  period: string | null;
+  frequency: MetricFrequency;
+}
+
+const FREQUENCIES: MetricFrequency[] = ['annual', 'quarterly', 'monthly', 'daily'];
+
+const YEAR = '((?:19|20)\\d{2})';
+const YEAR_PATTERN = new RegExp(`^${YEAR}$`);
+// "2023-Q2", "2023 T2", "2023Q2"
+const YEAR_QUARTER_PATTERN = new RegExp(`^${YEAR}\\s*[-/ ]?\\s*[QT]([1-4])$`, 'i');
+// "Q2 2023", "T2-2023", "2e trimestre 2023"
+const QUARTER_YEAR_PATTERN = new RegExp(`^[QT]([1-4])\\s*[-/ ]?\\s*${YEAR}$`, 'i');
+const ORDINAL_QUARTER_PATTERN = new RegExp(
+  `^([1-4])\\s*(?:er|e|eme|ème|st|nd|rd|th)?\\s+(?:trimestre|quarter)\\s+${YEAR}$`,
+  'i'
+);
+// "2023-05", "2023/05"
+const YEAR_MONTH_PATTERN = new RegExp(`^${YEAR}[-/.](\\d{1,2})$`);
+// "05/2023", "5-2023"
+const MONTH_YEAR_PATTERN = new RegExp(`^(\\d{1,2})[-/.]${YEAR}$`);
+// "2023-05-14"
+const ISO_DATE_PATTERN = new RegExp(`^${YEAR}-(\\d{1,2})-(\\d{1,2})$`);
+// "14/05/2023", day first as in French files
+const DAY_FIRST_DATE_PATTERN = new RegExp(`^(\\d{1,2})[/.](\\d{1,2})[/.]${YEAR}$`);
+
+// Normalized month names and abbreviations, in French and English
+const MONTHS: Record<string, number> = {
+  janvier: 1,
+  january: 1,
+  janv: 1,
+  jan: 1,
+  fevrier: 2,
+  february: 2,
+  fevr: 2,
+  fev: 2,
+  feb: 2,
+  mars: 3,
+  march: 3,
+  mar: 3,
+  avril: 4,
+  april: 4,
+  avr: 4,
+  apr: 4,
+  mai: 5,
+  may: 5,
+  juin: 6,
+  june: 6,
+  jun: 6,
+  juillet: 7,
+  july: 7,
+  juil: 7,
+  jul: 7,
+  aout: 8,
+  august: 8,
+  aug: 8,
+  septembre: 9,
+  september: 9,
+  sept: 9,
+  sep: 9,
+  octobre: 10,
+  october: 10,
+  oct: 10,
+  novembre: 11,
+  november: 11,
+  nov: 11,
+  decembre: 12,
+  december: 12,
+  dec: 12,
+};
+
+export function parsePeriod(value: unknown): ParsedPeriod | null {
+  // Date cells (the workbook is read with cellDates), built by SheetJS in local time
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return day(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return null;
+
+  let match = text.match(YEAR_PATTERN);
+  if (match) return { year: Number(match[1]), period: null, frequency: 'annual' };
+
+  match = text.match(YEAR_QUARTER_PATTERN);
+  if (match) return quarter(Number(match[1]), Number(match[2]));
+
+  match = text.match(QUARTER_YEAR_PATTERN) ?? text.match(ORDINAL_QUARTER_PATTERN);
+  if (match) return quarter(Number(match[2]), Number(match[1]));
+
+  match = text.match(YEAR_MONTH_PATTERN);
+  if (match) return month(Number(match[1]), Number(match[2]));
+
+  match = text.match(MONTH_YEAR_PATTERN);
+  if (match) return month(Number(match[2]), Number(match[1]));
+
+  match = text.match(ISO_DATE_PATTERN);
+  if (match) return day(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(DAY_FIRST_DATE_PATTERN);
+  if (match) return day(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  // "mai 2023", "janv. 2023", "September 2023"
+  const tokens = normalizeLabel(text).split(' ');
+  if (tokens.length === 2 && YEAR_PATTERN.test(tokens[1]) && MONTHS[tokens[0]]) {
+    return month(Number(tokens[1]), MONTHS[tokens[0]]);
+  }
+
+  return null;
+}
+
+// Points are stored at the first day of their period
+export function getPeriodDate(point: Pick<MetricDataPoint, 'year' | 'period'>) {
+  const parsed = point.period ? parsePeriod(point.period) : null;
+  if (!parsed?.period) return yearToDate(point.year);
+
+  const [year, part, dayOfMonth] = parsed.period.split('-');
+  if (part.startsWith('Q')) {
+    return `${year}-${pad((Number(part.slice(1)) - 1) * 3 + 1)}-01`;
+  }
+  return `${year}-${part}-${dayOfMonth ?? '01'}`;
+}
+
+// Rewrite the period of a point in its canonical form, yearly points don't carry a period
+export function normalizePointPeriod(point: MetricDataPoint): MetricDataPoint {
+  const { period, ...rest } = point;
+  const parsed = period ? parsePeriod(period) : null;
+  return parsed?.period ? { ...rest, year: parsed.year, period: parsed.period } : rest;
+}
+
+export function getFinestFrequency(frequencies: Array<MetricFrequency | null | undefined>) {
+  return frequencies.reduce<MetricFrequency>(
+    (finest, frequency) =>
+      frequency && FREQUENCIES.indexOf(frequency) > FREQUENCIES.indexOf(finest)
+        ? frequency
+        : finest,
+    'annual'
+  );
+}
+
+// Finest frequency among the points of a metric
+export function getMetricFrequency(points: Array<Pick<MetricDataPoint, 'period'>>) {
+  return getFinestFrequency(
+    points.map(point => (point.period ? parsePeriod(point.period)?.frequency : 'annual'))
+  );
+}
+
+function quarter(year: number, quarterIndex: number): ParsedPeriod {
+  return { year, period: `${year}-Q${quarterIndex}`, frequency: 'quarterly' };
+}
+
+function month(year: number, monthIndex: number): ParsedPeriod | null {
+  if (monthIndex < 1 || monthIndex > 12) return null;
+  return { year, period: `${year}-${pad(monthIndex)}`, frequency: 'monthly' };
+}
+
+function day(year: number, monthIndex: number, dayOfMonth: number): ParsedPeriod | null {
+  const date = new Date(Date.UTC(year, monthIndex - 1, dayOfMonth));
+  if (date.getUTCMonth() !== monthIndex - 1 || date.getUTCDate() !== dayOfMonth) return null;
+  return { year, period: `${year}-${pad(monthIndex)}-${pad(dayOfMonth)}`, frequency: 'daily' };
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, '0');
+}
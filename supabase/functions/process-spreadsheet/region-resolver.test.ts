@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createRegionResolver } from './region-resolver.ts';
+
+const resolveRegion = createRegionResolver(
+  [
+    { id: '1', code: 'NC', name: 'Nouvelle-Calédonie' },
+    { id: '2', code: 'PS', name: 'Province Sud' },
+    { id: '3', code: 'PN', name: 'Province Nord' },
+    { id: '4', code: 'PIL', name: 'Province des Îles Loyauté' },
+    { id: '5', code: '98818', name: 'Nouméa' },
+  ],
+  [
+    { region_id: '4', alias: 'Îles' },
+    { region_id: '5', alias: 'Noumea' },
+  ]
+);
+
+describe('createRegionResolver', () => {
+  it.each([
+    ['PS', 'PS'],
+    ['ps', 'PS'],
+    ['Province Sud', 'PS'],
+    ['PROVINCE  SUD', 'PS'],
+    ['Nouvelle Caledonie', 'NC'],
+    ['îles', 'PIL'],
+    ['98818', '98818'],
+  ])('resolves %s exactly', (label, code) => {
+    expect(resolveRegion(label)).toEqual({ code });
+  });
+
+  it('reports abbreviations with the share of the name they spell out', () => {
+    expect(resolveRegion('Prov. Sud')).toEqual({
+      code: 'PS',
+      match: { kind: 'abbreviation', label: 'Prov. Sud', score: 0.67 },
+    });
+  });
+
+  it('reports typos with their similarity', () => {
+    expect(resolveRegion('Provnce Nord')).toEqual({
+      code: 'PN',
+      match: { kind: 'fuzzy', label: 'Provnce Nord', score: 0.92 },
+    });
+  });
+
+  it('leaves ambiguous, unknown and numeric labels unresolved', () => {
+    expect(resolveRegion('Prov')).toBeNull();
+    expect(resolveRegion('Province Ouest')).toBeNull();
+    expect(resolveRegion('98819')).toBeNull();
+    expect(resolveRegion('')).toBeNull();
+    expect(resolveRegion(null)).toBeNull();
+  });
+});
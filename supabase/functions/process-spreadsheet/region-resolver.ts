@@ -0,0 +1,151 @@
+// Resolution of the region labels found in source files to region codes.
+// Pure module, regions and aliases are loaded by the caller.
+import { normalizeLabel } from './labels.ts';
+import type { Region, RegionAlias, RegionMatch } from './types.ts';
+
+export interface ResolvedRegion {
+  code: string;
+  // Absent for exact matches of a code, name or alias
+  match?: RegionMatch;
+}
+
+export type RegionResolver = (value: unknown) => ResolvedRegion | null;
+
+// Fuzzy matching is only attempted on labels long enough to be meaningful
+const FUZZY_MIN_LENGTH = 3;
+
+/**
+ * Resolve a label with, in order: exact code, exact alias, normalized name or alias,
+ * then fuzzy match (abbreviations and typos). Ambiguous labels are left unresolved.
+ */
+export function createRegionResolver(
+  regions: Region[],
+  aliases: RegionAlias[] = []
+): RegionResolver {
+  const codeById = new Map(regions.map(region => [region.id, region.code]));
+  const byCode = new Map<string, string>();
+  const byAlias = new Map<string, string>();
+  const byNormalized = new Map<string, string>();
+
+  regions.forEach(region => {
+    byCode.set(region.code.trim().toUpperCase(), region.code);
+    byNormalized.set(normalizeLabel(region.name), region.code);
+  });
+
+  aliases.forEach(alias => {
+    const code = codeById.get(alias.region_id);
+    if (!code) return;
+
+    byAlias.set(alias.alias.trim().toLowerCase(), code);
+    byNormalized.set(normalizeLabel(alias.alias), code);
+  });
+
+  const candidates = [...byNormalized.entries()];
+  const fuzzyCache = new Map<string, FuzzyMatch | null>();
+
+  return (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value).trim();
+    if (!text) return null;
+
+    const exactMatch =
+      byCode.get(text.toUpperCase()) ??
+      byAlias.get(text.toLowerCase()) ??
+      byNormalized.get(normalizeLabel(text));
+    if (exactMatch) return { code: exactMatch };
+
+    const label = normalizeLabel(text);
+    if (!fuzzyCache.has(label)) {
+      fuzzyCache.set(label, findFuzzyMatch(label, candidates));
+    }
+
+    const fuzzyMatch = fuzzyCache.get(label);
+    if (!fuzzyMatch) return null;
+
+    return {
+      code: fuzzyMatch.code,
+      match: { kind: fuzzyMatch.kind, label: text, score: fuzzyMatch.score },
+    };
+  };
+}
+
+interface FuzzyMatch {
+  code: string;
+  kind: RegionMatch['kind'];
+  score: number;
+}
+
+function findFuzzyMatch(label: string, candidates: Array<[string, string]>): FuzzyMatch | null {
+  // Numeric codes can't be guessed, they need an explicit alias
+  if (label.length < FUZZY_MIN_LENGTH || /^[\d ]+$/.test(label)) return null;
+
+  // Abbreviations: "prov sud" -> "province sud"
+  const tokens = label.split(' ');
+  const abbreviationMatches = candidates.filter(([candidate]) => {
+    const candidateTokens = candidate.split(' ');
+    return (
+      candidateTokens.length === tokens.length &&
+      tokens.every((token, i) => candidateTokens[i].startsWith(token))
+    );
+  });
+  const abbreviationCodes = new Set(abbreviationMatches.map(([, code]) => code));
+  if (abbreviationCodes.size === 1) {
+    // Share of the name spelled out by the abbreviation, the closest of the matching labels
+    const candidate = abbreviationMatches
+      .map(([candidate]) => candidate)
+      .reduce((shortest, candidate) => (candidate.length < shortest.length ? candidate : shortest));
+    return {
+      code: abbreviationMatches[0][1],
+      kind: 'abbreviation',
+      score: roundScore(label.length / candidate.length),
+    };
+  }
+  if (abbreviationCodes.size > 1) return null;
+
+  // Typos: closest candidate within a distance relative to its length
+  let best: { code: string; candidate: string; distance: number } | null = null;
+  let isAmbiguous = false;
+
+  for (const [candidate, code] of candidates) {
+    const maxDistance = Math.max(1, Math.floor(candidate.length * 0.2));
+    const distance = levenshtein(label, candidate);
+    if (distance > maxDistance) continue;
+
+    if (!best || distance < best.distance) {
+      best = { code, candidate, distance };
+      isAmbiguous = false;
+    } else if (distance === best.distance && code !== best.code) {
+      isAmbiguous = true;
+    }
+  }
+
+  if (!best || isAmbiguous) return null;
+
+  const { code, candidate, distance } = best;
+  return {
+    code,
+    kind: 'fuzzy',
+    score: roundScore(1 - distance / Math.max(label.length, candidate.length)),
+  };
+}
+
+function roundScore(score: number) {
+  return Math.round(score * 100) / 100;
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import type { RegionResolver } from './region-resolver.ts';
+import { parseNumber, parseTabularData } from './tabular-parser.ts';
+
+const REGIONS: Record<string, string> = {
+  'nouvelle-calédonie': 'NC',
+  'province sud': 'PS',
+  'province nord': 'PN',
+  'province des îles loyauté': 'PIL',
+};
+
+const resolveRegion: RegionResolver = value => {
+  const label = String(value ?? '').trim();
+  if (REGIONS[label.toLowerCase()]) return { code: REGIONS[label.toLowerCase()] };
+
+  // Approximate match, as resolved from an abbreviation
+  return value === 'Prov. Sud'
+    ? { code: 'PS', match: { kind: 'abbreviation', label: 'Prov. Sud', score: 0.67 } }
+    : null;
+};
+
+describe('parseTabularData', () => {
+  it('reads wide sheets, one column per period', () => {
+    const result = parseTabularData(
+      {
+        'Population (habitants)': [
+          { Région: 'Province Sud', '2022': 200000, '2023': '203 450' },
+          { Région: 'Province Nord', '2022': 50000, '2023': 50500 },
+        ],
+      },
+      resolveRegion
+    );
+
+    expect(result?.layouts).toEqual({ 'Population (habitants)': 'wide' });
+    expect(result?.output.metrics).toEqual([
+      {
+        name: 'Population (habitants)',
+        unit: 'habitants',
+        data: [
+          { region: 'PS', year: 2022, value: 200000 },
+          { region: 'PS', year: 2023, value: 203450 },
+          { region: 'PN', year: 2022, value: 50000 },
+          { region: 'PN', year: 2023, value: 50500 },
+        ],
+      },
+    ]);
+    expect(result?.issues).toMatchObject([
+      { severity: 'coerced', reason: 'coerced_value', region: 'PS', year: 2023 },
+    ]);
+  });
+
+  it('reads long sheets, one row per region and period', () => {
+    const result = parseTabularData(
+      {
+        Données: [
+          {
+            Indicateur: 'Chômage',
+            Unité: '%',
+            Région: 'Province Sud',
+            Période: 'T1 2023',
+            Valeur: 9.5,
+          },
+          {
+            Indicateur: 'Chômage',
+            Unité: '%',
+            Région: 'Province Sud',
+            Période: 'T2 2023',
+            Valeur: 9.1,
+          },
+          {
+            Indicateur: 'Chômage',
+            Unité: '%',
+            Région: 'Province Nord',
+            Période: 'T2 2023',
+            Valeur: 14,
+          },
+        ],
+      },
+      resolveRegion
+    );
+
+    expect(result?.layouts).toEqual({ Données: 'long' });
+    expect(result?.output.metrics).toEqual([
+      {
+        name: 'Chômage',
+        unit: '%',
+        data: [
+          { region: 'PS', year: 2023, period: '2023-Q1', value: 9.5 },
+          { region: 'PS', year: 2023, period: '2023-Q2', value: 9.1 },
+          { region: 'PN', year: 2023, period: '2023-Q2', value: 14 },
+        ],
+      },
+    ]);
+    expect(result?.issues).toEqual([]);
+  });
+
+  it('keeps approximate region matches on the points', () => {
+    const result = parseTabularData(
+      {
+        Population: [
+          { Région: 'Prov. Sud', '2023': 203450 },
+          { Région: 'Province Nord', '2023': 50500 },
+        ],
+      },
+      resolveRegion
+    );
+
+    expect(result?.output.metrics[0].data).toEqual([
+      {
+        region: 'PS',
+        year: 2023,
+        value: 203450,
+        regionMatch: { kind: 'abbreviation', label: 'Prov. Sud', score: 0.67 },
+      },
+      { region: 'PN', year: 2023, value: 50500 },
+    ]);
+  });
+
+  it('names the metric after the file when the sheet has a default name', () => {
+    const result = parseTabularData(
+      { Feuil1: [{ Région: 'Nouvelle-Calédonie', '2023': 1 }] },
+      resolveRegion,
+      { fileName: 'Nombre de touristes (milliers).xlsx' }
+    );
+
+    expect(result?.output.metrics[0]).toMatchObject({
+      name: 'Nombre de touristes (milliers)',
+      unit: 'milliers',
+    });
+  });
+
+  it('rejects the values that are not numbers', () => {
+    const result = parseTabularData(
+      {
+        Population: [
+          { Région: 'Province Sud', '2023': 'inconnu' },
+          { Région: 'Province Nord', '2023': 50500 },
+        ],
+      },
+      resolveRegion
+    );
+
+    expect(result?.output.metrics[0].data).toEqual([{ region: 'PN', year: 2023, value: 50500 }]);
+    expect(result?.issues).toMatchObject([
+      { severity: 'rejected', reason: 'invalid_value', region: 'PS', value: 'inconnu' },
+    ]);
+  });
+
+  describe('region column', () => {
+    const buildSheet = (knownRows: number, unknownRows: number) => ({
+      Population: [
+        ...Array.from({ length: knownRows }, () => ({ Région: 'Province Sud', '2023': 1 })),
+        ...Array.from({ length: unknownRows }, (_, i) => ({ Région: `Commune ${i}`, '2023': 1 })),
+      ],
+    });
+
+    it('is recognized when at least 70% of its labels are regions', () => {
+      const result = parseTabularData(buildSheet(7, 3), resolveRegion);
+
+      expect(result?.output.metrics[0].data).toHaveLength(7);
+      expect(result?.issues).toHaveLength(3);
+      expect(result?.issues.every(issue => issue.reason === 'unknown_region')).toBe(true);
+    });
+
+    it('is not recognized below 70%, the file is left to the LLM', () => {
+      expect(parseTabularData(buildSheet(6, 4), resolveRegion)).toBeNull();
+    });
+  });
+
+  it('gives up as soon as one sheet has an unknown layout', () => {
+    const result = parseTabularData(
+      {
+        Population: [{ Région: 'Province Sud', '2023': 1 }],
+        Notes: [{ __EMPTY: 'Source : ISEE' }],
+      },
+      resolveRegion
+    );
+
+    expect(result).toBeNull();
+  });
+});
+
+describe('parseNumber', () => {
+  it.each([
+    [12.5, 12.5],
+    ['12,5', 12.5],
+    ['-3,25', -3.25],
+    ['12.5 %', 12.5],
+    ['1 234,5', 1234.5],
+    ['1 234,5', 1234.5],
+    ['1.234,5', 1234.5],
+    ['1,234.5', 1234.5],
+    ['1.234.567', 1234567],
+    ['1,234,567', 1234567],
+    ['1.234.567,89', 1234567.89],
+    ['1,234,567.89', 1234567.89],
+    ['1.5e3', 1500],
+  ])('reads %s', (value, expected) => {
+    expect(parseNumber(value)).toBe(expected);
+  });
+
+  it.each(['', 'abc', 'n.d.', '12,34.5', '1.23.45', '1,2,3', '1.234,5.6', Number.NaN, null])(
+    'rejects %s',
+    value => {
+      expect(parseNumber(value)).toBeNull();
+    }
+  );
+});
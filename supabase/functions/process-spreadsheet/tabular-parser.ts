@@ -0,0 +1,452 @@
+// Rule-based parser for well-formed spreadsheets, the LLM is only used when it can't read a file
+import { parsePeriod } from './periods.ts';
+import type { RegionResolver, ResolvedRegion } from './region-resolver.ts';
+import type {
+  ImportIssue,
+  Metric,
+  MetricDataPoint,
+  ProcessedOutput,
+  RawSpreadsheetData,
+} from './types.ts';
+
+export type SheetLayout = 'wide' | 'long';
+
+export interface TabularParseResult {
+  output: ProcessedOutput;
+  layouts: Record<string, SheetLayout>;
+  issues: ImportIssue[];
+}
+
+// Spreadsheet reference ("C12") of a cell of a parsed row
+export type CellRefResolver = (
+  sheetName: string,
+  row: Record<string, unknown>,
+  column: string
+) => string | null;
+
+interface ParseOptions {
+  // Used as metric name for single-sheet files with a default sheet name ("Sheet1", "Feuil1"...)
+  fileName?: string;
+  getCellRef?: CellRefResolver;
+}
+
+interface SheetContext {
+  sheetName: string;
+  defaultName: string;
+  resolveRegion: RegionResolver;
+  getCellRef?: CellRefResolver;
+}
+
+interface ParsedSheet {
+  layout: SheetLayout;
+  metrics: Metric[];
+  issues: ImportIssue[];
+}
+
+// Minimum share of non-empty cells that must be understood for a column to be recognized
+const MATCH_THRESHOLD = 0.7;
+
+const DEFAULT_SHEET_NAME_PATTERN = /^(sheet|feuil(le)?)\s*\d*$/i;
+const METRIC_HEADER_PATTERN = /^(indicateur|m[ée]trique|indicator|metric|variable|s[ée]rie)s?$/i;
+const UNIT_HEADER_PATTERN = /^(unit[ée]?|units?)$/i;
+const PERIOD_HEADER_PATTERN = /^(ann[ée]e|year|p[ée]riode|period|date)s?$/i;
+const VALUE_HEADER_PATTERN = /^(valeur|value|montant|amount|total)s?$/i;
+const EMPTY_VALUES = new Set(['', '-', '–', 'n.d.', 'nd', 'n/a', 'na', 's', 'ns']);
+
+/**
+ * Parse every sheet of the file as a wide (region + period columns) or long
+ * (region / period / value columns) table. Periods are years, quarters, months or days.
+ * Returns null as soon as one sheet doesn't match a known layout.
+ */
+export function parseTabularData(
+  rawData: RawSpreadsheetData,
+  resolveRegion: RegionResolver,
+  options: ParseOptions = {}
+): TabularParseResult | null {
+  const sheets = Object.entries(rawData).filter(([, rows]) => rows.length > 0);
+
+  if (sheets.length === 0) {
+    return null;
+  }
+
+  const metrics: Metric[] = [];
+  const layouts: Record<string, SheetLayout> = {};
+  const issues: ImportIssue[] = [];
+
+  for (const [sheetName, rows] of sheets) {
+    const context: SheetContext = {
+      sheetName,
+      defaultName:
+        sheets.length === 1 && DEFAULT_SHEET_NAME_PATTERN.test(sheetName.trim()) && options.fileName
+          ? stripExtension(options.fileName)
+          : sheetName,
+      resolveRegion,
+      getCellRef: options.getCellRef,
+    };
+
+    const parsed = parseWideSheet(rows, context) ?? parseLongSheet(rows, context);
+
+    if (!parsed) {
+      return null;
+    }
+
+    layouts[sheetName] = parsed.layout;
+    metrics.push(...parsed.metrics);
+    issues.push(...parsed.issues);
+  }
+
+  return { output: { metrics: mergeMetrics(metrics) }, layouts, issues };
+}
+
+/**
+ * One row per region, one column per period
+ */
+function parseWideSheet(
+  rows: Array<Record<string, unknown>>,
+  context: SheetContext
+): ParsedSheet | null {
+  const columns = getColumns(rows);
+  const periodColumns = columns.flatMap(column => {
+    const parsed = parsePeriod(column);
+    return parsed ? [{ column, ...parsed }] : [];
+  });
+  if (periodColumns.length === 0) return null;
+
+  const otherColumns = columns.filter(
+    column => !periodColumns.some(periodColumn => periodColumn.column === column)
+  );
+  const regionColumn = findRegionColumn(rows, otherColumns, context.resolveRegion);
+  if (!regionColumn) return null;
+
+  const metricColumn = otherColumns.find(column => METRIC_HEADER_PATTERN.test(column.trim()));
+  const unitColumn = otherColumns.find(column => UNIT_HEADER_PATTERN.test(column.trim()));
+
+  const metrics: Metric[] = [];
+  const issues: ImportIssue[] = [];
+  for (const row of rows) {
+    const metric = getRowMetric(metrics, row, context, metricColumn, unitColumn);
+    const region = context.resolveRegion(row[regionColumn]);
+
+    if (!region) {
+      if (!isEmpty(row[regionColumn])) {
+        issues.push(
+          createIssue(context, row, regionColumn, 'rejected', 'unknown_region', {
+            metric: metric.name,
+          })
+        );
+      }
+      continue;
+    }
+
+    for (const { column, year, period } of periodColumns) {
+      const value = parseValueCell(context, row, column, {
+        metric: metric.name,
+        region: region.code,
+        year,
+      });
+      issues.push(...value.issues);
+      if (value.value === null) continue;
+
+      metric.data.push(toDataPoint(region, year, period, value.value));
+    }
+  }
+
+  return hasData(metrics) ? { layout: 'wide', metrics: withData(metrics), issues } : null;
+}
+
+/**
+ * One row per (region, period) couple, with the value in its own column
+ */
+function parseLongSheet(
+  rows: Array<Record<string, unknown>>,
+  context: SheetContext
+): ParsedSheet | null {
+  const columns = getColumns(rows);
+
+  const regionColumn = findRegionColumn(rows, columns, context.resolveRegion);
+  if (!regionColumn) return null;
+
+  const periodCandidates = columns.filter(
+    column =>
+      column !== regionColumn && isMostly(rows, column, value => parsePeriod(value) !== null)
+  );
+  const periodColumn =
+    periodCandidates.find(column => PERIOD_HEADER_PATTERN.test(column.trim())) ??
+    periodCandidates[0];
+  if (!periodColumn) return null;
+
+  const metricColumn = columns.find(column => METRIC_HEADER_PATTERN.test(column.trim()));
+  const unitColumn = columns.find(column => UNIT_HEADER_PATTERN.test(column.trim()));
+
+  const valueCandidates = columns.filter(
+    column =>
+      ![regionColumn, periodColumn, metricColumn, unitColumn].includes(column) &&
+      isMostly(rows, column, value => parseNumber(value) !== null)
+  );
+  const valueColumn =
+    valueCandidates.find(column => VALUE_HEADER_PATTERN.test(column.trim())) ??
+    (valueCandidates.length === 1 ? valueCandidates[0] : undefined);
+  if (!valueColumn) return null;
+
+  const metrics: Metric[] = [];
+  const issues: ImportIssue[] = [];
+  for (const row of rows) {
+    if (isEmpty(row[regionColumn]) && isEmpty(row[periodColumn]) && isEmpty(row[valueColumn])) {
+      continue;
+    }
+
+    const metric = getRowMetric(metrics, row, context, metricColumn, unitColumn);
+    const region = context.resolveRegion(row[regionColumn]);
+    const parsedPeriod = parsePeriod(row[periodColumn]);
+
+    if (!region) {
+      issues.push(
+        createIssue(context, row, regionColumn, 'rejected', 'unknown_region', {
+          metric: metric.name,
+          year: parsedPeriod?.year ?? null,
+        })
+      );
+      continue;
+    }
+    if (!parsedPeriod) {
+      issues.push(
+        createIssue(context, row, periodColumn, 'rejected', 'invalid_year', {
+          metric: metric.name,
+          region: region.code,
+        })
+      );
+      continue;
+    }
+
+    const value = parseValueCell(context, row, valueColumn, {
+      metric: metric.name,
+      region: region.code,
+      year: parsedPeriod.year,
+    });
+    issues.push(...value.issues);
+    if (value.value === null) continue;
+
+    metric.data.push(toDataPoint(region, parsedPeriod.year, parsedPeriod.period, value.value));
+  }
+
+  return hasData(metrics) ? { layout: 'long', metrics: withData(metrics), issues } : null;
+}
+
+function getRowMetric(
+  metrics: Metric[],
+  row: Record<string, unknown>,
+  context: SheetContext,
+  metricColumn: string | undefined,
+  unitColumn: string | undefined
+) {
+  const defaultUnit = extractUnit(context.defaultName);
+
+  return getOrCreateMetric(
+    metrics,
+    metricColumn ? toText(row[metricColumn]) || context.defaultName : context.defaultName,
+    unitColumn ? toText(row[unitColumn]) || defaultUnit : defaultUnit
+  );
+}
+
+// Empty cells are skipped, text that can't be read as a number is rejected
+// and numbers stored as text are converted
+function parseValueCell(
+  context: SheetContext,
+  row: Record<string, unknown>,
+  column: string,
+  fields: Pick<ImportIssue, 'metric' | 'region' | 'year'>
+): { value: number | null; issues: ImportIssue[] } {
+  const raw = row[column];
+  if (isEmpty(raw)) return { value: null, issues: [] };
+
+  const value = parseNumber(raw);
+  if (value === null) {
+    return {
+      value: null,
+      issues: [createIssue(context, row, column, 'rejected', 'invalid_value', fields)],
+    };
+  }
+  if (typeof raw === 'string') {
+    return {
+      value,
+      issues: [createIssue(context, row, column, 'coerced', 'coerced_value', fields)],
+    };
+  }
+  return { value, issues: [] };
+}
+
+function createIssue(
+  context: SheetContext,
+  row: Record<string, unknown>,
+  column: string,
+  severity: ImportIssue['severity'],
+  reason: ImportIssue['reason'],
+  fields: Partial<Pick<ImportIssue, 'metric' | 'region' | 'year'>>
+): ImportIssue {
+  return {
+    severity,
+    reason,
+    sheet: context.sheetName,
+    cell: context.getCellRef?.(context.sheetName, row, column) ?? null,
+    metric: fields.metric ?? null,
+    region: fields.region ?? null,
+    year: fields.year ?? null,
+    value: isEmpty(row[column]) ? null : toText(row[column]),
+  };
+}
+
+function findRegionColumn(
+  rows: Array<Record<string, unknown>>,
+  columns: string[],
+  resolveRegion: RegionResolver
+): string | undefined {
+  let bestColumn: string | undefined;
+  let bestRatio = 0;
+
+  columns.forEach(column => {
+    const ratio = getMatchRatio(rows, column, value => resolveRegion(value) !== null);
+    if (ratio > bestRatio) {
+      bestColumn = column;
+      bestRatio = ratio;
+    }
+  });
+
+  return bestRatio >= MATCH_THRESHOLD ? bestColumn : undefined;
+}
+
+function isMostly(
+  rows: Array<Record<string, unknown>>,
+  column: string,
+  predicate: (value: unknown) => boolean
+) {
+  return getMatchRatio(rows, column, predicate) >= MATCH_THRESHOLD;
+}
+
+// Share of the non-empty cells of a column matching the predicate
+function getMatchRatio(
+  rows: Array<Record<string, unknown>>,
+  column: string,
+  predicate: (value: unknown) => boolean
+) {
+  const values = rows.map(row => row[column]).filter(value => !isEmpty(value));
+  if (values.length === 0) return 0;
+
+  return values.filter(predicate).length / values.length;
+}
+
+function getColumns(rows: Array<Record<string, unknown>>) {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+
+  // Columns without header (e.g. title rows above the table) mean the sheet isn't well-formed
+  return [...columns].filter(column => !column.startsWith('__EMPTY'));
+}
+
+function getOrCreateMetric(metrics: Metric[], name: string, unit: string) {
+  let metric = metrics.find(m => m.name === name && m.unit === unit);
+  if (!metric) {
+    metric = { name, unit, data: [] };
+    metrics.push(metric);
+  }
+  return metric;
+}
+
+// Sheets describing the same metric are merged together
+function mergeMetrics(metrics: Metric[]): Metric[] {
+  const merged: Metric[] = [];
+  metrics.forEach(metric => {
+    getOrCreateMetric(merged, metric.name, metric.unit).data.push(...metric.data);
+  });
+  return merged;
+}
+
+function hasData(metrics: Metric[]) {
+  return metrics.some(metric => metric.data.length > 0);
+}
+
+// Metrics only created for rejected rows are left out
+function withData(metrics: Metric[]) {
+  return metrics.filter(metric => metric.data.length > 0);
+}
+
+function isEmpty(value: unknown) {
+  return value === null || value === undefined || EMPTY_VALUES.has(toText(value).toLowerCase());
+}
+
+function toText(value: unknown) {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// Yearly points don't carry a period, exactly matched regions don't carry a match
+function toDataPoint(
+  region: ResolvedRegion,
+  year: number,
+  period: string | null,
+  value: number
+): MetricDataPoint {
+  return {
+    region: region.code,
+    year,
+    ...(period ? { period } : {}),
+    value,
+    ...(region.match ? { regionMatch: region.match } : {}),
+  };
+}
+
+// Accepts numbers as well as formatted strings ("1 234,5", "1.234,5", "1,234.5", "12.5 %")
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (isEmpty(value)) return null;
+
+  const text = normalizeSeparators(
+    toText(value)
+      .replace(/[\s\u00a0\u202f]/g, '')
+      .replace(/%$/, '')
+  );
+
+  if (text === null || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(text)) return null;
+  return parseFloat(text);
+}
+
+const GROUPED_THOUSANDS: Record<string, RegExp> = {
+  ',': /^[-+]?\d{1,3}(,\d{3})+$/,
+  '.': /^[-+]?\d{1,3}(\.\d{3})+$/,
+};
+
+// Rewrite the number with a dot as decimal separator and no thousands separator, or null when
+// its separators are inconsistent ("12,34.5")
+function normalizeSeparators(text: string): string | null {
+  const decimalIndex = Math.max(text.lastIndexOf(','), text.lastIndexOf('.'));
+  if (decimalIndex < 0) return text;
+
+  const separator = text[decimalIndex];
+
+  // "1.234.567" or "1,234,567": a repeated separator only groups thousands
+  if (text.indexOf(separator) !== decimalIndex) {
+    return GROUPED_THOUSANDS[separator].test(text) ? text.split(separator).join('') : null;
+  }
+
+  // "1.234,5" or "1,234.5": the last separator is the decimal one, the other groups thousands
+  const integerPart = text.slice(0, decimalIndex);
+  const groupSeparator = separator === ',' ? '.' : ',';
+  if (
+    integerPart.includes(groupSeparator) &&
+    !GROUPED_THOUSANDS[groupSeparator].test(integerPart)
+  ) {
+    return null;
+  }
+
+  return `${integerPart.split(groupSeparator).join('')}.${text.slice(decimalIndex + 1)}`;
+}
+
+// "Taux de chômage (%)" -> "%"
+function extractUnit(name: string) {
+  const match = name.match(/\(([^)]+)\)\s*$/);
+  return match ? match[1].trim() : '';
+}
+
+function stripExtension(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '');
+}
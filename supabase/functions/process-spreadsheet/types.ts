@@ -0,0 +1,79 @@
+// Shared types for the process-spreadsheet edge function
+export interface Region {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface RegionAlias {
+  region_id: string;
+  alias: string;
+}
+
+export type MetricFrequency = 'annual' | 'quarterly' | 'monthly' | 'daily';
+
+export type AppRole = 'viewer' | 'editor' | 'admin';
+
+// Region label resolved approximately, shown to the reviewer for confirmation
+export interface RegionMatch {
+  kind: 'abbreviation' | 'fuzzy';
+  // Label found in the file
+  label: string;
+  // Similarity between the label and the matched name or alias, from 0 to 1
+  score: number;
+}
+
+export interface MetricDataPoint {
+  region: string;
+  year: number;
+  // Sub-annual period ("2023-Q2", "2023-05", "2023-05-14"), absent for yearly values
+  period?: string;
+  value: number;
+  regionMatch?: RegionMatch;
+}
+
+export interface Metric {
+  name: string;
+  unit: string;
+  data: MetricDataPoint[];
+}
+
+export interface ProcessedOutput {
+  metrics: Metric[];
+}
+
+// Rows of each sheet, as returned by XLSX.utils.sheet_to_json
+export type RawSpreadsheetData = Record<string, Array<Record<string, unknown>>>;
+
+// How the metrics were extracted from the file
+export type ImportPath = 'tabular' | 'llm';
+
+export type ImportIssueReason =
+  | 'unknown_region'
+  | 'invalid_year'
+  | 'invalid_value'
+  | 'coerced_year'
+  | 'coerced_value'
+  | 'save_failed';
+
+// A value that was dropped (rejected) or converted (coerced) during the import
+export interface ImportIssue {
+  severity: 'rejected' | 'coerced';
+  reason: ImportIssueReason;
+  sheet: string | null;
+  cell: string | null;
+  metric: string | null;
+  region: string | null;
+  year: number | null;
+  value: string | null;
+}
+
+// A queued processing of a file, claimed by the worker
+export interface ImportJob {
+  id: string;
+  file_id: string;
+  kind: 'process' | 'retry_chunks';
+  payload: { chunkIndex?: number };
+  attempts: number;
+  max_attempts: number;
+}
@@ -0,0 +1,34 @@
+-- Files now stop at a review step before anything is written to metrics/metric_data
+ALTER TYPE file_processing_status ADD VALUE IF NOT EXISTS 'awaiting_review' AFTER 'processing';
+ALTER TYPE file_processing_status ADD VALUE IF NOT EXISTS 'rejected' AFTER 'error';
+
+-- Create the pending_import_status enum type
+CREATE TYPE pending_import_status AS ENUM ('pending', 'committed', 'rejected');
+
+-- Extracted data waiting for a human review before being committed
+CREATE TABLE IF NOT EXISTS public.pending_imports (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  file_id uuid NOT NULL,
+  status pending_import_status NOT NULL DEFAULT 'pending',
+  data jsonb NOT NULL,
+  reviewed_data jsonb,
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.pending_imports
+    ADD CONSTRAINT pending_imports_pkey PRIMARY KEY (id);
+
+-- A file has at most one staged import, reprocessing replaces it
+ALTER TABLE ONLY public.pending_imports
+    ADD CONSTRAINT pending_imports_file_id_key UNIQUE (file_id);
+
+ALTER TABLE ONLY public.pending_imports
+    ADD CONSTRAINT pending_imports_file_id_fkey FOREIGN KEY (file_id) REFERENCES public.files(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.pending_imports TO postgres;
+GRANT ALL ON TABLE public.pending_imports TO anon;
+GRANT ALL ON TABLE public.pending_imports TO authenticated;
+GRANT ALL ON TABLE public.pending_imports TO service_role;
@@ -0,0 +1,115 @@
+-- Committed imports can be rolled back
+ALTER TYPE file_processing_status ADD VALUE IF NOT EXISTS 'reverted' AFTER 'rejected';
+ALTER TYPE pending_import_status ADD VALUE IF NOT EXISTS 'reverted' AFTER 'rejected';
+
+-- Values overwritten by an import, kept to restore them when the import is undone
+CREATE TABLE IF NOT EXISTS public.import_changes (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  file_id uuid NOT NULL,
+  metric_data_id uuid NOT NULL,
+  previous_value numeric NOT NULL,
+  previous_status metric_data_status NOT NULL,
+  previous_metadata jsonb,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.import_changes
+    ADD CONSTRAINT import_changes_pkey PRIMARY KEY (id);
+
+-- Only the state before the first commit of a file matters
+ALTER TABLE ONLY public.import_changes
+    ADD CONSTRAINT import_changes_file_id_metric_data_id_key UNIQUE (file_id, metric_data_id);
+
+ALTER TABLE ONLY public.import_changes
+    ADD CONSTRAINT import_changes_file_id_fkey FOREIGN KEY (file_id) REFERENCES public.files(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.import_changes
+    ADD CONSTRAINT import_changes_metric_data_id_fkey FOREIGN KEY (metric_data_id) REFERENCES public.metric_data(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.import_changes TO postgres;
+GRANT ALL ON TABLE public.import_changes TO anon;
+GRANT ALL ON TABLE public.import_changes TO authenticated;
+GRANT ALL ON TABLE public.import_changes TO service_role;
+
+-- Undo everything a committed import wrote: rows it created are deleted, rows it
+-- overwrote are restored, and metrics it created are deleted once empty.
+-- Without p_force, nothing is changed if some rows have been edited or published since.
+CREATE OR REPLACE FUNCTION public.undo_import(p_file_id uuid, p_force boolean DEFAULT false)
+RETURNS jsonb AS $$
+DECLARE
+  v_committed_at timestamp with time zone;
+  v_edited integer;
+  v_published integer;
+  v_deleted integer;
+  v_restored integer;
+  v_deleted_metrics integer;
+BEGIN
+  SELECT reviewed_at INTO v_committed_at
+  FROM public.pending_imports
+  WHERE file_id = p_file_id AND status = 'committed';
+
+  IF v_committed_at IS NULL THEN
+    RAISE EXCEPTION 'No committed import found for file %', p_file_id;
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE updated_at > v_committed_at),
+    count(*) FILTER (WHERE status = 'public')
+  INTO v_edited, v_published
+  FROM public.metric_data
+  WHERE metadata->>'source_file_id' = p_file_id::text;
+
+  IF (v_edited > 0 OR v_published > 0) AND NOT p_force THEN
+    RETURN jsonb_build_object(
+      'status', 'needs_confirmation',
+      'edited', v_edited,
+      'published', v_published
+    );
+  END IF;
+
+  -- Rows created by the import
+  DELETE FROM public.metric_data md
+  WHERE md.metadata->>'source_file_id' = p_file_id::text
+    AND NOT EXISTS (
+      SELECT 1 FROM public.import_changes ic
+      WHERE ic.file_id = p_file_id AND ic.metric_data_id = md.id
+    );
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Rows overwritten by the import
+  UPDATE public.metric_data md
+  SET
+    value = ic.previous_value,
+    status = ic.previous_status,
+    metadata = ic.previous_metadata,
+    updated_at = now()
+  FROM public.import_changes ic
+  WHERE ic.file_id = p_file_id
+    AND ic.metric_data_id = md.id
+    AND md.metadata->>'source_file_id' = p_file_id::text;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  -- Metrics created by the import, unless another import has data in them
+  DELETE FROM public.metrics m
+  WHERE m.metadata->>'source_file_id' = p_file_id::text
+    AND NOT EXISTS (SELECT 1 FROM public.metric_data md WHERE md.metric_id = m.id);
+  GET DIAGNOSTICS v_deleted_metrics = ROW_COUNT;
+
+  DELETE FROM public.import_changes WHERE file_id = p_file_id;
+
+  UPDATE public.pending_imports
+  SET status = 'reverted', updated_at = now()
+  WHERE file_id = p_file_id;
+
+  UPDATE public.files
+  SET processing_status = 'reverted'
+  WHERE id = p_file_id;
+
+  RETURN jsonb_build_object(
+    'status', 'reverted',
+    'deleted', v_deleted,
+    'restored', v_restored,
+    'deleted_metrics', v_deleted_metrics
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,3 @@
+-- Values rejected or coerced while extracting the data of a file
+ALTER TABLE public.pending_imports
+ADD COLUMN issues jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,21 @@
+-- Other names used for a region in source files (abbreviations, old names, numeric codes...)
+CREATE TABLE IF NOT EXISTS public.region_aliases (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  region_id uuid NOT NULL,
+  alias text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.region_aliases
+    ADD CONSTRAINT region_aliases_pkey PRIMARY KEY (id);
+
+-- An alias can only point to one region, whatever its case
+CREATE UNIQUE INDEX region_aliases_alias_key ON public.region_aliases (lower(trim(alias)));
+
+ALTER TABLE ONLY public.region_aliases
+    ADD CONSTRAINT region_aliases_region_id_fkey FOREIGN KEY (region_id) REFERENCES public.regions(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.region_aliases TO postgres;
+GRANT ALL ON TABLE public.region_aliases TO anon;
+GRANT ALL ON TABLE public.region_aliases TO authenticated;
+GRANT ALL ON TABLE public.region_aliases TO service_role;
@@ -0,0 +1,34 @@
+-- Create the import_chunk_status enum type
+CREATE TYPE import_chunk_status AS ENUM ('pending', 'processing', 'completed', 'error');
+
+-- Large workbooks are sent to the LLM sheet by sheet and row window by row window.
+-- Each chunk keeps its own result so a failed chunk can be retried alone.
+CREATE TABLE IF NOT EXISTS public.import_chunks (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  file_id uuid NOT NULL,
+  chunk_index integer NOT NULL,
+  sheet text NOT NULL,
+  start_row integer NOT NULL,
+  end_row integer NOT NULL,
+  status import_chunk_status NOT NULL DEFAULT 'pending',
+  result jsonb,
+  issues jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.import_chunks
+    ADD CONSTRAINT import_chunks_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.import_chunks
+    ADD CONSTRAINT import_chunks_file_id_chunk_index_key UNIQUE (file_id, chunk_index);
+
+ALTER TABLE ONLY public.import_chunks
+    ADD CONSTRAINT import_chunks_file_id_fkey FOREIGN KEY (file_id) REFERENCES public.files(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.import_chunks TO postgres;
+GRANT ALL ON TABLE public.import_chunks TO anon;
+GRANT ALL ON TABLE public.import_chunks TO authenticated;
+GRANT ALL ON TABLE public.import_chunks TO service_role;
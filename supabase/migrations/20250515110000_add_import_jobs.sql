@@ -0,0 +1,217 @@
+-- Files are processed through a durable job queue instead of a single fire-and-forget HTTP call.
+-- The worker (process-spreadsheet, action "work") claims due jobs, retries failures with an
+-- exponential backoff, and is woken up on every enqueue and every minute by pg_cron.
+
+-- Create the import_job_status enum type
+CREATE TYPE import_job_status AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  file_id uuid NOT NULL,
+  -- 'process' extracts the whole file, 'retry_chunks' only its failed chunks
+  kind text NOT NULL DEFAULT 'process',
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status import_job_status NOT NULL DEFAULT 'queued',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_after timestamp with time zone DEFAULT now() NOT NULL,
+  locked_at timestamp with time zone,
+  locked_by text,
+  last_error text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  finished_at timestamp with time zone,
+  CONSTRAINT import_jobs_kind_check CHECK (kind IN ('process', 'retry_chunks'))
+);
+
+ALTER TABLE ONLY public.import_jobs
+    ADD CONSTRAINT import_jobs_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.import_jobs
+    ADD CONSTRAINT import_jobs_file_id_fkey FOREIGN KEY (file_id) REFERENCES public.files(id) ON DELETE CASCADE;
+
+-- A file has at most one job waiting or running
+CREATE UNIQUE INDEX import_jobs_active_file_key ON public.import_jobs (file_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX import_jobs_due_idx ON public.import_jobs (run_after) WHERE status = 'queued';
+
+GRANT ALL ON TABLE public.import_jobs TO postgres;
+GRANT ALL ON TABLE public.import_jobs TO anon;
+GRANT ALL ON TABLE public.import_jobs TO authenticated;
+GRANT ALL ON TABLE public.import_jobs TO service_role;
+
+-- Ask the worker to look for due jobs. Best effort: when the call is lost, pg_cron picks the jobs up.
+CREATE OR REPLACE FUNCTION public.wake_import_worker()
+RETURNS void AS $$
+DECLARE
+  v_base_url text := current_setting('app.functions_base_url', true);
+  v_token text := current_setting('app.functions_bearer_token', true);
+BEGIN
+  IF v_base_url IS NULL OR v_base_url = '' THEN
+    RETURN;
+  END IF;
+
+  PERFORM
+    net.http_post(
+      url := CONCAT(v_base_url, '/process-spreadsheet'),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', CONCAT('Bearer ', v_token)
+      ),
+      body := jsonb_build_object('action', 'work')
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Queue a job for a file, or return the one already waiting or running
+CREATE OR REPLACE FUNCTION public.enqueue_import_job(
+  p_file_id uuid,
+  p_kind text DEFAULT 'process',
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.import_jobs AS $$
+DECLARE
+  v_job public.import_jobs;
+BEGIN
+  -- Processing the file again would replace a committed import, which could not be undone anymore
+  IF EXISTS (
+    SELECT 1 FROM public.pending_imports WHERE file_id = p_file_id AND status = 'committed'
+  ) THEN
+    RAISE EXCEPTION 'The import of file % must be undone before processing it again', p_file_id
+      USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.import_jobs (file_id, kind, payload)
+  VALUES (p_file_id, p_kind, COALESCE(p_payload, '{}'::jsonb))
+  ON CONFLICT (file_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO v_job;
+
+  -- Concurrent calls for a file all get the job inserted by the first one
+  IF NOT FOUND THEN
+    SELECT * INTO v_job
+    FROM public.import_jobs
+    WHERE file_id = p_file_id AND status IN ('queued', 'running');
+
+    RETURN v_job;
+  END IF;
+
+  UPDATE public.files
+  SET processing_status = 'pending'
+  WHERE id = p_file_id;
+
+  PERFORM public.wake_import_worker();
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Without attempts left, the file of a job is left in error until reprocessed
+CREATE OR REPLACE FUNCTION public.fail_import_file(p_job public.import_jobs)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.files
+  SET processing_status = 'error',
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('error', p_job.last_error)
+  WHERE id = p_job.file_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lock the next due jobs for a worker. Jobs left running by a crashed worker are taken over
+-- once their lock is older than p_lock_timeout.
+CREATE OR REPLACE FUNCTION public.claim_import_jobs(
+  p_worker text,
+  p_limit integer DEFAULT 1,
+  p_lock_timeout interval DEFAULT '10 minutes'
+)
+RETURNS SETOF public.import_jobs AS $$
+DECLARE
+  v_job public.import_jobs;
+BEGIN
+  -- Stale jobs without attempts left are given up
+  FOR v_job IN
+    UPDATE public.import_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker timed out'),
+        locked_at = NULL,
+        locked_by = NULL,
+        finished_at = now(),
+        updated_at = now()
+    WHERE status = 'running'
+      AND locked_at < now() - p_lock_timeout
+      AND attempts >= max_attempts
+    RETURNING *
+  LOOP
+    PERFORM public.fail_import_file(v_job);
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE public.import_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_at = now(),
+      locked_by = p_worker,
+      updated_at = now()
+  WHERE id IN (
+    SELECT id
+    FROM public.import_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the outcome of a claimed job. Failures are queued again after 30s, 1min, 2min...
+-- until max_attempts is reached.
+CREATE OR REPLACE FUNCTION public.complete_import_job(p_job_id uuid, p_error text DEFAULT NULL)
+RETURNS public.import_jobs AS $$
+DECLARE
+  v_job public.import_jobs;
+BEGIN
+  UPDATE public.import_jobs
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'succeeded'::import_job_status
+        WHEN attempts >= max_attempts THEN 'failed'::import_job_status
+        ELSE 'queued'::import_job_status
+      END,
+      run_after = CASE
+        WHEN p_error IS NULL OR attempts >= max_attempts THEN run_after
+        ELSE now() + interval '30 seconds' * power(2, attempts - 1)
+      END,
+      finished_at = CASE
+        WHEN p_error IS NULL OR attempts >= max_attempts THEN now()
+        ELSE NULL
+      END,
+      last_error = p_error,
+      locked_at = NULL,
+      locked_by = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  IF v_job.status = 'failed' THEN
+    PERFORM public.fail_import_file(v_job);
+  END IF;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New files are queued instead of being sent to the edge function directly
+CREATE OR REPLACE FUNCTION public.process_new_file()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_import_job(NEW.id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Safety net for lost wake-up calls and scheduled retries
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('import-jobs-worker', '* * * * *', 'SELECT public.wake_import_worker()');
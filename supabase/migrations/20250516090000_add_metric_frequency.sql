@@ -0,0 +1,6 @@
+-- Metrics can be published at a sub-annual resolution. Points are still stored on metric_data.date,
+-- at the first day of their period (2023-04-01 for 2023-Q2, 2023-05-01 for 2023-05).
+CREATE TYPE metric_frequency AS ENUM ('annual', 'quarterly', 'monthly', 'daily');
+
+ALTER TABLE public.metrics
+  ADD COLUMN IF NOT EXISTS frequency metric_frequency NOT NULL DEFAULT 'annual';
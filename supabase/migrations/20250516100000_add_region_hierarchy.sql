@@ -0,0 +1,62 @@
+-- Regions form a tree (country -> region -> department). A parent region without data of its own
+-- shows the roll-up of its children, computed with the roll-up method of each metric.
+
+-- Create the region_level enum type
+CREATE TYPE region_level AS ENUM ('country', 'region', 'department');
+
+ALTER TABLE public.regions
+  ADD COLUMN IF NOT EXISTS parent_id uuid,
+  ADD COLUMN IF NOT EXISTS level region_level NOT NULL DEFAULT 'region',
+  -- Weight of the region in population-weighted averages
+  ADD COLUMN IF NOT EXISTS population bigint;
+
+ALTER TABLE ONLY public.regions
+    ADD CONSTRAINT regions_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.regions(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.regions
+    ADD CONSTRAINT regions_parent_id_check CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX regions_parent_id_idx ON public.regions (parent_id);
+
+-- A region can't be moved below itself: its ancestors are walked up from the new parent
+CREATE OR REPLACE FUNCTION public.check_region_hierarchy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Concurrent moves could each be valid alone and form a cycle together
+  PERFORM pg_advisory_xact_lock(hashtext('public.regions.parent_id'));
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id
+      FROM public.regions
+      WHERE id = NEW.parent_id
+      UNION
+      SELECT r.id, r.parent_id
+      FROM public.regions r
+      JOIN ancestors a ON r.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Region % can''t be placed below one of its own descendants', NEW.code
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_region_hierarchy_trigger
+BEFORE INSERT OR UPDATE OF parent_id ON public.regions
+FOR EACH ROW
+EXECUTE FUNCTION public.check_region_hierarchy();
+
+-- Create the metric_rollup enum type
+CREATE TYPE metric_rollup AS ENUM ('sum', 'avg', 'weighted_avg');
+
+-- How the values of child regions are combined into their parent
+ALTER TABLE public.metrics
+  ADD COLUMN IF NOT EXISTS rollup metric_rollup NOT NULL DEFAULT 'sum';
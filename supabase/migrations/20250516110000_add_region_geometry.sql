@@ -0,0 +1,9 @@
+-- Boundaries of the regions, drawn by the map chart type. Stored as GeoJSON geometries
+-- (Polygon or MultiPolygon, WGS84 longitude/latitude) so that no tile server is needed.
+ALTER TABLE public.regions
+  ADD COLUMN IF NOT EXISTS geometry jsonb;
+
+ALTER TABLE ONLY public.regions
+    ADD CONSTRAINT regions_geometry_check CHECK (
+      geometry IS NULL OR geometry->>'type' IN ('Polygon', 'MultiPolygon')
+    );
@@ -0,0 +1,96 @@
+-- Statistics of the data of each metric, read by the explorer and the metric selector instead of
+-- querying metric_data once per metric. Metrics without data have no row.
+CREATE MATERIALIZED VIEW public.metric_stats AS
+SELECT
+  md.metric_id,
+  count(*)::integer AS data_count,
+  min(md.date) AS first_date,
+  max(md.date) AS last_date,
+  count(DISTINCT md.region_id)::integer AS region_count,
+  (count(*) FILTER (WHERE md.status = 'public'))::integer AS public_count,
+  (count(*) FILTER (WHERE md.status = 'private'))::integer AS private_count,
+  (count(*) FILTER (WHERE md.status = 'draft'))::integer AS draft_count
+FROM public.metric_data md
+GROUP BY md.metric_id;
+
+-- Required to refresh the view concurrently, without blocking its readers
+CREATE UNIQUE INDEX metric_stats_metric_id_idx ON public.metric_stats (metric_id);
+
+-- Refreshing the view rescans the whole of metric_data, so writes only request a refresh: the
+-- first statement after a refresh flags it, later ones find it already flagged. A frequent job
+-- runs the requested refresh, a few seconds after the write.
+CREATE TABLE IF NOT EXISTS public.metric_stats_refresh (
+  id boolean DEFAULT true NOT NULL,
+  requested_at timestamp with time zone
+);
+
+ALTER TABLE ONLY public.metric_stats_refresh
+    ADD CONSTRAINT metric_stats_refresh_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.metric_stats_refresh
+    ADD CONSTRAINT metric_stats_refresh_id_check CHECK (id);
+
+INSERT INTO public.metric_stats_refresh (id) VALUES (true);
+
+GRANT ALL ON TABLE public.metric_stats_refresh TO postgres;
+GRANT ALL ON TABLE public.metric_stats_refresh TO service_role;
+
+-- Only written by the functions below
+ALTER TABLE public.metric_stats_refresh ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.request_metric_stats_refresh()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.metric_stats_refresh
+  SET requested_at = now()
+  WHERE requested_at IS NULL;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER request_metric_stats_refresh_trigger
+AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON public.metric_data
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.request_metric_stats_refresh();
+
+CREATE OR REPLACE FUNCTION public.refresh_metric_stats()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.metric_stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The request is cleared and committed before refreshing, so that writers aren't held up by the
+-- refresh and the writes made meanwhile request the next one. Committing rules out SET options
+-- and SECURITY DEFINER, it runs as the owner of the pg_cron job.
+CREATE OR REPLACE PROCEDURE public.refresh_requested_metric_stats()
+AS $$
+BEGIN
+  UPDATE public.metric_stats_refresh
+  SET requested_at = NULL
+  WHERE requested_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  COMMIT;
+
+  PERFORM public.refresh_metric_stats();
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule('refresh-requested-metric-stats', '10 seconds', 'CALL public.refresh_requested_metric_stats()');
+
+-- Safety net for a refresh that failed after its request was cleared
+SELECT cron.schedule('refresh-metric-stats', '0 * * * *', 'SELECT public.refresh_metric_stats()');
+
+REVOKE ALL ON FUNCTION public.request_metric_stats_refresh() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON PROCEDURE public.refresh_requested_metric_stats() FROM PUBLIC, anon, authenticated;
+
+-- The counts include private and draft data, they are only shown to signed-in users
+GRANT ALL ON TABLE public.metric_stats TO postgres;
+REVOKE ALL ON TABLE public.metric_stats FROM anon;
+GRANT SELECT ON TABLE public.metric_stats TO authenticated;
+GRANT ALL ON TABLE public.metric_stats TO service_role;
@@ -0,0 +1,418 @@
+-- Row-level security on every table, driven by the role of each user. Viewers read public data,
+-- editors import and edit drafts, admins publish, delete and manage regions and members.
+
+-- Roles are ordered, a role has every right of the roles before it
+CREATE TYPE app_role AS ENUM ('viewer', 'editor', 'admin');
+
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id uuid NOT NULL,
+  email text,
+  full_name text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.profiles
+    ADD CONSTRAINT profiles_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.profiles
+    ADD CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS public.memberships (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  user_id uuid NOT NULL,
+  role app_role NOT NULL DEFAULT 'viewer',
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.memberships
+    ADD CONSTRAINT memberships_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.memberships
+    ADD CONSTRAINT memberships_user_id_key UNIQUE (user_id);
+
+ALTER TABLE ONLY public.memberships
+    ADD CONSTRAINT memberships_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.profiles TO postgres;
+GRANT SELECT, UPDATE ON TABLE public.profiles TO authenticated;
+GRANT ALL ON TABLE public.profiles TO service_role;
+
+GRANT ALL ON TABLE public.memberships TO postgres;
+GRANT ALL ON TABLE public.memberships TO authenticated;
+GRANT ALL ON TABLE public.memberships TO service_role;
+
+-- Role of the signed-in user, null for anonymous requests and users without membership
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS app_role AS $$
+  SELECT role FROM public.memberships WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_role(p_role app_role)
+RETURNS boolean AS $$
+  SELECT COALESCE(public.current_user_role() >= p_role, false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Guard for SECURITY DEFINER functions callable from the API. The service role and direct
+-- database sessions (triggers, pg_cron) are trusted.
+CREATE OR REPLACE FUNCTION public.require_role(p_role app_role)
+RETURNS void AS $$
+BEGIN
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.has_role(p_role) THEN
+    RAISE EXCEPTION 'The % role is required', p_role USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.current_user_role() FROM anon;
+REVOKE ALL ON FUNCTION public.has_role(app_role) FROM anon;
+REVOKE ALL ON FUNCTION public.require_role(app_role) FROM anon;
+
+-- Every new user gets a profile. The first one administers the instance, the next ones are viewers
+-- until an admin promotes them.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name');
+
+  INSERT INTO public.memberships (user_id, role)
+  VALUES (
+    NEW.id,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.memberships WHERE role = 'admin') THEN 'viewer'::app_role
+      ELSE 'admin'::app_role
+    END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Existing users kept full access until now: the oldest one becomes admin, the others editors
+INSERT INTO public.profiles (id, email, full_name)
+SELECT id, email, raw_user_meta_data->>'full_name'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.memberships (user_id, role)
+SELECT
+  id,
+  CASE WHEN row_number() OVER (ORDER BY created_at) = 1 THEN 'admin'::app_role ELSE 'editor'::app_role END
+FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- An instance always keeps an admin
+CREATE OR REPLACE FUNCTION public.check_last_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.memberships WHERE role = 'admin' AND id <> OLD.id)
+  THEN
+    RAISE EXCEPTION 'At least one admin is required';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_last_admin_trigger
+BEFORE UPDATE OR DELETE ON public.memberships
+FOR EACH ROW
+EXECUTE FUNCTION public.check_last_admin();
+
+-- Anonymous visitors only read what embeds need, through the policies below
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon;
+GRANT SELECT ON TABLE public.charts, public.chart_highlights, public.metrics, public.metric_data,
+  public.notes, public.regions, public.sources TO anon;
+ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA public REVOKE ALL ON TABLES FROM anon;
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chart_highlights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.charts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.file_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.files ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.metric_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.metric_data_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pending_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.region_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.regions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+-- Published content, readable by everyone
+CREATE POLICY "Charts are readable by everyone" ON public.charts
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Chart highlights are readable by everyone" ON public.chart_highlights
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Metrics are readable by everyone" ON public.metrics
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Notes are readable by everyone" ON public.notes
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Regions are readable by everyone" ON public.regions
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Sources are readable by everyone" ON public.sources
+  FOR SELECT TO anon, authenticated USING (true);
+
+-- Drafts and private data are only visible to the people working on them
+CREATE POLICY "Public data is readable by everyone" ON public.metric_data
+  FOR SELECT TO anon, authenticated USING (status = 'public' OR public.has_role('editor'));
+
+-- Reference data, readable by members
+CREATE POLICY "Categories are readable by members" ON public.categories
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Tags are readable by members" ON public.tags
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Metric data tags are readable by members" ON public.metric_data_tags
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Region aliases are readable by members" ON public.region_aliases
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Profiles are readable by members" ON public.profiles
+  FOR SELECT TO authenticated USING (public.has_role('viewer') OR id = auth.uid());
+CREATE POLICY "Memberships are readable by their user and admins" ON public.memberships
+  FOR SELECT TO authenticated USING (user_id = auth.uid() OR public.has_role('admin'));
+
+-- Imports belong to editors
+CREATE POLICY "Files are managed by editors" ON public.files
+  FOR SELECT TO authenticated USING (public.has_role('editor'));
+CREATE POLICY "Files are uploaded by editors" ON public.files
+  FOR INSERT TO authenticated WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Files are updated by editors" ON public.files
+  FOR UPDATE TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Files are deleted by admins" ON public.files
+  FOR DELETE TO authenticated USING (public.has_role('admin'));
+CREATE POLICY "File tags are managed by editors" ON public.file_tags
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Pending imports are managed by editors" ON public.pending_imports
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Import changes are managed by editors" ON public.import_changes
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Import chunks are managed by editors" ON public.import_chunks
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Import jobs are managed by editors" ON public.import_jobs
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+
+-- Metrics are edited by editors and deleted by admins
+CREATE POLICY "Metrics are created by editors" ON public.metrics
+  FOR INSERT TO authenticated WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Metrics are updated by editors" ON public.metrics
+  FOR UPDATE TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Metrics are deleted by admins" ON public.metrics
+  FOR DELETE TO authenticated USING (public.has_role('admin'));
+
+-- Editors write drafts, publishing (or unpublishing) and deleting data is left to admins
+CREATE POLICY "Drafts are created by editors" ON public.metric_data
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_role('admin') OR (public.has_role('editor') AND status = 'draft'));
+CREATE POLICY "Drafts are updated by editors" ON public.metric_data
+  FOR UPDATE TO authenticated
+  USING (public.has_role('admin') OR (public.has_role('editor') AND status = 'draft'))
+  WITH CHECK (public.has_role('admin') OR (public.has_role('editor') AND status = 'draft'));
+CREATE POLICY "Data is deleted by admins" ON public.metric_data
+  FOR DELETE TO authenticated USING (public.has_role('admin'));
+CREATE POLICY "Metric data tags are managed by editors" ON public.metric_data_tags
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+
+-- Charts and their annotations are editorial content
+CREATE POLICY "Charts are managed by editors" ON public.charts
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Chart highlights are managed by editors" ON public.chart_highlights
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Notes are managed by editors" ON public.notes
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Tags are managed by editors" ON public.tags
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Sources are managed by editors" ON public.sources
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+CREATE POLICY "Categories are managed by editors" ON public.categories
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
+
+-- Regions shape every aggregation, they are managed by admins
+CREATE POLICY "Regions are managed by admins" ON public.regions
+  FOR ALL TO authenticated USING (public.has_role('admin')) WITH CHECK (public.has_role('admin'));
+CREATE POLICY "Region aliases are managed by admins" ON public.region_aliases
+  FOR ALL TO authenticated USING (public.has_role('admin')) WITH CHECK (public.has_role('admin'));
+
+-- Users edit their own profile, admins manage memberships
+CREATE POLICY "Users update their own profile" ON public.profiles
+  FOR UPDATE TO authenticated USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+CREATE POLICY "Memberships are managed by admins" ON public.memberships
+  FOR ALL TO authenticated USING (public.has_role('admin')) WITH CHECK (public.has_role('admin'));
+
+-- Uploaded spreadsheets and import reports
+CREATE POLICY "Import files are read by editors" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'metrics-import' AND public.has_role('editor'));
+CREATE POLICY "Import files are uploaded by editors" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'metrics-import' AND public.has_role('editor'));
+
+-- Worker functions are reserved to the service role. Functions are executable by PUBLIC by
+-- default, which anon and authenticated inherit.
+REVOKE ALL ON FUNCTION public.claim_import_jobs(text, integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_import_job(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_import_file(public.import_jobs) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.wake_import_worker() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.refresh_metric_stats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_import_jobs(text, integer, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_import_job(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_import_file(public.import_jobs) TO service_role;
+GRANT EXECUTE ON FUNCTION public.wake_import_worker() TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_metric_stats() TO service_role;
+
+REVOKE ALL ON FUNCTION public.enqueue_import_job(uuid, text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.undo_import(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_import_job(uuid, text, jsonb) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.undo_import(uuid, boolean) TO authenticated, service_role;
+
+-- Queue a job for a file, or return the one already waiting or running
+CREATE OR REPLACE FUNCTION public.enqueue_import_job(
+  p_file_id uuid,
+  p_kind text DEFAULT 'process',
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.import_jobs AS $$
+DECLARE
+  v_job public.import_jobs;
+BEGIN
+  PERFORM public.require_role('editor');
+
+  -- Processing the file again would replace a committed import, which could not be undone anymore
+  IF EXISTS (
+    SELECT 1 FROM public.pending_imports WHERE file_id = p_file_id AND status = 'committed'
+  ) THEN
+    RAISE EXCEPTION 'The import of file % must be undone before processing it again', p_file_id
+      USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.import_jobs (file_id, kind, payload)
+  VALUES (p_file_id, p_kind, COALESCE(p_payload, '{}'::jsonb))
+  ON CONFLICT (file_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO v_job;
+
+  -- Concurrent calls for a file all get the job inserted by the first one
+  IF NOT FOUND THEN
+    SELECT * INTO v_job
+    FROM public.import_jobs
+    WHERE file_id = p_file_id AND status IN ('queued', 'running');
+
+    RETURN v_job;
+  END IF;
+
+  UPDATE public.files
+  SET processing_status = 'pending'
+  WHERE id = p_file_id;
+
+  PERFORM public.wake_import_worker();
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Undo everything a committed import wrote: rows it created are deleted, rows it
+-- overwrote are restored, and metrics it created are deleted once empty.
+-- Without p_force, nothing is changed if some rows have been edited or published since.
+-- Editors undo their imports, taking back published data is left to admins.
+CREATE OR REPLACE FUNCTION public.undo_import(p_file_id uuid, p_force boolean DEFAULT false)
+RETURNS jsonb AS $$
+DECLARE
+  v_committed_at timestamp with time zone;
+  v_edited integer;
+  v_published integer;
+  v_deleted integer;
+  v_restored integer;
+  v_deleted_metrics integer;
+BEGIN
+  PERFORM public.require_role('editor');
+
+  SELECT reviewed_at INTO v_committed_at
+  FROM public.pending_imports
+  WHERE file_id = p_file_id AND status = 'committed';
+
+  IF v_committed_at IS NULL THEN
+    RAISE EXCEPTION 'No committed import found for file %', p_file_id;
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE updated_at > v_committed_at),
+    count(*) FILTER (WHERE status = 'public')
+  INTO v_edited, v_published
+  FROM public.metric_data
+  WHERE metadata->>'source_file_id' = p_file_id::text;
+
+  IF (v_edited > 0 OR v_published > 0) AND NOT p_force THEN
+    RETURN jsonb_build_object(
+      'status', 'needs_confirmation',
+      'edited', v_edited,
+      'published', v_published
+    );
+  END IF;
+
+  IF v_published > 0 THEN
+    PERFORM public.require_role('admin');
+  END IF;
+
+  -- Rows created by the import
+  DELETE FROM public.metric_data md
+  WHERE md.metadata->>'source_file_id' = p_file_id::text
+    AND NOT EXISTS (
+      SELECT 1 FROM public.import_changes ic
+      WHERE ic.file_id = p_file_id AND ic.metric_data_id = md.id
+    );
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Rows overwritten by the import
+  UPDATE public.metric_data md
+  SET
+    value = ic.previous_value,
+    status = ic.previous_status,
+    metadata = ic.previous_metadata,
+    updated_at = now()
+  FROM public.import_changes ic
+  WHERE ic.file_id = p_file_id
+    AND ic.metric_data_id = md.id
+    AND md.metadata->>'source_file_id' = p_file_id::text;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  -- Metrics created by the import, unless another import has data in them
+  DELETE FROM public.metrics m
+  WHERE m.metadata->>'source_file_id' = p_file_id::text
+    AND NOT EXISTS (SELECT 1 FROM public.metric_data md WHERE md.metric_id = m.id);
+  GET DIAGNOSTICS v_deleted_metrics = ROW_COUNT;
+
+  DELETE FROM public.import_changes WHERE file_id = p_file_id;
+
+  UPDATE public.pending_imports
+  SET status = 'reverted', updated_at = now()
+  WHERE file_id = p_file_id;
+
+  UPDATE public.files
+  SET processing_status = 'reverted'
+  WHERE id = p_file_id;
+
+  RETURN jsonb_build_object(
+    'status', 'reverted',
+    'deleted', v_deleted,
+    'restored', v_restored,
+    'deleted_metrics', v_deleted_metrics
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,204 @@
+-- Published view of the series: with p_public_only, only public data points are aggregated (and
+-- rolled up), whoever the caller is. Embeds use it, so that a signed-in editor sees the same
+-- values as the public.
+
+DROP FUNCTION IF EXISTS public.get_metric_series(uuid[], uuid[], date, date, metric_frequency, text, boolean);
+DROP FUNCTION IF EXISTS public.get_rolled_up_metric_data(uuid[], uuid[], date, date);
+
+-- Values of metrics at the requested regions (all regions when null). A region without data of
+-- its own at a date gets the roll-up of its children, computed with the roll-up method of the
+-- metric: sum, average, or average weighted by the population of the children (plain average when
+-- no child has a known population). Points without region are only returned for all regions.
+-- With p_public_only, other statuses are left out before the roll-up.
+--
+-- Roll-ups are linear, so the value of a region is the sum of the values found below it, each
+-- weighted by the product of the shares of the regions on the way down.
+CREATE OR REPLACE FUNCTION public.get_rolled_up_metric_data(
+  p_metric_ids uuid[],
+  p_region_ids uuid[] DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_public_only boolean DEFAULT false
+)
+RETURNS TABLE (metric_id uuid, date date, region_id uuid, value numeric) AS $$
+  WITH RECURSIVE tree AS (
+    -- The requested regions and every region below them, with their path from the top
+    SELECT r.id, r.parent_id, r.population, ARRAY[r.id] AS path
+    FROM public.regions r
+    WHERE (p_region_ids IS NULL AND r.parent_id IS NULL) OR r.id = ANY (p_region_ids)
+    UNION ALL
+    SELECT child.id, child.parent_id, child.population, tree.path || child.id
+    FROM public.regions child
+    JOIN tree ON child.parent_id = tree.id
+    WHERE NOT child.id = ANY (tree.path)
+  ),
+  nodes AS (
+    SELECT DISTINCT tree.id, tree.parent_id, tree.population
+    FROM tree
+  ),
+  own AS (
+    SELECT md.metric_id, md.date, md.region_id, md.value
+    FROM public.metric_data md
+    WHERE md.metric_id = ANY (p_metric_ids)
+      AND md.region_id IN (SELECT nodes.id FROM nodes)
+      AND (p_from IS NULL OR md.date >= p_from)
+      AND (p_to IS NULL OR md.date <= p_to)
+      AND (NOT p_public_only OR md.status = 'public')
+  ),
+  -- Regions with a value at a date: their own or one rolled up from below
+  filled AS (
+    SELECT DISTINCT ancestor.id AS region_id, own.metric_id, own.date
+    FROM tree
+    CROSS JOIN LATERAL unnest(tree.path) AS ancestor(id)
+    JOIN own ON own.region_id = tree.id
+  ),
+  -- Share of each region with a value in the roll-up of its parent
+  shares AS (
+    SELECT
+      child.parent_id,
+      child.id AS region_id,
+      filled.metric_id,
+      filled.date,
+      CASE
+        WHEN m.rollup = 'sum' THEN 1
+        WHEN m.rollup = 'weighted_avg' AND sum(child.population) OVER siblings <> 0
+          THEN COALESCE(child.population, 0)::numeric / sum(child.population) OVER siblings
+        ELSE 1.0 / count(*) OVER siblings
+      END AS share
+    FROM filled
+    JOIN nodes child ON child.id = filled.region_id
+    JOIN public.metrics m ON m.id = filled.metric_id
+    WINDOW siblings AS (PARTITION BY child.parent_id, filled.metric_id, filled.date)
+  ),
+  -- Walk down from each returned region through the regions without data of their own
+  rolled AS (
+    SELECT nodes.id AS target_id, filled.metric_id, filled.date, nodes.id, 1::numeric AS weight
+    FROM nodes
+    JOIN filled ON filled.region_id = nodes.id
+    WHERE p_region_ids IS NULL OR nodes.id = ANY (p_region_ids)
+    UNION ALL
+    SELECT rolled.target_id, rolled.metric_id, rolled.date, shares.region_id,
+      rolled.weight * shares.share
+    FROM rolled
+    JOIN shares
+      ON shares.parent_id = rolled.id
+      AND shares.metric_id = rolled.metric_id
+      AND shares.date = rolled.date
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM own
+      WHERE own.region_id = rolled.id
+        AND own.metric_id = rolled.metric_id
+        AND own.date = rolled.date
+    )
+  )
+  SELECT rolled.metric_id, rolled.date, rolled.target_id, sum(rolled.weight * own.value)
+  FROM rolled
+  JOIN own
+    ON own.region_id = rolled.id
+    AND own.metric_id = rolled.metric_id
+    AND own.date = rolled.date
+  GROUP BY rolled.metric_id, rolled.date, rolled.target_id
+  UNION ALL
+  SELECT md.metric_id, md.date, md.region_id, md.value
+  FROM public.metric_data md
+  WHERE p_region_ids IS NULL
+    AND md.region_id IS NULL
+    AND md.metric_id = ANY (p_metric_ids)
+    AND (p_from IS NULL OR md.date >= p_from)
+    AND (p_to IS NULL OR md.date <= p_to)
+    AND (NOT p_public_only OR md.status = 'public');
+$$ LANGUAGE sql STABLE;
+
+-- Series of metrics aggregated by period (first day of the period at p_frequency). With
+-- p_by_region, each requested region gets its own series; otherwise the topmost requested regions
+-- are combined with p_aggregation (sum, avg, min, max or weighted_avg by region population), so
+-- that a region and its children aren't counted twice.
+CREATE OR REPLACE FUNCTION public.get_metric_series(
+  p_metric_ids uuid[],
+  p_region_ids uuid[] DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_frequency metric_frequency DEFAULT 'annual',
+  p_aggregation text DEFAULT 'sum',
+  p_by_region boolean DEFAULT false,
+  p_public_only boolean DEFAULT false
+)
+RETURNS TABLE (period date, metric_id uuid, region_id uuid, value numeric) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_aggregation NOT IN ('sum', 'avg', 'min', 'max', 'weighted_avg') THEN
+    RAISE EXCEPTION 'Unknown aggregation %', p_aggregation;
+  END IF;
+
+  RETURN QUERY
+  WITH displayed AS (
+    SELECT r.id, r.parent_id, r.population
+    FROM public.regions r
+    WHERE p_region_ids IS NULL OR r.id = ANY (p_region_ids)
+  ),
+  -- Requested regions with a requested ancestor
+  covered AS (
+    WITH RECURSIVE ancestors AS (
+      SELECT d.id, d.parent_id, ARRAY[d.id] AS path
+      FROM displayed d
+      UNION ALL
+      SELECT a.id, r.parent_id, a.path || r.id
+      FROM ancestors a
+      JOIN public.regions r ON r.id = a.parent_id
+      WHERE NOT r.id = ANY (a.path)
+    )
+    SELECT DISTINCT a.id
+    FROM ancestors a
+    JOIN displayed d ON d.id = a.parent_id
+  ),
+  points AS (
+    SELECT
+      date_trunc(
+        CASE p_frequency
+          WHEN 'quarterly' THEN 'quarter'
+          WHEN 'monthly' THEN 'month'
+          WHEN 'daily' THEN 'day'
+          ELSE 'year'
+        END,
+        data.date::timestamp
+      )::date AS period,
+      data.metric_id,
+      data.region_id,
+      data.value,
+      d.population
+    FROM public.get_rolled_up_metric_data(
+      p_metric_ids, p_region_ids, p_from, p_to, p_public_only
+    ) data
+    LEFT JOIN displayed d ON d.id = data.region_id
+    WHERE p_by_region
+       OR data.region_id IS NULL
+       OR NOT EXISTS (SELECT 1 FROM covered c WHERE c.id = data.region_id)
+  )
+  SELECT
+    points.period,
+    points.metric_id,
+    CASE WHEN p_by_region THEN points.region_id END,
+    CASE p_aggregation
+      WHEN 'avg' THEN avg(points.value)
+      WHEN 'min' THEN min(points.value)
+      WHEN 'max' THEN max(points.value)
+      WHEN 'weighted_avg' THEN COALESCE(
+        sum(points.value * points.population) / NULLIF(sum(points.population), 0),
+        avg(points.value)
+      )
+      ELSE sum(points.value)
+    END
+  FROM points
+  GROUP BY points.period, points.metric_id, CASE WHEN p_by_region THEN points.region_id END
+  ORDER BY points.period;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT ALL ON FUNCTION public.get_rolled_up_metric_data(uuid[], uuid[], date, date, boolean) TO anon;
+GRANT ALL ON FUNCTION public.get_rolled_up_metric_data(uuid[], uuid[], date, date, boolean) TO authenticated;
+GRANT ALL ON FUNCTION public.get_rolled_up_metric_data(uuid[], uuid[], date, date, boolean) TO service_role;
+
+GRANT ALL ON FUNCTION public.get_metric_series(uuid[], uuid[], date, date, metric_frequency, text, boolean, boolean) TO anon;
+GRANT ALL ON FUNCTION public.get_metric_series(uuid[], uuid[], date, date, metric_frequency, text, boolean, boolean) TO authenticated;
+GRANT ALL ON FUNCTION public.get_metric_series(uuid[], uuid[], date, date, metric_frequency, text, boolean, boolean) TO service_role;
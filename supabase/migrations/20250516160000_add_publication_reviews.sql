@@ -0,0 +1,220 @@
+-- Editorial workflow: editors submit the drafts of a metric for review, admins approve (publish) or
+-- reject them with a comment. Every publication records who published which value and when.
+
+-- Create the publication_review_status enum type
+CREATE TYPE publication_review_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- Last published state of each point. A draft overwriting a public point keeps the published value,
+-- so that reviewers can compare against it.
+ALTER TABLE public.metric_data
+  ADD COLUMN published_value numeric,
+  ADD COLUMN published_at timestamp with time zone,
+  ADD COLUMN published_by uuid;
+
+ALTER TABLE ONLY public.metric_data
+    ADD CONSTRAINT metric_data_published_by_fkey FOREIGN KEY (published_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+UPDATE public.metric_data
+SET published_value = value, published_at = updated_at
+WHERE status = 'public';
+
+-- Public points already overwritten by an import
+UPDATE public.metric_data md
+SET published_value = ic.previous_value
+FROM public.import_changes ic
+WHERE ic.metric_data_id = md.id
+  AND ic.previous_status = 'public'
+  AND md.status <> 'public';
+
+-- Record publications, whichever way the status is changed
+CREATE OR REPLACE FUNCTION public.record_metric_data_publication()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'public'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'public' OR NEW.value IS DISTINCT FROM OLD.value)
+  THEN
+    NEW.published_value := NEW.value;
+    NEW.published_at := now();
+    NEW.published_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_metric_data_publication_trigger
+BEFORE INSERT OR UPDATE OF status, value ON public.metric_data
+FOR EACH ROW
+EXECUTE FUNCTION public.record_metric_data_publication();
+
+CREATE TABLE IF NOT EXISTS public.publication_reviews (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  metric_id uuid NOT NULL,
+  status publication_review_status NOT NULL DEFAULT 'pending',
+  submitted_by uuid,
+  submitted_at timestamp with time zone DEFAULT now() NOT NULL,
+  submission_comment text,
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  review_comment text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.publication_reviews
+    ADD CONSTRAINT publication_reviews_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.publication_reviews
+    ADD CONSTRAINT publication_reviews_metric_id_fkey FOREIGN KEY (metric_id) REFERENCES public.metrics(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.publication_reviews
+    ADD CONSTRAINT publication_reviews_submitted_by_fkey FOREIGN KEY (submitted_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.publication_reviews
+    ADD CONSTRAINT publication_reviews_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX publication_reviews_status_idx ON public.publication_reviews (status, submitted_at);
+
+-- Points of a review, with the values they had when submitted
+CREATE TABLE IF NOT EXISTS public.publication_review_items (
+  review_id uuid NOT NULL,
+  metric_data_id uuid NOT NULL,
+  value numeric NOT NULL,
+  published_value numeric
+);
+
+ALTER TABLE ONLY public.publication_review_items
+    ADD CONSTRAINT publication_review_items_pkey PRIMARY KEY (review_id, metric_data_id);
+
+ALTER TABLE ONLY public.publication_review_items
+    ADD CONSTRAINT publication_review_items_review_id_fkey FOREIGN KEY (review_id) REFERENCES public.publication_reviews(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.publication_review_items
+    ADD CONSTRAINT publication_review_items_metric_data_id_fkey FOREIGN KEY (metric_data_id) REFERENCES public.metric_data(id) ON DELETE CASCADE;
+
+GRANT ALL ON TABLE public.publication_reviews TO postgres;
+GRANT SELECT ON TABLE public.publication_reviews TO authenticated;
+GRANT ALL ON TABLE public.publication_reviews TO service_role;
+
+GRANT ALL ON TABLE public.publication_review_items TO postgres;
+GRANT SELECT ON TABLE public.publication_review_items TO authenticated;
+GRANT ALL ON TABLE public.publication_review_items TO service_role;
+
+-- Reviews are written through the functions below
+ALTER TABLE public.publication_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.publication_review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Publication reviews are readable by editors" ON public.publication_reviews
+  FOR SELECT TO authenticated USING (public.has_role('editor'));
+CREATE POLICY "Publication review items are readable by editors" ON public.publication_review_items
+  FOR SELECT TO authenticated USING (public.has_role('editor'));
+
+-- Submit the drafts of a metric that aren't already waiting for a review
+CREATE OR REPLACE FUNCTION public.submit_publication_review(
+  p_metric_id uuid,
+  p_comment text DEFAULT NULL
+)
+RETURNS public.publication_reviews AS $$
+DECLARE
+  v_review public.publication_reviews;
+BEGIN
+  PERFORM public.require_role('editor');
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.metric_data md
+    WHERE md.metric_id = p_metric_id
+      AND md.status = 'draft'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.publication_review_items i
+        JOIN public.publication_reviews r ON r.id = i.review_id
+        WHERE i.metric_data_id = md.id AND r.status = 'pending'
+      )
+  ) THEN
+    RAISE EXCEPTION 'No drafts to submit for metric %', p_metric_id;
+  END IF;
+
+  INSERT INTO public.publication_reviews (metric_id, submitted_by, submission_comment)
+  VALUES (p_metric_id, auth.uid(), NULLIF(trim(p_comment), ''))
+  RETURNING * INTO v_review;
+
+  INSERT INTO public.publication_review_items (review_id, metric_data_id, value, published_value)
+  SELECT v_review.id, md.id, md.value, md.published_value
+  FROM public.metric_data md
+  WHERE md.metric_id = p_metric_id
+    AND md.status = 'draft'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.publication_review_items i
+      JOIN public.publication_reviews r ON r.id = i.review_id
+      WHERE i.metric_data_id = md.id AND r.status = 'pending' AND r.id <> v_review.id
+    );
+
+  RETURN v_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve (publish) or reject a pending review. Points edited since the submission aren't
+-- published, they have to be submitted again. A rejection has to be explained.
+CREATE OR REPLACE FUNCTION public.review_publication(
+  p_review_id uuid,
+  p_approve boolean,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_review public.publication_reviews;
+  v_published integer := 0;
+  v_total integer;
+BEGIN
+  PERFORM public.require_role('admin');
+
+  SELECT * INTO v_review
+  FROM public.publication_reviews
+  WHERE id = p_review_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'No pending review %', p_review_id;
+  END IF;
+
+  IF NOT p_approve AND NULLIF(trim(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'A comment is required to reject a review';
+  END IF;
+
+  SELECT count(*) INTO v_total
+  FROM public.publication_review_items
+  WHERE review_id = p_review_id;
+
+  IF p_approve THEN
+    UPDATE public.metric_data md
+    SET status = 'public', updated_at = now()
+    FROM public.publication_review_items i
+    WHERE i.review_id = p_review_id
+      AND i.metric_data_id = md.id
+      AND md.status = 'draft'
+      AND md.value = i.value;
+    GET DIAGNOSTICS v_published = ROW_COUNT;
+  END IF;
+
+  UPDATE public.publication_reviews
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END::publication_review_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = NULLIF(trim(p_comment), ''),
+      updated_at = now()
+  WHERE id = p_review_id;
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    'published', v_published,
+    'skipped', CASE WHEN p_approve THEN v_total - v_published ELSE 0 END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.submit_publication_review(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.review_publication(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_publication_review(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_publication(uuid, boolean, text) TO authenticated;
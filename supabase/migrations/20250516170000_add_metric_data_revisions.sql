@@ -0,0 +1,178 @@
+-- Revision history of metric_data: every insert or change of a point is recorded as a new version,
+-- with who made it and why, so that corrections can be traced and reverted.
+
+CREATE TABLE IF NOT EXISTS public.metric_data_revisions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  metric_data_id uuid NOT NULL,
+  version integer NOT NULL,
+  old_value numeric,
+  new_value numeric NOT NULL,
+  old_status metric_data_status,
+  new_status metric_data_status NOT NULL,
+  old_region_id uuid,
+  new_region_id uuid,
+  old_date date,
+  new_date date NOT NULL,
+  reason text,
+  reverted_revision_id uuid,
+  changed_by uuid,
+  changed_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.metric_data_revisions
+    ADD CONSTRAINT metric_data_revisions_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.metric_data_revisions
+    ADD CONSTRAINT metric_data_revisions_metric_data_id_version_key UNIQUE (metric_data_id, version);
+
+ALTER TABLE ONLY public.metric_data_revisions
+    ADD CONSTRAINT metric_data_revisions_metric_data_id_fkey FOREIGN KEY (metric_data_id) REFERENCES public.metric_data(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.metric_data_revisions
+    ADD CONSTRAINT metric_data_revisions_reverted_revision_id_fkey FOREIGN KEY (reverted_revision_id) REFERENCES public.metric_data_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.metric_data_revisions
+    ADD CONSTRAINT metric_data_revisions_changed_by_fkey FOREIGN KEY (changed_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+GRANT ALL ON TABLE public.metric_data_revisions TO postgres;
+GRANT SELECT ON TABLE public.metric_data_revisions TO authenticated;
+GRANT ALL ON TABLE public.metric_data_revisions TO service_role;
+
+-- Revisions are only written by the trigger below, and may hold draft values
+ALTER TABLE public.metric_data_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Metric data revisions are readable by editors" ON public.metric_data_revisions
+  FOR SELECT TO authenticated USING (public.has_role('editor'));
+
+-- Record a version whenever a point is created or its value, status, region or period change.
+-- The reason (and the reverted revision) are passed through transaction settings, see
+-- update_metric_data below.
+CREATE OR REPLACE FUNCTION public.record_metric_data_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.value IS NOT DISTINCT FROM OLD.value
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.region_id IS NOT DISTINCT FROM OLD.region_id
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.metric_data_revisions (
+    metric_data_id, version,
+    old_value, new_value, old_status, new_status,
+    old_region_id, new_region_id, old_date, new_date,
+    reason, reverted_revision_id, changed_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(max(r.version), 0) + 1,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.value END, NEW.value,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.region_id END, NEW.region_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.date END, NEW.date,
+    NULLIF(current_setting('app.revision_reason', true), ''),
+    NULLIF(current_setting('app.reverted_revision_id', true), '')::uuid,
+    auth.uid()
+  FROM public.metric_data_revisions r
+  WHERE r.metric_data_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_metric_data_revision_trigger
+AFTER INSERT OR UPDATE ON public.metric_data
+FOR EACH ROW
+EXECUTE FUNCTION public.record_metric_data_revision();
+
+-- Existing points start their history at their current state
+INSERT INTO public.metric_data_revisions (metric_data_id, version, new_value, new_status, new_region_id, new_date, changed_at)
+SELECT id, 1, value, status, region_id, date, updated_at
+FROM public.metric_data;
+
+-- Edit a point with the reason of the change. Runs with the rights of the caller, so editors
+-- are still limited to drafts.
+CREATE OR REPLACE FUNCTION public.update_metric_data(
+  p_id uuid,
+  p_value numeric,
+  p_region_id uuid,
+  p_date date,
+  p_status metric_data_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS public.metric_data AS $$
+DECLARE
+  v_metric_data public.metric_data;
+BEGIN
+  PERFORM set_config('app.revision_reason', COALESCE(trim(p_reason), ''), true);
+
+  UPDATE public.metric_data
+  SET value = p_value,
+      region_id = p_region_id,
+      date = p_date,
+      status = p_status,
+      updated_at = now()
+  WHERE id = p_id
+  RETURNING * INTO v_metric_data;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Data point % not found or not editable', p_id;
+  END IF;
+
+  PERFORM set_config('app.revision_reason', '', true);
+
+  RETURN v_metric_data;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Restore a point as it was at a given version: value, status, region and period. Runs with the
+-- rights of the caller, so editors can only restore a draft as a draft.
+CREATE OR REPLACE FUNCTION public.revert_metric_data_revision(
+  p_revision_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS public.metric_data AS $$
+DECLARE
+  v_revision public.metric_data_revisions;
+  v_metric_data public.metric_data;
+BEGIN
+  SELECT * INTO v_revision
+  FROM public.metric_data_revisions
+  WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  PERFORM set_config('app.revision_reason', COALESCE(trim(p_reason), ''), true);
+  PERFORM set_config('app.reverted_revision_id', v_revision.id::text, true);
+
+  UPDATE public.metric_data
+  SET value = v_revision.new_value,
+      status = v_revision.new_status,
+      region_id = v_revision.new_region_id,
+      date = v_revision.new_date,
+      updated_at = now()
+  WHERE id = v_revision.metric_data_id
+  RETURNING * INTO v_metric_data;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Data point % not found or not editable', v_revision.metric_data_id;
+  END IF;
+
+  PERFORM set_config('app.revision_reason', '', true);
+  PERFORM set_config('app.reverted_revision_id', '', true);
+
+  RETURN v_metric_data;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.record_metric_data_revision() FROM anon, authenticated;
+REVOKE ALL ON FUNCTION public.update_metric_data(uuid, numeric, uuid, date, metric_data_status, text) FROM anon;
+REVOKE ALL ON FUNCTION public.revert_metric_data_revision(uuid, text) FROM anon;
+GRANT ALL ON FUNCTION public.update_metric_data(uuid, numeric, uuid, date, metric_data_status, text) TO authenticated;
+GRANT ALL ON FUNCTION public.update_metric_data(uuid, numeric, uuid, date, metric_data_status, text) TO service_role;
+GRANT ALL ON FUNCTION public.revert_metric_data_revision(uuid, text) TO authenticated;
+GRANT ALL ON FUNCTION public.revert_metric_data_revision(uuid, text) TO service_role;
@@ -0,0 +1,132 @@
+-- Audit trail of the write operations on the editorial tables. It is written by triggers, so every
+-- change is recorded whether it comes from the app, the import worker or the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid DEFAULT gen_random_uuid() NOT NULL,
+  table_name text NOT NULL,
+  record_id uuid,
+  -- Readable name of the entity at the time of the change
+  record_label text,
+  operation text NOT NULL,
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  user_id uuid,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT audit_log_operation_check CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE'))
+);
+
+ALTER TABLE ONLY public.audit_log
+    ADD CONSTRAINT audit_log_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.audit_log
+    ADD CONSTRAINT audit_log_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_table_name_record_id_idx ON public.audit_log (table_name, record_id);
+CREATE INDEX audit_log_user_id_idx ON public.audit_log (user_id);
+
+GRANT ALL ON TABLE public.audit_log TO postgres;
+GRANT SELECT ON TABLE public.audit_log TO authenticated;
+GRANT ALL ON TABLE public.audit_log TO service_role;
+
+-- The log is append-only, nobody can change or delete it through the API
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Audit log is readable by admins" ON public.audit_log
+  FOR SELECT TO authenticated USING (public.has_role('admin'));
+
+-- Record a row change, with the fields an update changed
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Region geometries are too large to be copied on every change
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'geometry' END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'geometry' END;
+  v_record jsonb := COALESCE(v_new, v_old);
+  v_changed_fields text[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_changed_fields
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    -- Only the timestamp was touched
+    IF v_changed_fields IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, record_label, operation, old_data, new_data, changed_fields, user_id
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (v_record ->> 'id')::uuid,
+    COALESCE(
+      v_record ->> 'name',
+      v_record ->> 'filename',
+      (SELECT p.email FROM public.profiles p WHERE p.id = (v_record ->> 'user_id')::uuid)
+    ),
+    TG_OP,
+    v_old,
+    v_new,
+    v_changed_fields,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Data points are versioned by metric_data_revisions, only their deletions are logged here, as one
+-- entry per metric and statement so that deleting a metric doesn't flood the log
+CREATE OR REPLACE FUNCTION public.audit_metric_data_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.audit_log (table_name, record_id, record_label, operation, old_data, user_id)
+  SELECT
+    'metric_data',
+    d.metric_id,
+    m.name,
+    'DELETE',
+    jsonb_build_object('metric_id', d.metric_id, 'count', count(*)),
+    auth.uid()
+  FROM deleted_rows d
+  LEFT JOIN public.metrics m ON m.id = d.metric_id
+  GROUP BY d.metric_id, m.name;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_metrics_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.metrics
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_charts_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.charts
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- The processing of a file rewrites its metadata (progress, chunk results) many times, only
+-- changes of its status, name or classification are logged
+CREATE TRIGGER audit_files_trigger
+AFTER INSERT OR UPDATE OF processing_status, filename, source_id, category_id OR DELETE ON public.files
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_regions_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.regions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_memberships_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.memberships
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_metric_data_deletion_trigger
+AFTER DELETE ON public.metric_data
+REFERENCING OLD TABLE AS deleted_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.audit_metric_data_deletion();
+
+REVOKE ALL ON FUNCTION public.audit_row_change() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.audit_metric_data_deletion() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,241 @@
+-- Trash: deleting a metric or a chart only flags it. Trashed items are hidden from everyone but
+-- editors, can be restored, and are purged for good once the retention period is over.
+
+ALTER TABLE public.metrics
+  ADD COLUMN deleted_at timestamp with time zone,
+  ADD COLUMN deleted_by uuid;
+
+ALTER TABLE ONLY public.metrics
+    ADD CONSTRAINT metrics_deleted_by_fkey FOREIGN KEY (deleted_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.charts
+  ADD COLUMN deleted_at timestamp with time zone,
+  ADD COLUMN deleted_by uuid;
+
+ALTER TABLE ONLY public.charts
+    ADD CONSTRAINT charts_deleted_by_fkey FOREIGN KEY (deleted_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX metrics_deleted_at_idx ON public.metrics (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX charts_deleted_at_idx ON public.charts (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Settings of the application, a single row
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  id boolean DEFAULT true NOT NULL,
+  trash_retention_days integer DEFAULT 30 NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT app_settings_single_row CHECK (id),
+  CONSTRAINT app_settings_trash_retention_days_check CHECK (trash_retention_days > 0)
+);
+
+ALTER TABLE ONLY public.app_settings
+    ADD CONSTRAINT app_settings_pkey PRIMARY KEY (id);
+
+INSERT INTO public.app_settings (id) VALUES (true);
+
+GRANT ALL ON TABLE public.app_settings TO postgres;
+GRANT SELECT, UPDATE ON TABLE public.app_settings TO authenticated;
+GRANT ALL ON TABLE public.app_settings TO service_role;
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings are readable by members" ON public.app_settings
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Settings are updated by admins" ON public.app_settings
+  FOR UPDATE TO authenticated USING (public.has_role('admin')) WITH CHECK (public.has_role('admin'));
+
+-- Trashed content, and the data of trashed metrics, are only visible to editors
+DROP POLICY "Charts are readable by everyone" ON public.charts;
+CREATE POLICY "Charts are readable by everyone" ON public.charts
+  FOR SELECT TO anon, authenticated USING (deleted_at IS NULL OR public.has_role('editor'));
+
+DROP POLICY "Metrics are readable by everyone" ON public.metrics;
+CREATE POLICY "Metrics are readable by everyone" ON public.metrics
+  FOR SELECT TO anon, authenticated USING (deleted_at IS NULL OR public.has_role('editor'));
+
+DROP POLICY "Public data is readable by everyone" ON public.metric_data;
+CREATE POLICY "Public data is readable by everyone" ON public.metric_data
+  FOR SELECT TO anon, authenticated
+  USING (
+    (
+      status = 'public'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.metrics m WHERE m.id = metric_id AND m.deleted_at IS NOT NULL
+      )
+    )
+    OR public.has_role('editor')
+  );
+
+-- Move a metric to the trash, its data stays until the metric is purged
+CREATE OR REPLACE FUNCTION public.trash_metric(p_metric_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_role('admin');
+
+  UPDATE public.metrics
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_metric_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No metric % to delete', p_metric_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.trash_chart(p_chart_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_role('editor');
+
+  UPDATE public.charts
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_chart_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No chart % to delete', p_chart_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take an item out of the trash
+CREATE OR REPLACE FUNCTION public.restore_trash_item(p_item_type text, p_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_item_type = 'metric' THEN
+    PERFORM public.require_role('admin');
+    UPDATE public.metrics SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSIF p_item_type = 'chart' THEN
+    PERFORM public.require_role('editor');
+    UPDATE public.charts SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown trash item type %', p_item_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % % in the trash', p_item_type, p_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delete a trashed item for good, with the data of a metric
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_item_type text, p_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM public.require_role('admin');
+
+  IF p_item_type = 'metric' THEN
+    DELETE FROM public.metrics WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSIF p_item_type = 'chart' THEN
+    DELETE FROM public.charts WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown trash item type %', p_item_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % % in the trash', p_item_type, p_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purge the items trashed for longer than the retention period, run daily by pg_cron
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS jsonb AS $$
+DECLARE
+  v_retention interval;
+  v_metrics integer;
+  v_charts integer;
+BEGIN
+  SELECT make_interval(days => trash_retention_days) INTO v_retention
+  FROM public.app_settings;
+
+  DELETE FROM public.charts WHERE deleted_at < now() - v_retention;
+  GET DIAGNOSTICS v_charts = ROW_COUNT;
+
+  DELETE FROM public.metrics WHERE deleted_at < now() - v_retention;
+  GET DIAGNOSTICS v_metrics = ROW_COUNT;
+
+  RETURN jsonb_build_object('metrics', v_metrics, 'charts', v_charts);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule('purge-expired-trash', '0 3 * * *', 'SELECT public.purge_expired_trash()');
+
+-- Trashed items with what depends on them: the data points of a metric and the charts still
+-- showing it, the highlights of a chart
+CREATE OR REPLACE FUNCTION public.get_trash_items()
+RETURNS TABLE (
+  item_type text,
+  id uuid,
+  name text,
+  deleted_at timestamp with time zone,
+  deleted_by uuid,
+  purge_at timestamp with time zone,
+  data_count integer,
+  highlight_count integer,
+  charts jsonb
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_retention interval;
+BEGIN
+  PERFORM public.require_role('editor');
+
+  SELECT make_interval(days => trash_retention_days) INTO v_retention
+  FROM public.app_settings;
+
+  RETURN QUERY
+  SELECT
+    'metric'::text,
+    m.id,
+    m.name,
+    m.deleted_at,
+    m.deleted_by,
+    m.deleted_at + v_retention,
+    (SELECT count(*)::integer FROM public.metric_data md WHERE md.metric_id = m.id),
+    0,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name) ORDER BY c.name)
+        FROM public.charts c
+        WHERE c.deleted_at IS NULL
+          AND c.config -> 'metrics' ? m.id::text
+      ),
+      '[]'::jsonb
+    )
+  FROM public.metrics m
+  WHERE m.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT
+    'chart'::text,
+    c.id,
+    c.name,
+    c.deleted_at,
+    c.deleted_by,
+    c.deleted_at + v_retention,
+    0,
+    (SELECT count(*)::integer FROM public.chart_highlights h WHERE h.chart_id = c.id),
+    '[]'::jsonb
+  FROM public.charts c
+  WHERE c.deleted_at IS NOT NULL
+  ORDER BY 4 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE ALL ON FUNCTION public.trash_metric(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.trash_chart(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.restore_trash_item(text, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.purge_trash_item(text, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_trash_items() FROM PUBLIC, anon;
+GRANT ALL ON FUNCTION public.trash_metric(uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.trash_metric(uuid) TO service_role;
+GRANT ALL ON FUNCTION public.trash_chart(uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.trash_chart(uuid) TO service_role;
+GRANT ALL ON FUNCTION public.restore_trash_item(text, uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.restore_trash_item(text, uuid) TO service_role;
+GRANT ALL ON FUNCTION public.purge_trash_item(text, uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.purge_trash_item(text, uuid) TO service_role;
+GRANT ALL ON FUNCTION public.purge_expired_trash() TO service_role;
+GRANT ALL ON FUNCTION public.get_trash_items() TO authenticated;
+GRANT ALL ON FUNCTION public.get_trash_items() TO service_role;
@@ -0,0 +1,21 @@
+-- Notes annotate a metric, over a range of periods or on a single data point, and are shown on
+-- the charts and tables of the metric. Notes only had a data point, they now belong to a metric
+-- so that a note can cover several periods.
+
+ALTER TABLE public.notes
+  ADD COLUMN metric_id uuid,
+  ADD COLUMN updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+ALTER TABLE ONLY public.notes
+    ADD CONSTRAINT notes_metric_id_fkey FOREIGN KEY (metric_id) REFERENCES public.metrics(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.notes
+    ADD CONSTRAINT notes_visible_dates_check CHECK (visible_end_date >= visible_start_date);
+
+UPDATE public.notes n
+SET metric_id = md.metric_id
+FROM public.metric_data md
+WHERE md.id = n.metric_data_id;
+
+CREATE INDEX notes_metric_id_idx ON public.notes (metric_id);
+CREATE INDEX notes_metric_data_id_idx ON public.notes (metric_data_id);
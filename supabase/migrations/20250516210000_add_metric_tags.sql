@@ -0,0 +1,29 @@
+-- Tags could only be put on data points and imported files, metrics are now tagged too so that
+-- the explorer and the metric selectors can be filtered by tag.
+
+CREATE TABLE IF NOT EXISTS public.metric_tags (
+  metric_id uuid NOT NULL,
+  tag_id uuid NOT NULL
+);
+
+ALTER TABLE ONLY public.metric_tags
+    ADD CONSTRAINT metric_tags_pkey PRIMARY KEY (metric_id, tag_id);
+
+ALTER TABLE ONLY public.metric_tags
+    ADD CONSTRAINT metric_tags_metric_id_fkey FOREIGN KEY (metric_id) REFERENCES public.metrics(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.metric_tags
+    ADD CONSTRAINT metric_tags_tag_id_fkey FOREIGN KEY (tag_id) REFERENCES public.tags(id) ON DELETE CASCADE;
+
+CREATE INDEX metric_tags_tag_id_idx ON public.metric_tags (tag_id);
+
+GRANT ALL ON TABLE public.metric_tags TO postgres;
+GRANT ALL ON TABLE public.metric_tags TO authenticated;
+GRANT ALL ON TABLE public.metric_tags TO service_role;
+
+ALTER TABLE public.metric_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Metric tags are readable by members" ON public.metric_tags
+  FOR SELECT TO authenticated USING (public.has_role('viewer'));
+CREATE POLICY "Metric tags are managed by editors" ON public.metric_tags
+  FOR ALL TO authenticated USING (public.has_role('editor')) WITH CHECK (public.has_role('editor'));
@@ -0,0 +1,24 @@
+-- Sources become a registry managed from the app, with what is needed to cite them under charts.
+-- Metrics referenced their source from their metadata, they now have a source_id column, set from
+-- the source picked when their file was imported.
+
+ALTER TABLE public.sources
+  ADD COLUMN publisher text,
+  ADD COLUMN url text,
+  ADD COLUMN license text,
+  -- Citation with {name}, {publisher}, {url} and {license} placeholders
+  ADD COLUMN citation_template text,
+  ADD COLUMN updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+ALTER TABLE public.metrics ADD COLUMN source_id uuid;
+
+ALTER TABLE ONLY public.metrics
+    ADD CONSTRAINT metrics_source_id_fkey FOREIGN KEY (source_id) REFERENCES public.sources(id) ON DELETE SET NULL;
+
+UPDATE public.metrics m
+SET source_id = s.id,
+    metadata = m.metadata - 'source_id'
+FROM public.sources s
+WHERE s.id::text = m.metadata ->> 'source_id';
+
+CREATE INDEX metrics_source_id_idx ON public.metrics (source_id);
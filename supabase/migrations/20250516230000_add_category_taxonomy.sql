@@ -0,0 +1,110 @@
+-- Categories form a tree (domain -> category -> subcategory) that metrics are classified in. Metrics
+-- stored their domain, category and subcategory as free text in their metadata, they now have a
+-- category_id column pointing at the deepest of them.
+
+ALTER TABLE public.categories
+  ADD COLUMN parent_id uuid,
+  ADD COLUMN created_at timestamp with time zone DEFAULT now() NOT NULL,
+  ADD COLUMN updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+ALTER TABLE ONLY public.categories
+    ADD CONSTRAINT categories_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.categories
+    ADD CONSTRAINT categories_parent_id_check CHECK (parent_id IS NULL OR parent_id <> id);
+
+-- Names are unique among siblings only, two domains can both have an "Other" category
+ALTER TABLE ONLY public.categories DROP CONSTRAINT categories_name_key;
+
+ALTER TABLE ONLY public.categories
+    ADD CONSTRAINT categories_parent_id_name_key UNIQUE NULLS NOT DISTINCT (parent_id, name);
+
+CREATE INDEX categories_parent_id_idx ON public.categories (parent_id);
+
+-- A category can't be moved below itself: its ancestors are walked up from the new parent
+CREATE OR REPLACE FUNCTION public.check_category_hierarchy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Concurrent moves could each be valid alone and form a cycle together
+  PERFORM pg_advisory_xact_lock(hashtext('public.categories.parent_id'));
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id
+      FROM public.categories
+      WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category % can''t be placed below one of its own descendants', NEW.name
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_category_hierarchy_trigger
+BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.check_category_hierarchy();
+
+ALTER TABLE public.metrics ADD COLUMN category_id uuid;
+
+ALTER TABLE ONLY public.metrics
+    ADD CONSTRAINT metrics_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX metrics_category_id_idx ON public.metrics (category_id);
+
+-- Move the metadata strings into the tree. A missing level is skipped, so a metric with only a
+-- category gets it at the top level.
+DO $$
+DECLARE
+  v_metric record;
+  v_name text;
+  v_parent_id uuid;
+  v_category_id uuid;
+BEGIN
+  FOR v_metric IN
+    SELECT id, metadata FROM public.metrics
+    WHERE metadata ?| ARRAY['domain', 'category', 'subcategory']
+  LOOP
+    v_parent_id := NULL;
+
+    FOREACH v_name IN ARRAY ARRAY[
+      v_metric.metadata ->> 'domain',
+      v_metric.metadata ->> 'category',
+      v_metric.metadata ->> 'subcategory'
+    ]
+    LOOP
+      v_name := nullif(trim(v_name), '');
+      CONTINUE WHEN v_name IS NULL;
+
+      SELECT id INTO v_category_id
+      FROM public.categories
+      WHERE name = v_name AND parent_id IS NOT DISTINCT FROM v_parent_id;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.categories (name, parent_id)
+        VALUES (v_name, v_parent_id)
+        RETURNING id INTO v_category_id;
+      END IF;
+
+      v_parent_id := v_category_id;
+    END LOOP;
+
+    UPDATE public.metrics
+    SET category_id = v_parent_id,
+        metadata = metadata - 'domain' - 'category' - 'subcategory'
+    WHERE id = v_metric.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,19 @@
+import { defineWorkspace } from 'vitest/config';
+
+export default defineWorkspace([
+  // App tests, run against the Supabase project of .env.test
+  'vitest.config.ts',
+  // Edge function modules, tested offline without the Supabase login of the app setup
+  {
+    // The functions import npm packages with the npm: specifier of Deno
+    resolve: {
+      alias: { 'npm:zod': 'zod' },
+    },
+    test: {
+      name: 'functions',
+      globals: true,
+      environment: 'node',
+      include: ['supabase/functions/**/*.test.ts'],
+    },
+  },
+]);